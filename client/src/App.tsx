@@ -5,12 +5,16 @@ import { ChatArea } from './components/chat/ChatArea';
 import { AdminPage } from './components/admin/AdminPage';
 import { VersionDisplay } from './components/ui/VersionDisplay';
 import { ProductReplacementPanel } from './components/panels/ProductReplacementPanel';
+import { LoginPage } from './components/auth/LoginPage';
 import { useChat } from './hooks/useChat';
+import { useAuth } from './hooks/useAuth';
+import { logChipAction } from './lib/chipActions';
+import type { ChipActionEvent, ChipPanel } from '@shared/schema';
 
 type AppView = 'chat' | 'admin';
 type AppMode = 'chat' | 'find-replacement';
 
-function App() {
+function ChatApp() {
   const [currentView, setCurrentView] = useState<AppView>('chat');
   const [currentMode, setCurrentMode] = useState<AppMode>('chat');
   const [showTaskbar, setShowTaskbar] = useState(false);
@@ -21,33 +25,37 @@ function App() {
     return saved ? JSON.parse(saved) : false;
   });
   const hasInitialized = useRef(false);
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  // Admins can chat against unpublished drafts to check them before publishing
+  const [previewDrafts, setPreviewDrafts] = useState(() => localStorage.getItem('previewDrafts') === 'true');
   
   const {
     chatSessions,
     activeChatId,
     activeChat,
+    isLoadingSessions,
     isTyping,
     isRenaming,
     streamingMessageId,
     createNewChat,
     sendMessage,
+    sendFollowUp,
     selectChat,
     pinChat,
     renameChat,
     deleteChat,
     startRenaming,
     stopRenaming,
-    handleProductSelection,
-    handleRefineQuery,
-  } = useChat();
+  } = useChat({ previewDrafts: isAdmin && previewDrafts });
 
-  // Create initial chat on mount - only once
+  // Open a fresh chat once persisted sessions have loaded - only once
   useEffect(() => {
-    if (chatSessions.length === 0 && !hasInitialized.current) {
+    if (!isLoadingSessions && !hasInitialized.current) {
       hasInitialized.current = true;
       createNewChat();
     }
-  }, [chatSessions.length, createNewChat]);
+  }, [isLoadingSessions, createNewChat]);
 
   const handleNewChat = () => {
     createNewChat();
@@ -69,19 +77,58 @@ function App() {
     setCurrentView('chat');
   };
 
+  const handleTogglePreviewDrafts = () => {
+    const newPreviewDrafts = !previewDrafts;
+    setPreviewDrafts(newPreviewDrafts);
+    localStorage.setItem('previewDrafts', String(newPreviewDrafts));
+  };
+
   const handleLogoClick = () => {
     // Refresh the page to reset to initial state
     window.location.reload();
   };
 
-  const handleTaskClick = (taskId: string) => {
-    // Handle task selection - for now, we can create a new chat or send a message
+  const handleOpenPanel = (panel: ChipPanel) => {
+    if (panel === 'tasks') {
+      setShowTaskbar(true);
+    } else {
+      handleModeSelect(panel);
+    }
+  };
+
+  const handleStartTask = (taskId: string) => {
+    if (taskId === 'find-replacement') {
+      handleOpenPanel('find-replacement');
+      return;
+    }
+    // Other tasks have no behavior yet
     console.log(`Task selected: ${taskId}`);
-    // You could implement specific logic for each task here
   };
 
-  const handleHowCanIHelpClick = () => {
-    setShowTaskbar(true);
+  // Single dispatcher for every chip: suggested questions, follow-ups, disambiguation choices and tasks
+  const handleChipAction = (event: ChipActionEvent) => {
+    const sessionId = Number(activeChatId);
+    logChipAction({ ...event, sessionId: Number.isInteger(sessionId) && sessionId > 0 ? sessionId : undefined });
+
+    const { action } = event;
+    switch (action.type) {
+      case 'ask-question':
+        sendMessage(action.question);
+        break;
+      case 'show-curated-response':
+        sendFollowUp(action.messageId, action.chipIndex);
+        break;
+      case 'open-panel':
+        handleOpenPanel(action.panel);
+        break;
+      case 'start-task':
+        handleStartTask(action.taskId);
+        break;
+    }
+  };
+
+  const handleTaskClick = (taskId: string, title: string) => {
+    handleChipAction({ action: { type: 'start-task', taskId }, label: title, source: 'taskbar' });
   };
 
   const handleCloseTaskbar = () => {
@@ -117,7 +164,7 @@ function App() {
     handleModeClose();
   };
 
-  if (currentView === 'admin') {
+  if (currentView === 'admin' && isAdmin) {
     return (
       <div className="h-screen">
         <AdminPage onBack={handleBackToChat} />
@@ -155,13 +202,13 @@ function App() {
         <ChatArea
           messages={activeChat?.messages || []}
           onSendMessage={handleSendMessage}
+          onChipAction={handleChipAction}
           isTyping={isTyping}
           streamingMessageId={streamingMessageId}
-          onSettingsClick={handleSettingsClick}
-          onHowCanIHelpClick={handleHowCanIHelpClick}
+          onSettingsClick={isAdmin ? handleSettingsClick : undefined}
+          previewDrafts={isAdmin && previewDrafts}
+          onTogglePreviewDrafts={isAdmin ? handleTogglePreviewDrafts : undefined}
           showTaskSidebar={showTaskbar}
-          onProductSelect={handleProductSelection}
-          onRefineQuery={handleRefineQuery}
         />
       </div>
 
@@ -197,4 +244,23 @@ function App() {
   );
 }
 
+function App() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  // Chat state is only loaded once someone is signed in; keying by user resets it on account switch
+  if (!user) {
+    return <LoginPage />;
+  }
+
+  return <ChatApp key={user.id} />;
+}
+
 export default App;
\ No newline at end of file
@@ -6,25 +6,39 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui
 import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { ArrowLeft, Plus, Trash2, Edit, Search, ChevronLeft, ChevronRight, X, Copy, CheckCircle, Upload } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Edit, Search, ChevronLeft, ChevronRight, X, Copy, CheckCircle, Upload, History, GitBranch } from 'lucide-react';
 import { Switch } from '../ui/switch';
 import { Modal } from '../ui/Modal';
 import { RichTextEditor } from '../ui/RichTextEditor';
 import { RagTest } from './RagTest';
 import ApiLogs from './ApiLogs';
-import type { MockResponse } from '@shared/schema';
+import type { MockResponse, InsertMockResponse } from '@shared/schema';
 import { FollowUpChipForm } from './FollowUpChipForm';
 import { ObjectUploader } from '../ObjectUploader';
 import { VersionDisplay } from '../ui/VersionDisplay';
 import { FeedbackManager } from './FeedbackManager';
+import { UserManager } from './UserManager';
+import { UsageDashboard } from './UsageDashboard';
+import { GenerationSettings } from './GenerationSettings';
+import { MockMatchPreview } from './MockMatchPreview';
+import { MockResponseVariantsForm } from './MockResponseVariantsForm';
+import { MockResponseTransfer } from './MockResponseTransfer';
+import { RevisionHistoryModal, formatMockResponseSnapshot, type Revision } from './RevisionHistoryModal';
+import { DraftPublisher } from './DraftPublisher';
+import { FollowUpIssues } from './FollowUpIssues';
+import { FollowUpTreeModal } from './FollowUpTreeModal';
 import type { UploadResult } from '@uppy/core';
 
+// Mirrors applyMockResponseDraft in server/storage.ts
+const withDraft = (mockResponse: MockResponse): MockResponse =>
+  mockResponse.draft ? { ...mockResponse, ...JSON.parse(mockResponse.draft) } : mockResponse;
+
 interface AdminPageProps {
   onBack: () => void;
 }
 
 export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
-  const [activeTab, setActiveTab] = useState<'home' | 'responses' | 'system' | 'rag' | 'logs' | 'personalize' | 'version' | 'feedback'>('home');
+  const [activeTab, setActiveTab] = useState<'home' | 'responses' | 'system' | 'rag' | 'logs' | 'personalize' | 'version' | 'feedback' | 'users' | 'usage'>('home');
   const [openingText, setOpeningText] = useState('');
   const [supportingText, setSupportingText] = useState('');
   const [introQuestions, setIntroQuestions] = useState('');
@@ -45,20 +59,26 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
   const [newFollowUpResponse, setNewFollowUpResponse] = useState('');
   const [newFollowUpResponseType, setNewFollowUpResponseType] = useState<'custom' | 'existing'>('custom');
   const [newFollowUpLinkedResponseId, setNewFollowUpLinkedResponseId] = useState<number | null>(null);
+  const [matchThreshold, setMatchThreshold] = useState(''); // Blank uses the global default
+  const [alternateQuestions, setAlternateQuestions] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
   const [useRichTextForIntro, setUseRichTextForIntro] = useState(false);
   const [useRichTextForSupporting, setUseRichTextForSupporting] = useState(false);
   const [useRichTextForQuestions, setUseRichTextForQuestions] = useState(false);
   const [tryAskingEnabled, setTryAskingEnabled] = useState(true);
   const [performanceFeedbackEnabled, setPerformanceFeedbackEnabled] = useState(true);
   const [systemPrompt, setSystemPrompt] = useState('');
+  const [isSystemPromptHistoryOpen, setIsSystemPromptHistoryOpen] = useState(false);
+  const [historyMockResponseId, setHistoryMockResponseId] = useState<number | null>(null);
+  const [followUpTreeRootId, setFollowUpTreeRootId] = useState<number | null>(null);
 
   // Personalization settings
   const [companyName, setCompanyName] = useState('');
-  const [userName, setUserName] = useState('');
   const [logoUrl, setLogoUrl] = useState('');
 
   // Mock responses pagination and search
   const [searchTerm, setSearchTerm] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
@@ -104,11 +124,18 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     queryFn: () => fetch('/api/settings/system_prompt').then(res => res.json())
   });
 
-  // Fetch mock responses
-  const { data: mockResponses, isLoading: isLoadingMockResponses } = useQuery({
+  // Fetch unpublished system prompt edits, if any
+  const { data: systemPromptDraftSetting } = useQuery({
+    queryKey: ['/api/settings', 'system_prompt_draft'],
+    queryFn: () => fetch('/api/settings/system_prompt_draft').then(res => res.ok ? res.json() : null)
+  });
+
+  // Fetch mock responses; the panel shows and edits them with any unpublished draft applied
+  const { data: storedMockResponses, isLoading: isLoadingMockResponses } = useQuery({
     queryKey: ['/api/mock-responses'],
     queryFn: () => fetch('/api/mock-responses').then(res => res.json())
   });
+  const mockResponses: MockResponse[] | undefined = storedMockResponses?.map(withDraft);
 
   // Fetch personalization settings
   const { data: companyNameSetting, isLoading: isLoadingCompanyName } = useQuery({
@@ -116,11 +143,6 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     queryFn: () => fetch('/api/settings/company_name').then(res => res.json())
   });
 
-  const { data: userNameSetting, isLoading: isLoadingUserName } = useQuery({
-    queryKey: ['/api/settings', 'user_name'],
-    queryFn: () => fetch('/api/settings/user_name').then(res => res.json())
-  });
-
   const { data: logoUrlSetting, isLoading: isLoadingLogoUrl } = useQuery({
     queryKey: ['/api/settings', 'logo_url'],
     queryFn: () => fetch('/api/settings/logo_url').then(res => res.json())
@@ -259,7 +281,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
   // Update system prompt mutation
   const updateSystemPromptMutation = useMutation({
     mutationFn: (value: string) => 
-      apiRequest('/api/settings/system_prompt', {
+      apiRequest('/api/settings/system_prompt_draft', {
         method: 'PUT',
         body: JSON.stringify({ value }),
         headers: {
@@ -267,16 +289,17 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         },
       }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settings', 'system_prompt'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings', 'system_prompt_draft'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
       toast({
         title: "Success",
-        description: "System prompt updated successfully",
+        description: "System prompt draft saved. Publish it to use it in chat.",
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update system prompt",
+        description: "Failed to save system prompt draft",
         variant: "destructive",
       });
     },
@@ -308,32 +331,6 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     },
   });
 
-  // Update user name mutation
-  const updateUserNameMutation = useMutation({
-    mutationFn: (value: string) => 
-      apiRequest('/api/settings/user_name', {
-        method: 'PUT',
-        body: JSON.stringify({ value }),
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settings', 'user_name'] });
-      toast({
-        title: "Success",
-        description: "User name updated successfully",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to update user name",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Update logo URL mutation
   const updateLogoUrlMutation = useMutation({
     mutationFn: (value: string) => 
@@ -362,7 +359,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
 
   // Create mock response mutation
   const createMockResponseMutation = useMutation({
-    mutationFn: (data: { question: string; response: string; showTryAsking?: boolean; tryAskingPrompts?: string[]; showFollowUp?: boolean; followUpQuestion?: string; followUpChips?: string[]; followUpResponses?: string[]; followUpResponseTypes?: string[]; followUpLinkedResponseIds?: number[] }) => 
+    mutationFn: (data: { question: string; response: string; showTryAsking?: boolean; tryAskingPrompts?: string[]; showFollowUp?: boolean; followUpQuestion?: string; followUpChips?: string[]; followUpResponses?: string[]; followUpResponseTypes?: string[]; followUpLinkedResponseIds?: number[]; matchThreshold?: number | null; alternateQuestions?: string[]; tags?: string[] }) => 
       apiRequest('/api/mock-responses', {
         method: 'POST',
         body: JSON.stringify(data),
@@ -372,6 +369,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
       setIsAddingMockResponse(false);
       setNewMockQuestion('');
       setNewMockResponse('');
@@ -383,19 +381,22 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
       setFollowUpResponses([]);
       setFollowUpResponseTypes([]);
       setFollowUpLinkedResponseIds([]);
+      setMatchThreshold('');
+      setAlternateQuestions([]);
+      setTags([]);
       setNewFollowUpChip('');
       setNewFollowUpResponse('');
       setNewFollowUpResponseType('custom');
       setNewFollowUpLinkedResponseId(null);
       toast({
         title: "Success",
-        description: "Mock response created successfully",
+        description: "Mock response saved as a draft. Publish it to use it in chat.",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to create mock response",
+        description: error?.message || "Failed to create mock response",
         variant: "destructive",
       });
     },
@@ -403,7 +404,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
 
   // Update mock response mutation
   const updateMockResponseMutation = useMutation({
-    mutationFn: (data: { id: number; question: string; response: string; showTryAsking?: boolean; tryAskingPrompts?: string[]; showFollowUp?: boolean; followUpQuestion?: string; followUpChips?: string[]; followUpResponses?: string[]; followUpResponseTypes?: string[]; followUpLinkedResponseIds?: number[] }) => 
+    mutationFn: (data: { id: number; question: string; response: string; showTryAsking?: boolean; tryAskingPrompts?: string[]; showFollowUp?: boolean; followUpQuestion?: string; followUpChips?: string[]; followUpResponses?: string[]; followUpResponseTypes?: string[]; followUpLinkedResponseIds?: number[]; matchThreshold?: number | null; alternateQuestions?: string[]; tags?: string[] }) => 
       apiRequest(`/api/mock-responses/${data.id}`, {
         method: 'PUT',
         body: JSON.stringify({ 
@@ -416,7 +417,10 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
           followUpChips: data.followUpChips,
           followUpResponses: data.followUpResponses,
           followUpResponseTypes: data.followUpResponseTypes,
-          followUpLinkedResponseIds: data.followUpLinkedResponseIds
+          followUpLinkedResponseIds: data.followUpLinkedResponseIds,
+          matchThreshold: data.matchThreshold,
+          alternateQuestions: data.alternateQuestions,
+          tags: data.tags
         }),
         headers: {
           'Content-Type': 'application/json',
@@ -424,6 +428,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
       setEditingMockResponse(null);
       setNewMockQuestion('');
       setNewMockResponse('');
@@ -435,19 +440,22 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
       setFollowUpResponses([]);
       setFollowUpResponseTypes([]);
       setFollowUpLinkedResponseIds([]);
+      setMatchThreshold('');
+      setAlternateQuestions([]);
+      setTags([]);
       setNewFollowUpChip('');
       setNewFollowUpResponse('');
       setNewFollowUpResponseType('custom');
       setNewFollowUpLinkedResponseId(null);
       toast({
         title: "Success",
-        description: "Mock response updated successfully",
+        description: "Changes saved as a draft. Publish them to use them in chat.",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update mock response",
+        description: error?.message || "Failed to update mock response",
         variant: "destructive",
       });
     },
@@ -461,15 +469,16 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
       toast({
         title: "Success",
         description: "Mock response deleted successfully",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to delete mock response",
+        description: error?.message || "Failed to delete mock response",
         variant: "destructive",
       });
     },
@@ -506,10 +515,11 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
   }, [performanceFeedbackEnabledSetting]);
 
   useEffect(() => {
-    if (systemPromptSetting?.value) {
-      setSystemPrompt(systemPromptSetting.value);
+    const value = systemPromptDraftSetting?.value ?? systemPromptSetting?.value;
+    if (value) {
+      setSystemPrompt(value);
     }
-  }, [systemPromptSetting]);
+  }, [systemPromptSetting, systemPromptDraftSetting]);
 
   useEffect(() => {
     if (companyNameSetting?.value) {
@@ -517,12 +527,6 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     }
   }, [companyNameSetting]);
 
-  useEffect(() => {
-    if (userNameSetting?.value) {
-      setUserName(userNameSetting.value);
-    }
-  }, [userNameSetting]);
-
   useEffect(() => {
     if (logoUrlSetting?.value) {
       setLogoUrl(logoUrlSetting.value);
@@ -564,10 +568,6 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     updateCompanyNameMutation.mutate(companyName);
   };
 
-  const handleSaveUserName = () => {
-    updateUserNameMutation.mutate(userName);
-  };
-
   const handleSaveLogoUrl = () => {
     updateLogoUrlMutation.mutate(logoUrl);
   };
@@ -644,11 +644,15 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     }
   };
 
+  // Per-response match threshold is optional; when set it must be between 0 and 1
+  const matchThresholdValue = Number(matchThreshold);
+  const matchThresholdError = matchThreshold.trim() !== '' && (isNaN(matchThresholdValue) || matchThresholdValue < 0 || matchThresholdValue > 1);
+
   const handleCreateMockResponse = () => {
     const trimmedQuestion = newMockQuestion.trim();
     const trimmedResponse = newMockResponse.trim();
 
-    if (trimmedQuestion && trimmedResponse && trimmedResponse !== '<p></p>') {
+    if (trimmedQuestion && trimmedResponse && trimmedResponse !== '<p></p>' && !matchThresholdError) {
       createMockResponseMutation.mutate({
         question: trimmedQuestion,
         response: trimmedResponse,
@@ -660,6 +664,9 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         followUpResponses: showFollowUp ? followUpResponses : [],
         followUpResponseTypes: showFollowUp ? followUpResponseTypes : [],
         followUpLinkedResponseIds: showFollowUp ? followUpLinkedResponseIds : [],
+        matchThreshold: matchThreshold.trim() ? Number(matchThreshold) : null,
+        alternateQuestions,
+        tags,
       });
     }
   };
@@ -668,7 +675,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     const trimmedQuestion = newMockQuestion.trim();
     const trimmedResponse = newMockResponse.trim();
 
-    if (editingMockResponse && trimmedQuestion && trimmedResponse && trimmedResponse !== '<p></p>') {
+    if (editingMockResponse && trimmedQuestion && trimmedResponse && trimmedResponse !== '<p></p>' && !matchThresholdError) {
       updateMockResponseMutation.mutate({
         id: editingMockResponse.id,
         question: trimmedQuestion,
@@ -681,6 +688,9 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         followUpResponses: showFollowUp ? followUpResponses : [],
         followUpResponseTypes: showFollowUp ? followUpResponseTypes : [],
         followUpLinkedResponseIds: showFollowUp ? followUpLinkedResponseIds : [],
+        matchThreshold: matchThreshold.trim() ? Number(matchThreshold) : null,
+        alternateQuestions,
+        tags,
       });
     }
   };
@@ -689,6 +699,11 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     deleteMockResponseMutation.mutate(id);
   };
 
+  // Read from the list so the history modal's "current" version, drafts applied, refreshes after a restore
+  const historyMockResponse: MockResponse | undefined = mockResponses?.find(
+    (mockResponse: MockResponse) => mockResponse.id === historyMockResponseId
+  );
+
   const handleEditMockResponse = (mockResponse: MockResponse) => {
     setEditingMockResponse(mockResponse);
     setNewMockQuestion(mockResponse.question);
@@ -701,6 +716,9 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     setFollowUpResponses(mockResponse.followUpResponses || []);
     setFollowUpResponseTypes(mockResponse.followUpResponseTypes || []);
     setFollowUpLinkedResponseIds(mockResponse.followUpLinkedResponseIds || []);
+    setMatchThreshold(mockResponse.matchThreshold !== null ? String(mockResponse.matchThreshold) : '');
+    setAlternateQuestions(mockResponse.alternateQuestions || []);
+    setTags(mockResponse.tags || []);
   };
 
   const handleCancelEdit = () => {
@@ -715,6 +733,9 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     setFollowUpResponses([]);
     setFollowUpResponseTypes([]);
     setFollowUpLinkedResponseIds([]);
+    setMatchThreshold('');
+    setAlternateQuestions([]);
+    setTags([]);
     setNewFollowUpChip('');
     setNewFollowUpResponse('');
     setNewFollowUpResponseType('custom');
@@ -789,6 +810,9 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     setFollowUpResponses([]);
     setFollowUpResponseTypes([]);
     setFollowUpLinkedResponseIds([]);
+    setMatchThreshold('');
+    setAlternateQuestions([]);
+    setTags([]);
     setNewFollowUpChip('');
     setNewFollowUpResponse('');
     setNewFollowUpResponseType('custom');
@@ -853,19 +877,27 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
   };
 
   // Filter and paginate mock responses
+  // All tags in use, for the tag filter
+  const allTags: string[] = Array.from(new Set<string>(
+    (mockResponses || []).flatMap((mockResponse: MockResponse) => mockResponse.tags || [])
+  )).sort();
+
   const filteredMockResponses = mockResponses?.filter((mockResponse: MockResponse) =>
-    mockResponse.question.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    mockResponse.response.toLowerCase().includes(searchTerm.toLowerCase())
+    (!tagFilter || (mockResponse.tags || []).includes(tagFilter)) && (
+      mockResponse.question.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      mockResponse.response.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (mockResponse.alternateQuestions || []).some(phrasing => phrasing.toLowerCase().includes(searchTerm.toLowerCase()))
+    )
   ) || [];
 
   const totalPages = Math.ceil(filteredMockResponses.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedMockResponses = filteredMockResponses.slice(startIndex, startIndex + itemsPerPage);
 
-  // Reset to first page when search term changes
+  // Reset to first page when search term or tag filter changes
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm]);
+  }, [searchTerm, tagFilter]);
 
   if (isLoadingOpening || isLoadingSupporting || isLoadingQuestions || isLoadingMockResponses) {
     return (
@@ -948,6 +980,16 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             >
               API Logs
             </button>
+            <button
+              onClick={() => setActiveTab('usage')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'usage'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-800 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Usage
+            </button>
             <button
               onClick={() => setActiveTab('personalize')}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -978,6 +1020,16 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             >
               Feedback
             </button>
+            <button
+              onClick={() => setActiveTab('users')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'users'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-800 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Users
+            </button>
           </nav>
         </div>
       </div>
@@ -1063,7 +1115,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
           <CardHeader>
             <CardTitle>Try Asking Suggestions</CardTitle>
             <CardDescription>
-              Controls whether "Try asking" suggestions appear in the chat interface. When enabled, users see suggested questions after AI responses.
+              Controls whether "Try asking" suggestions appear in the chat interface. When enabled, users see suggested questions after AI responses: the curated prompts on mock responses, and questions generated from the answer and its sources for OpenAI responses.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -1144,6 +1196,12 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             </Button>
           </div>
 
+          <DraftPublisher />
+          <MockMatchPreview />
+          <FollowUpIssues onViewTree={setFollowUpTreeRootId} />
+
+          <MockResponseTransfer />
+
           {/* Search and Stats */}
           <div className="flex items-center justify-between gap-4">
             <div className="relative flex-1 max-w-md">
@@ -1155,6 +1213,19 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                 className="pl-4"
               />
             </div>
+            {allTags.length > 0 && (
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="select-mock-tag-filter"
+              >
+                <option value="">All tags</option>
+                {allTags.map(tag => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            )}
             <div className="text-sm text-gray-500">
               {filteredMockResponses.length} of {mockResponses?.length || 0} responses
             </div>
@@ -1206,6 +1277,33 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                             <Copy className="absolute right-1 top-1/2 transform -translate-y-1/2 w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity duration-200" />
                           )}
                         </div>
+                        {(mockResponse.status === 'draft' || mockResponse.draft) && (
+                          <span className="inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                            {mockResponse.status === 'draft' ? 'Not published' : 'Unpublished changes'}
+                          </span>
+                        )}
+                        {((mockResponse.alternateQuestions?.length || 0) > 0 || (mockResponse.tags?.length || 0) > 0) && (
+                          <div className="flex flex-wrap items-center gap-1 mt-2 max-w-xs">
+                            {(mockResponse.alternateQuestions?.length || 0) > 0 && (
+                              <span
+                                className="text-xs text-gray-500 mr-1"
+                                title={mockResponse.alternateQuestions!.join('\n')}
+                              >
+                                +{mockResponse.alternateQuestions!.length} phrasing{mockResponse.alternateQuestions!.length === 1 ? '' : 's'}
+                              </span>
+                            )}
+                            {(mockResponse.tags || []).map(tag => (
+                              <button
+                                key={tag}
+                                type="button"
+                                onClick={() => setTagFilter(tag)}
+                                className="bg-gray-100 text-gray-700 hover:bg-gray-200 px-2 py-0.5 rounded-full text-xs"
+                              >
+                                {tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-900 max-w-lg">
@@ -1236,6 +1334,22 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryMockResponseId(mockResponse.id)}
+                            title="History"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setFollowUpTreeRootId(mockResponse.id)}
+                            title="Follow-up graph"
+                          >
+                            <GitBranch className="w-4 h-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -1310,10 +1424,37 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             <Input
               value={newMockQuestion}
               onChange={(e) => setNewMockQuestion(e.target.value)}
-              placeholder="Enter the exact question users will ask..."
+              placeholder="Enter the question users will ask..."
               className="w-full"
             />
           </div>
+          <MockResponseVariantsForm
+            question={newMockQuestion}
+            alternateQuestions={alternateQuestions}
+            tags={tags}
+            onAlternateQuestionsChange={setAlternateQuestions}
+            onTagsChange={setTags}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Match threshold
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={matchThreshold}
+              onChange={(e) => setMatchThreshold(e.target.value)}
+              placeholder="Default"
+              className="w-32"
+            />
+            <p className={`text-xs mt-1 ${matchThresholdError ? 'text-red-500' : 'text-gray-500'}`}>
+              {matchThresholdError
+                ? 'Threshold must be a number between 0 and 1.'
+                : 'How closely a user question must match (0-1). Leave blank to use the default from Question Matching.'}
+            </p>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Response
@@ -1575,7 +1716,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             </Button>
             <Button
               onClick={handleCreateMockResponse}
-              disabled={createMockResponseMutation.isPending || !newMockQuestion.trim() || !newMockResponse.trim() || newMockResponse.trim() === '<p></p>'}
+              disabled={createMockResponseMutation.isPending || matchThresholdError || !newMockQuestion.trim() || !newMockResponse.trim() || newMockResponse.trim() === '<p></p>'}
             >
               {createMockResponseMutation.isPending ? 'Creating...' : 'Create Mock Response'}
             </Button>
@@ -1597,10 +1738,37 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             <Input
               value={newMockQuestion}
               onChange={(e) => setNewMockQuestion(e.target.value)}
-              placeholder="Enter the exact question users will ask..."
+              placeholder="Enter the question users will ask..."
               className="w-full"
             />
           </div>
+          <MockResponseVariantsForm
+            question={newMockQuestion}
+            alternateQuestions={alternateQuestions}
+            tags={tags}
+            onAlternateQuestionsChange={setAlternateQuestions}
+            onTagsChange={setTags}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Match threshold
+            </label>
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={matchThreshold}
+              onChange={(e) => setMatchThreshold(e.target.value)}
+              placeholder="Default"
+              className="w-32"
+            />
+            <p className={`text-xs mt-1 ${matchThresholdError ? 'text-red-500' : 'text-gray-500'}`}>
+              {matchThresholdError
+                ? 'Threshold must be a number between 0 and 1.'
+                : 'How closely a user question must match (0-1). Leave blank to use the default from Question Matching.'}
+            </p>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Response
@@ -1863,21 +2031,37 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             </Button>
             <Button
               onClick={handleUpdateMockResponse}
-              disabled={updateMockResponseMutation.isPending || !newMockQuestion.trim() || !newMockResponse.trim() || newMockResponse.trim() === '<p></p>'}
+              disabled={updateMockResponseMutation.isPending || matchThresholdError || !newMockQuestion.trim() || !newMockResponse.trim() || newMockResponse.trim() === '<p></p>'}
             >
               {updateMockResponseMutation.isPending ? 'Updating...' : 'Update Mock Response'}
             </Button>
           </div>
         </div>
       </Modal>
+      <FollowUpTreeModal rootId={followUpTreeRootId} onClose={() => setFollowUpTreeRootId(null)} />
+      {historyMockResponse && (
+        <RevisionHistoryModal<Revision & { snapshot: InsertMockResponse }>
+          isOpen={true}
+          onClose={() => setHistoryMockResponseId(null)}
+          title={`History: ${historyMockResponse.question}`}
+          revisionsUrl={`/api/mock-responses/${historyMockResponse.id}/revisions`}
+          currentText={formatMockResponseSnapshot(historyMockResponse)}
+          toText={(revision) => formatMockResponseSnapshot(revision.snapshot)}
+          onRestored={() => {
+            queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+            queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+          }}
+        />
+      )}
       {/* System Prompt Tab */}
       {activeTab === 'system' && (
         <div className="space-y-6">
+          <DraftPublisher />
           <Card>
             <CardHeader>
               <CardTitle>OpenAI System Prompt</CardTitle>
               <CardDescription>
-                This is the system prompt that will be sent to OpenAI when generating responses. It defines the AI's behavior, tone, and output format. Changes take effect immediately for new conversations.
+                This is the system prompt that will be sent to OpenAI when generating responses. It defines the AI's behavior, tone, and output format. Saved changes are kept as a draft until they are published.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -1887,16 +2071,37 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                 placeholder="Enter the system prompt for OpenAI..."
                 className="min-h-[350px] font-mono text-sm"
               />
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsSystemPromptHistoryOpen(true)}
+                  data-testid="button-system-prompt-history"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  History
+                </Button>
                 <Button
                   onClick={handleSaveSystemPrompt}
                   disabled={updateSystemPromptMutation.isPending}
                 >
-                  {updateSystemPromptMutation.isPending ? 'Saving...' : 'Save System Prompt'}
+                  {updateSystemPromptMutation.isPending ? 'Saving...' : 'Save Draft'}
                 </Button>
               </div>
             </CardContent>
           </Card>
+          <GenerationSettings />
+          <RevisionHistoryModal<Revision & { value: string }>
+            isOpen={isSystemPromptHistoryOpen}
+            onClose={() => setIsSystemPromptHistoryOpen(false)}
+            title="System Prompt History"
+            revisionsUrl="/api/settings/system_prompt/revisions"
+            currentText={systemPromptDraftSetting?.value ?? systemPromptSetting?.value ?? ''}
+            toText={(revision) => revision.value}
+            onRestored={() => {
+              queryClient.invalidateQueries({ queryKey: ['/api/settings', 'system_prompt_draft'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+            }}
+          />
         </div>
       )}
       {/* RAG Test Tab */}
@@ -1912,6 +2117,13 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
           <ApiLogs />
         </div>
       )}
+
+      {/* Usage Tab */}
+      {activeTab === 'usage' && (
+        <div className="space-y-6">
+          <UsageDashboard />
+        </div>
+      )}
       
       {/* Personalize Tab */}
       {activeTab === 'personalize' && (
@@ -2007,41 +2219,6 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
               </div>
             </CardContent>
           </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>User Name</CardTitle>
-              <CardDescription>
-                The user name that appears at the bottom of the sidebar. The initials will be automatically generated from the first letter of each word.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <Input
-                value={userName}
-                onChange={(e) => setUserName(e.target.value)}
-                placeholder="Enter user name (e.g., John Sanders)"
-              />
-              {userName && (
-                <div className="flex items-center space-x-4">
-                  <div className="text-sm text-gray-600">Preview:</div>
-                  <div className="flex items-center space-x-3">
-                    <div className="w-7 h-7 bg-blue-500 rounded-full flex items-center justify-center text-white font-medium text-xs">
-                      {userName.split(' ').slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('')}
-                    </div>
-                    <span className="text-sm font-medium text-gray-900">{userName}</span>
-                  </div>
-                </div>
-              )}
-              <div className="flex justify-end">
-                <Button
-                  onClick={handleSaveUserName}
-                  disabled={updateUserNameMutation.isPending}
-                >
-                  {updateUserNameMutation.isPending ? 'Saving...' : 'Save User Name'}
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
         </div>
       )}
       
@@ -2088,6 +2265,13 @@ export const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
           <FeedbackManager />
         </div>
       )}
+
+      {/* Users Tab */}
+      {activeTab === 'users' && (
+        <div className="space-y-6">
+          <UserManager />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
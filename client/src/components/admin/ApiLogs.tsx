@@ -1,37 +1,172 @@
-import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Chip } from '@/components/ui/Chip';
-import { Trash2, RefreshCw, Eye, EyeOff, MessageSquare, Brain, Database } from 'lucide-react';
+import { Trash2, RefreshCw, Eye, EyeOff, MessageSquare, Brain, Database, ChevronLeft, ChevronRight, Activity } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 
 interface ApiLogEntry {
   id: string;
   timestamp: number;
+  userId?: number;
+  username?: string;
   userQuestion: string;
   systemPrompt: string;
   ragContent?: string;
   openaiMessages: any[];
   response: string;
-  source: 'mock' | 'openai' | 'openai-rag';
+  source: 'mock' | 'openai' | 'openai-rag' | 'rag-disambiguation' | 'fallback';
   processingTime: number;
   ragResponseTime?: number;
   ragContentLength?: number;
   disambiguationDetected?: boolean;
   disambiguationContent?: string;
+  disambiguationParsed?: {
+    optionsCount: number;
+    options: Array<{ name: string; company?: string; description?: string }>;
+    instructions?: string;
+  };
+  tokenUsage?: {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimated: boolean;
+    estimatedCost: number;
+  };
+  trace?: ChatTrace;
+}
+
+// Mirrors ChatTraceData in server/chatTrace.ts
+interface ChatTrace {
+  startedAt: string;
+  totalMs: number;
+  stages: Array<{
+    name: string;
+    status: 'ok' | 'skipped' | 'error';
+    startOffsetMs: number;
+    durationMs: number;
+    detail?: string;
+    data?: Record<string, unknown>;
+  }>;
+}
+
+interface ApiLogSourceStats {
+  source: string;
+  count: number;
+  averageProcessingTime: number;
+  disambiguationCount: number;
+}
+
+interface ApiLogPage {
+  logs: ApiLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  stats: ApiLogSourceStats[];
 }
 
+const PAGE_SIZE = 25;
+const SOURCES = ['mock', 'openai', 'openai-rag', 'rag-disambiguation', 'fallback'];
+
+const TRACE_STATUS_COLORS: Record<ChatTrace['stages'][number]['status'], string> = {
+  ok: 'bg-green-500',
+  skipped: 'bg-gray-300',
+  error: 'bg-red-500',
+};
+
+// Helper function to render a trace stage's data values compactly
+const formatTraceValue = (value: unknown): string => {
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
 export default function ApiLogs() {
   const [expandedLogs, setExpandedLogs] = useState<Set<string>>(new Set());
   const [formattedLogs, setFormattedLogs] = useState<Set<string>>(new Set());
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [disambiguationFilter, setDisambiguationFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [retentionDays, setRetentionDays] = useState('');
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Go back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [sourceFilter, disambiguationFilter, fromDate, toDate, searchQuery]);
+
+  const params = new URLSearchParams({ page: String(currentPage), pageSize: String(PAGE_SIZE) });
+  if (sourceFilter) params.set('source', sourceFilter);
+  if (disambiguationFilter) params.set('disambiguation', disambiguationFilter);
+  // Date inputs are local calendar days; cover the whole "to" day
+  if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set('to', new Date(`${toDate}T23:59:59.999`).toISOString());
+  if (searchQuery.trim()) params.set('search', searchQuery.trim());
+  const queryString = params.toString();
+  const hasFilters = Boolean(sourceFilter || disambiguationFilter || fromDate || toDate || searchQuery.trim());
 
   // Fetch API logs
-  const { data: logs = [], isLoading, refetch } = useQuery<ApiLogEntry[]>({
-    queryKey: ['/api/logs'],
-    queryFn: () => fetch('/api/logs').then(res => res.json()),
+  const { data, isLoading, refetch } = useQuery<ApiLogPage>({
+    queryKey: ['/api/logs', queryString],
+    queryFn: () => apiRequest(`/api/logs?${queryString}`),
     refetchInterval: 5000, // Refresh every 5 seconds
+    placeholderData: keepPreviousData,
+  });
+
+  const logs = data?.logs ?? [];
+  const total = data?.total ?? 0;
+  const stats = data?.stats ?? [];
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const startIndex = (currentPage - 1) * PAGE_SIZE;
+
+  const countForSource = (source: string) => stats.find(stat => stat.source === source)?.count ?? 0;
+  const disambiguationCount = stats.reduce((sum, stat) => sum + stat.disambiguationCount, 0);
+  const averageProcessingTime = total > 0
+    ? Math.round(stats.reduce((sum, stat) => sum + stat.averageProcessingTime * stat.count, 0) / total)
+    : 0;
+
+  // Fetch retention setting
+  const { data: retentionSetting } = useQuery<{ key: string; value: string }>({
+    queryKey: ['/api/settings/api_log_retention_days'],
+    queryFn: () => apiRequest('/api/settings/api_log_retention_days'),
+  });
+
+  useEffect(() => {
+    if (retentionSetting?.value) {
+      setRetentionDays(retentionSetting.value);
+    }
+  }, [retentionSetting]);
+
+  // Update retention mutation
+  const updateRetentionMutation = useMutation({
+    mutationFn: (value: string) =>
+      apiRequest('/api/settings/api_log_retention_days', {
+        method: 'PUT',
+        body: JSON.stringify({ value }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/api_log_retention_days'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/logs'] });
+      toast({
+        title: "Retention Updated",
+        description: `Logs older than ${retentionDays} days will be deleted automatically.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error?.message || "Failed to update log retention.",
+        variant: "destructive",
+      });
+    },
   });
 
   // Clear logs mutation
@@ -120,6 +255,7 @@ export default function ApiLogs() {
     switch (source) {
       case 'mock': return 'bg-blue-100 text-blue-800';
       case 'openai-rag': return 'bg-purple-100 text-purple-800';
+      case 'fallback': return 'bg-red-100 text-red-800';
       default: return 'bg-green-100 text-green-800';
     }
   };
@@ -154,18 +290,86 @@ export default function ApiLogs() {
         </div>
       </div>
 
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Search questions</label>
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="e.g. AF27"
+                className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="input-log-search"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+              <select
+                value={sourceFilter}
+                onChange={(e) => setSourceFilter(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="select-log-source"
+              >
+                <option value="">All sources</option>
+                {SOURCES.map(source => (
+                  <option key={source} value={source}>{source}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Disambiguation</label>
+              <select
+                value={disambiguationFilter}
+                onChange={(e) => setDisambiguationFilter(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="select-log-disambiguation"
+              >
+                <option value="">Any</option>
+                <option value="true">Detected</option>
+                <option value="false">Not detected</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  data-testid="input-log-from"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  data-testid="input-log-to"
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Summary Stats */}
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card>
           <CardContent className="p-4">
-            <div className="text-2xl font-bold">{logs.length}</div>
+            <div className="text-2xl font-bold">{total}</div>
             <div className="text-sm text-gray-600">Total Requests</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
             <div className="text-2xl font-bold">
-              {logs.filter(log => log.source === 'openai-rag').length}
+              {countForSource('openai-rag')}
             </div>
             <div className="text-sm text-gray-600">RAG Enhanced</div>
           </CardContent>
@@ -173,7 +377,7 @@ export default function ApiLogs() {
         <Card>
           <CardContent className="p-4">
             <div className="text-2xl font-bold">
-              {logs.filter(log => log.source === 'mock').length}
+              {countForSource('mock')}
             </div>
             <div className="text-sm text-gray-600">Mock Responses</div>
           </CardContent>
@@ -181,7 +385,7 @@ export default function ApiLogs() {
         <Card>
           <CardContent className="p-4">
             <div className="text-2xl font-bold">
-              {logs.filter(log => log.disambiguationDetected).length}
+              {disambiguationCount}
             </div>
             <div className="text-sm text-gray-600">Disambiguation Cases</div>
           </CardContent>
@@ -189,7 +393,7 @@ export default function ApiLogs() {
         <Card>
           <CardContent className="p-4">
             <div className="text-2xl font-bold">
-              {logs.length > 0 ? Math.round(logs.reduce((sum, log) => sum + log.processingTime, 0) / logs.length) : 0}ms
+              {averageProcessingTime}ms
             </div>
             <div className="text-sm text-gray-600">Avg Response Time</div>
           </CardContent>
@@ -207,7 +411,11 @@ export default function ApiLogs() {
         ) : logs.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
-              <div className="text-gray-500">No API logs yet. Start a conversation to see logs here.</div>
+              <div className="text-gray-500">
+                {hasFilters
+                  ? 'No API logs match these filters.'
+                  : 'No API logs yet. Start a conversation to see logs here.'}
+              </div>
             </CardContent>
           </Card>
         ) : (
@@ -228,6 +436,19 @@ export default function ApiLogs() {
                       <div className="text-sm text-gray-500">
                         {log.processingTime}ms
                       </div>
+                      {log.username && (
+                        <div className="text-sm text-gray-600">
+                          {log.username}
+                        </div>
+                      )}
+                      {log.tokenUsage && (
+                        <div
+                          className="text-sm text-gray-500"
+                          title={`${log.tokenUsage.model}: ${log.tokenUsage.promptTokens} prompt + ${log.tokenUsage.completionTokens} completion${log.tokenUsage.estimated ? ' (estimated)' : ''}`}
+                        >
+                          {log.tokenUsage.estimated && '~'}{log.tokenUsage.totalTokens.toLocaleString()} tokens · ${log.tokenUsage.estimatedCost.toFixed(4)}
+                        </div>
+                      )}
                       {log.ragResponseTime && (
                         <div className="text-sm text-purple-600">
                           RAG: {log.ragResponseTime}ms
@@ -262,6 +483,54 @@ export default function ApiLogs() {
                 {isExpanded && (
                   <CardContent className="border-t">
                     <div className="space-y-6">
+                      {/* Request Trace - one row per pipeline stage */}
+                      {log.trace && log.trace.stages.length > 0 && (
+                        <div>
+                          <h4 className="font-semibold flex items-center gap-2 mb-3">
+                            <Activity className="h-4 w-4" />
+                            Request Trace ({log.trace.totalMs}ms)
+                          </h4>
+                          <div className="bg-gray-50 p-4 rounded-md space-y-3">
+                            {log.trace.stages.map((stage, idx) => {
+                              const totalMs = Math.max(log.trace!.totalMs, 1);
+                              const left = Math.min(100, (stage.startOffsetMs / totalMs) * 100);
+                              const width = Math.max(1, Math.min(100 - left, (stage.durationMs / totalMs) * 100));
+                              return (
+                                <div key={`${stage.name}-${idx}`} className="text-sm">
+                                  <div className="flex items-center gap-3">
+                                    <span className="w-28 font-medium text-gray-700">{stage.name}</span>
+                                    <div className="flex-1 relative h-2 bg-gray-200 rounded">
+                                      <div
+                                        className={`absolute h-2 rounded ${TRACE_STATUS_COLORS[stage.status]}`}
+                                        style={{ left: `${left}%`, width: `${width}%` }}
+                                      />
+                                    </div>
+                                    <span className="w-20 text-right text-gray-500">{stage.durationMs}ms</span>
+                                    <span className={`w-16 text-xs ${stage.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>{stage.status}</span>
+                                  </div>
+                                  {(stage.detail || stage.data) && (
+                                    <div className="ml-[7.75rem] mt-1 text-xs text-gray-600">
+                                      {stage.detail}
+                                      {stage.data && (
+                                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                                          {Object.entries(stage.data)
+                                            .filter(([, value]) => value !== undefined && value !== null)
+                                            .map(([key, value]) => (
+                                              <span key={key}>
+                                                <span className="text-gray-400">{key}:</span> {formatTraceValue(value)}
+                                              </span>
+                                            ))}
+                                        </div>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Full Prompt - What actually gets sent to OpenAI */}
                       <div>
                         <div className="flex items-center gap-2 mb-3">
@@ -485,6 +754,72 @@ export default function ApiLogs() {
           })
         )}
       </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between pt-4 border-t">
+          <div className="text-sm text-gray-500">
+            Showing {startIndex + 1}-{Math.min(startIndex + PAGE_SIZE, total)} of {total}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+            >
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-gray-500">
+              Page {currentPage} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+            >
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Retention */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Log Retention</CardTitle>
+          <CardDescription>
+            Logs are stored in the database and entries older than this are deleted automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Keep logs for (days)</label>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                className="w-32 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="input-log-retention"
+              />
+            </div>
+            <Button
+              onClick={() => updateRetentionMutation.mutate(retentionDays)}
+              disabled={!retentionDays || retentionDays === retentionSetting?.value || updateRetentionMutation.isPending}
+              size="sm"
+              data-testid="button-save-retention"
+            >
+              {updateRetentionMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
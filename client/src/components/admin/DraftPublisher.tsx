@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors the GET /api/drafts response in server/routes.ts
+interface Drafts {
+  mockResponses: Array<{ id: number; question: string; change: 'new' | 'edited'; updatedAt: string }>;
+  systemPrompt: { value: string } | null;
+}
+
+interface DraftSelection {
+  mockResponseIds: number[];
+  systemPrompt: boolean;
+}
+
+const CHANGE_LABELS = {
+  new: 'New',
+  edited: 'Edited',
+};
+
+// Helper function to refresh everything a publish or discard can change
+const invalidateDraftQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/settings', 'system_prompt'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/settings', 'system_prompt_draft'] });
+};
+
+export const DraftPublisher: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [includeSystemPrompt, setIncludeSystemPrompt] = useState(true);
+
+  const { data: drafts } = useQuery<Drafts>({
+    queryKey: ['/api/drafts'],
+    queryFn: () => apiRequest('/api/drafts'),
+  });
+
+  // Select every pending change whenever the list changes
+  useEffect(() => {
+    if (drafts) {
+      setSelectedIds(new Set(drafts.mockResponses.map(draft => draft.id)));
+      setIncludeSystemPrompt(true);
+    }
+  }, [drafts]);
+
+  const selection: DraftSelection = {
+    mockResponseIds: Array.from(selectedIds),
+    systemPrompt: !!drafts?.systemPrompt && includeSystemPrompt,
+  };
+  const selectedCount = selection.mockResponseIds.length + (selection.systemPrompt ? 1 : 0);
+
+  const publishMutation = useMutation({
+    mutationFn: (body: DraftSelection): Promise<{ mockResponses: number; systemPrompt: boolean }> =>
+      apiRequest('/api/drafts/publish', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+    onSuccess: (result) => {
+      invalidateDraftQueries(queryClient);
+      toast({
+        title: "Published",
+        description: [
+          result.mockResponses > 0 && `${result.mockResponses} mock response${result.mockResponses === 1 ? '' : 's'}`,
+          result.systemPrompt && 'the system prompt',
+        ].filter(Boolean).join(' and ') + ' now live',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to publish changes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (body: DraftSelection) =>
+      apiRequest('/api/drafts/discard', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+    onSuccess: () => {
+      invalidateDraftQueries(queryClient);
+      toast({
+        title: "Success",
+        description: "Drafts discarded",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to discard drafts",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDiscard = () => {
+    if (confirm(`Discard ${selectedCount} selected change${selectedCount === 1 ? '' : 's'}? New responses that were never published will be deleted.`)) {
+      discardMutation.mutate(selection);
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  if (!drafts || (drafts.mockResponses.length === 0 && !drafts.systemPrompt)) {
+    return null;
+  }
+
+  const isBusy = publishMutation.isPending || discardMutation.isPending;
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle>Unpublished Changes</CardTitle>
+        <CardDescription>
+          Users keep seeing the published content until these changes are published. Turn on draft preview in the chat
+          header to try them first. Publishing applies every selected change at once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+          {drafts.systemPrompt && (
+            <label className="flex items-center gap-3 p-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeSystemPrompt}
+                onChange={(e) => setIncludeSystemPrompt(e.target.checked)}
+              />
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Edited</span>
+              <span className="font-medium text-gray-900">System prompt</span>
+            </label>
+          )}
+          {drafts.mockResponses.map(draft => (
+            <label key={draft.id} className="flex items-center gap-3 p-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedIds.has(draft.id)}
+                onChange={() => toggleSelected(draft.id)}
+              />
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  draft.change === 'new' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                }`}
+              >
+                {CHANGE_LABELS[draft.change]}
+              </span>
+              <span className="text-gray-900">{draft.question}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleDiscard}
+            disabled={selectedCount === 0 || isBusy}
+            data-testid="button-discard-drafts"
+          >
+            {discardMutation.isPending ? 'Discarding...' : 'Discard Selected'}
+          </Button>
+          <Button
+            onClick={() => publishMutation.mutate(selection)}
+            disabled={selectedCount === 0 || isBusy}
+            data-testid="button-publish-drafts"
+          >
+            {publishMutation.isPending ? 'Publishing...' : `Publish ${selectedCount} change${selectedCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+
+type FollowUpIssueType = 'dangling-link' | 'cycle' | 'unreachable';
+
+// Mirrors FollowUpIssue in server/followUpGraph.ts
+interface FollowUpIssue {
+  type: FollowUpIssueType;
+  severity: 'error' | 'warning';
+  mockResponseId: number;
+  message: string;
+  chip?: string;
+  cycle?: number[];
+}
+
+interface FollowUpIssuesProps {
+  onViewTree: (mockResponseId: number) => void;
+}
+
+const ISSUE_LABELS: Record<FollowUpIssueType, string> = {
+  'dangling-link': 'Broken link',
+  cycle: 'Loop',
+  unreachable: 'Unreachable',
+};
+
+const SEVERITY_STYLES = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+};
+
+export const FollowUpIssues: React.FC<FollowUpIssuesProps> = ({ onViewTree }) => {
+  const [showUnreachable, setShowUnreachable] = useState(false);
+
+  const { data } = useQuery<{ issues: FollowUpIssue[] }>({
+    queryKey: ['/api/mock-responses', 'follow-up-issues'],
+    queryFn: () => apiRequest('/api/mock-responses/follow-up-issues'),
+  });
+
+  const issues = data?.issues || [];
+  const unreachableCount = issues.filter(issue => issue.type === 'unreachable').length;
+  const visibleIssues = issues.filter(issue => showUnreachable || issue.type !== 'unreachable');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Follow-up Links</CardTitle>
+        <CardDescription>
+          Checks linked follow-up chips, including unpublished drafts. Broken links fall back to the chip's custom
+          text in chat. Responses that no intro question, try-asking prompt or follow-up leads to are unreachable.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className={issues.length === unreachableCount ? 'text-green-700' : 'text-gray-700'}>
+            {issues.length === unreachableCount
+              ? 'No broken links or loops.'
+              : `${issues.length - unreachableCount} problem${issues.length - unreachableCount === 1 ? '' : 's'} with linked follow-ups.`}
+          </span>
+          {unreachableCount > 0 && (
+            <label className="flex items-center gap-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={showUnreachable}
+                onChange={(e) => setShowUnreachable(e.target.checked)}
+              />
+              Show {unreachableCount} unreachable
+            </label>
+          )}
+        </div>
+
+        {visibleIssues.length > 0 && (
+          <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+            {visibleIssues.map((issue, index) => (
+              <div key={`${issue.type}-${issue.mockResponseId}-${index}`} className="flex items-center gap-3 p-3 text-sm">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${SEVERITY_STYLES[issue.severity]}`}>
+                  {ISSUE_LABELS[issue.type]}
+                </span>
+                <span className="flex-1 text-gray-700">{issue.message}</span>
+                <Button size="sm" variant="outline" onClick={() => onViewTree(issue.mockResponseId)}>
+                  View graph
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
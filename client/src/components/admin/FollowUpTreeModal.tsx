@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CornerDownRight, RotateCcw, AlertTriangle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Modal } from '../ui/Modal';
+
+// Mirrors FollowUpTreeNode in server/followUpGraph.ts
+export interface FollowUpTreeNode {
+  id: number | null;
+  question: string;
+  chip?: string;
+  status?: string;
+  missing?: boolean;
+  repeated?: boolean;
+  truncated?: boolean;
+  children: FollowUpTreeNode[];
+}
+
+interface FollowUpTreeModalProps {
+  rootId: number | null;
+  onClose: () => void;
+}
+
+interface TreeBranchProps {
+  node: FollowUpTreeNode;
+  onSelect: (id: number) => void;
+}
+
+const TreeBranch: React.FC<TreeBranchProps> = ({ node, onSelect }) => (
+  <li className="relative">
+    <div className="flex items-center gap-2 py-1 text-sm">
+      {node.chip && (
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <CornerDownRight className="w-3 h-3" />
+          <span className="px-2 py-0.5 rounded-full border border-gray-300 bg-white">{node.chip}</span>
+        </span>
+      )}
+      {node.missing ? (
+        <span className="flex items-center gap-1 text-red-600">
+          <AlertTriangle className="w-4 h-4" />
+          {node.id ? `Missing response #${node.id}` : 'No response selected'}
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={() => node.id !== null && onSelect(node.id)}
+          className={`text-left hover:text-blue-600 hover:underline ${node.repeated ? 'text-gray-500' : 'text-gray-900 font-medium'}`}
+          title="Show the tree from this response"
+        >
+          {node.question}
+        </button>
+      )}
+      {node.status === 'draft' && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Not published</span>
+      )}
+      {node.repeated && (
+        <span className="flex items-center gap-1 text-xs text-amber-700" title="This response is already shown above, so the follow-ups loop">
+          <RotateCcw className="w-3 h-3" />
+          loops back
+        </span>
+      )}
+      {node.truncated && <span className="text-xs text-gray-400">more follow-ups below...</span>}
+    </div>
+    {node.children.length > 0 && (
+      <ul className="ml-4 pl-4 border-l border-gray-200">
+        {node.children.map((child, index) => (
+          <TreeBranch key={`${child.id}-${index}`} node={child} onSelect={onSelect} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+export const FollowUpTreeModal: React.FC<FollowUpTreeModalProps> = ({ rootId, onClose }) => {
+  // Clicking a response in the tree re-roots the view there
+  const [currentRootId, setCurrentRootId] = useState<number | null>(rootId);
+
+  useEffect(() => {
+    setCurrentRootId(rootId);
+  }, [rootId]);
+
+  const { data: tree, isLoading, error } = useQuery<FollowUpTreeNode>({
+    queryKey: ['/api/mock-responses', currentRootId, 'follow-up-tree'],
+    queryFn: () => apiRequest(`/api/mock-responses/${currentRootId}/follow-up-tree`),
+    enabled: currentRootId !== null,
+  });
+
+  return (
+    <Modal isOpen={rootId !== null} onClose={onClose} title="Follow-up Graph" className="max-w-3xl">
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading follow-ups...</div>
+      ) : error || !tree ? (
+        <div className="text-center py-8 text-red-500">{(error as Error)?.message || 'Failed to load follow-ups'}</div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Linked follow-up chips from this response, including unpublished drafts. Chips with custom text are not shown.
+          </p>
+          {currentRootId !== rootId && (
+            <button
+              type="button"
+              onClick={() => setCurrentRootId(rootId)}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              Back to the starting response
+            </button>
+          )}
+          <ul>
+            <TreeBranch node={tree} onSelect={setCurrentRootId} />
+          </ul>
+          {tree.children.length === 0 && (
+            <p className="text-sm text-gray-500">This response has no linked follow-ups.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
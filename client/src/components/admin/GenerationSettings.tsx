@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+// Keep in sync with LLM_PROVIDERS in server/llmProvider.ts
+const PROVIDERS: Record<string, string> = {
+  openai: 'OpenAI',
+  fake: 'Local stub (offline, deterministic)',
+};
+
+// Keep in sync with SUPPORTED_MODELS in server/tokenUsage.ts
+const MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+
+const MAX_COMPLETION_TOKENS = 4096;
+
+interface Setting {
+  key: string;
+  value: string;
+}
+
+// Helper function to check the form before saving, mirroring the server's validation
+const validate = (provider: string, model: string, maxTokens: string, temperature: string): string | null => {
+  if (!(provider in PROVIDERS)) {
+    return 'Please choose a supported provider.';
+  }
+  if (!MODELS.includes(model)) {
+    return 'Please choose a supported model.';
+  }
+  const maxTokensValue = Number(maxTokens);
+  if (!Number.isInteger(maxTokensValue) || maxTokensValue < 1 || maxTokensValue > MAX_COMPLETION_TOKENS) {
+    return `Max tokens must be a whole number between 1 and ${MAX_COMPLETION_TOKENS}.`;
+  }
+  const temperatureValue = Number(temperature);
+  if (temperature.trim() === '' || isNaN(temperatureValue) || temperatureValue < 0 || temperatureValue > 2) {
+    return 'Temperature must be a number between 0 and 2.';
+  }
+  return null;
+};
+
+export const GenerationSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [provider, setProvider] = useState('openai');
+  const [model, setModel] = useState('gpt-4o');
+  const [maxTokens, setMaxTokens] = useState('1000');
+  const [temperature, setTemperature] = useState('0.7');
+
+  const { data: providerSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'llm_provider'],
+    queryFn: () => apiRequest('/api/settings/llm_provider'),
+  });
+  const { data: modelSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'openai_model'],
+    queryFn: () => apiRequest('/api/settings/openai_model'),
+  });
+  const { data: maxTokensSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'openai_max_tokens'],
+    queryFn: () => apiRequest('/api/settings/openai_max_tokens'),
+  });
+  const { data: temperatureSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'openai_temperature'],
+    queryFn: () => apiRequest('/api/settings/openai_temperature'),
+  });
+
+  useEffect(() => {
+    if (providerSetting?.value) setProvider(providerSetting.value);
+  }, [providerSetting]);
+
+  useEffect(() => {
+    if (modelSetting?.value) setModel(modelSetting.value);
+  }, [modelSetting]);
+
+  useEffect(() => {
+    if (maxTokensSetting?.value) setMaxTokens(maxTokensSetting.value);
+  }, [maxTokensSetting]);
+
+  useEffect(() => {
+    if (temperatureSetting?.value) setTemperature(temperatureSetting.value);
+  }, [temperatureSetting]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const updates = [
+        ['llm_provider', provider],
+        ['openai_model', model],
+        ['openai_max_tokens', maxTokens.trim()],
+        ['openai_temperature', temperature.trim()],
+      ];
+      for (const [key, value] of updates) {
+        await apiRequest(`/api/settings/${key}`, {
+          method: 'PUT',
+          body: JSON.stringify({ value }),
+        });
+      }
+    },
+    onSuccess: () => {
+      for (const key of ['llm_provider', 'openai_model', 'openai_max_tokens', 'openai_temperature']) {
+        queryClient.invalidateQueries({ queryKey: ['/api/settings', key] });
+      }
+      toast({
+        title: "Success",
+        description: "Model settings updated. They apply from the next request.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update model settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const validationError = validate(provider, model, maxTokens, temperature);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Model & Generation</CardTitle>
+        <CardDescription>
+          The provider, model and parameters used to generate answers. Changes take effect on the next request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="llm-provider" className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+            <select
+              id="llm-provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="select-llm-provider"
+            >
+              {Object.entries(PROVIDERS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="openai-model" className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+            <select
+              id="openai-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="select-openai-model"
+            >
+              {MODELS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="openai-max-tokens" className="block text-sm font-medium text-gray-700 mb-1">Max tokens</label>
+            <input
+              id="openai-max-tokens"
+              type="number"
+              min={1}
+              max={MAX_COMPLETION_TOKENS}
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="input-openai-max-tokens"
+            />
+          </div>
+          <div>
+            <label htmlFor="openai-temperature" className="block text-sm font-medium text-gray-700 mb-1">Temperature</label>
+            <input
+              id="openai-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="input-openai-temperature"
+            />
+          </div>
+        </div>
+        {provider === 'fake' && (
+          <p className="text-sm text-amber-600">
+            The local stub never calls OpenAI. Answers echo the question and are only useful for development and testing.
+          </p>
+        )}
+        {validationError && (
+          <p className="text-sm text-red-500">{validationError}</p>
+        )}
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!!validationError || saveMutation.isPending}
+            data-testid="button-save-generation-settings"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Model Settings'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
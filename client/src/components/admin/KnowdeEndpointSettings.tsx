@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Server } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Input } from '../ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors the GET /api/rag/config response in server/routes.ts
+interface KnowdeConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  authHeader: string;
+  hasAuthToken: boolean;
+  hasCompanyUuid: boolean;
+  usingFakeKnowde: boolean;
+  configured: boolean;
+  defaults: { baseUrl: string; timeoutMs: number };
+  fakeKnowdeUrl: string | null;
+}
+
+interface KnowdeSettings {
+  baseUrl: string; // Empty falls back to the environment default
+  timeoutMs: string;
+}
+
+const STATUS_STYLES = {
+  ok: 'bg-green-100 text-green-800',
+  missing: 'bg-red-100 text-red-800',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+export const KnowdeEndpointSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [baseUrl, setBaseUrl] = useState('');
+  const [timeoutMs, setTimeoutMs] = useState('');
+
+  const { data: config } = useQuery<KnowdeConfig>({
+    queryKey: ['/api/rag/config'],
+    queryFn: () => apiRequest('/api/rag/config'),
+  });
+
+  useEffect(() => {
+    if (config) {
+      setBaseUrl(config.baseUrl);
+      setTimeoutMs(String(config.timeoutMs));
+    }
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: KnowdeSettings) => {
+      // Sequential so a rejected URL leaves the timeout untouched
+      await apiRequest('/api/settings/knowde_base_url', {
+        method: 'PUT',
+        body: JSON.stringify({ value: settings.baseUrl }),
+      });
+      await apiRequest('/api/settings/knowde_timeout_ms', {
+        method: 'PUT',
+        body: JSON.stringify({ value: settings.timeoutMs }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rag/config'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rag/test'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rag/cache/stats'] });
+      toast({
+        title: "Success",
+        description: "Knowde endpoint updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update Knowde endpoint",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!config) {
+    return null;
+  }
+
+  // Values equal to the environment defaults are saved empty, so later environment changes still apply
+  const handleSave = () => {
+    saveMutation.mutate({
+      baseUrl: baseUrl.trim() === config.defaults.baseUrl ? '' : baseUrl.trim(),
+      timeoutMs: timeoutMs.trim() === String(config.defaults.timeoutMs) ? '' : timeoutMs.trim(),
+    });
+  };
+
+  const isBusy = saveMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          Knowde Endpoint
+        </CardTitle>
+        <CardDescription>
+          Where RAG searches are sent. The auth token, company UUID and auth header come from the KNOWDE_* environment
+          variables. The local stand-in answers from the fixtures in server/fixtures/knowde without any network access.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-xs font-medium">
+          <span className={`px-2 py-1 rounded ${STATUS_STYLES.info}`}>
+            {config.usingFakeKnowde ? 'Local stand-in' : 'Knowde API'}
+          </span>
+          <span className={`px-2 py-1 rounded ${config.hasAuthToken ? STATUS_STYLES.ok : STATUS_STYLES.missing}`}>
+            {config.hasAuthToken ? `Auth token set (${config.authHeader})` : 'No auth token'}
+          </span>
+          <span className={`px-2 py-1 rounded ${config.hasCompanyUuid ? STATUS_STYLES.ok : STATUS_STYLES.missing}`}>
+            {config.hasCompanyUuid ? 'Company UUID set' : 'No company UUID'}
+          </span>
+          <span className={`px-2 py-1 rounded ${STATUS_STYLES.info}`}>
+            {config.maxRetries} {config.maxRetries === 1 ? 'retry' : 'retries'} (KNOWDE_MAX_RETRIES)
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="md:col-span-3">
+            <Input
+              label="Endpoint URL"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder={config.defaults.baseUrl}
+            />
+          </div>
+          <div>
+            <Input
+              label="Timeout (ms)"
+              type="number"
+              min={1000}
+              step={1000}
+              value={timeoutMs}
+              onChange={(e) => setTimeoutMs(e.target.value)}
+              placeholder={String(config.defaults.timeoutMs)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {config.fakeKnowdeUrl && !config.usingFakeKnowde && (
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate({ baseUrl: config.fakeKnowdeUrl!, timeoutMs: '' })}
+              disabled={isBusy}
+            >
+              Use Local Stand-in
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate({ baseUrl: '', timeoutMs: '' })}
+            disabled={isBusy}
+          >
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={isBusy || !baseUrl.trim()}>
+            {isBusy ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FileCheck, Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+
+// Mirrors GoldenCaseResult in server/knowdeGolden.ts
+interface GoldenCaseResult {
+  name: string;
+  description?: string;
+  passed: boolean;
+  mismatches: {
+    product: number | null;
+    field: string;
+    expected: unknown;
+    actual: unknown;
+    details?: string[];
+  }[];
+  error?: string;
+}
+
+export const KnowdeExtractionCheck: React.FC = () => {
+  const { data, isFetching, refetch } = useQuery<{ cases: GoldenCaseResult[] }>({
+    queryKey: ['/api/rag/extraction-check'],
+    queryFn: () => apiRequest('/api/rag/extraction-check'),
+    refetchOnWindowFocus: false,
+  });
+
+  const cases = data?.cases || [];
+  const failedCount = cases.filter(goldenCase => !goldenCase.passed).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCheck className="h-5 w-5" />
+          Extraction Check
+        </CardTitle>
+        <CardDescription>
+          Runs the anonymized Knowde payloads in server/fixtures/knowde-golden through the response model and field
+          extractors, and compares the result with the product fields each file expects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className={failedCount === 0 ? 'text-green-700' : 'text-red-700'}>
+            {cases.length === 0
+              ? 'No golden payloads found.'
+              : failedCount === 0
+                ? `All ${cases.length} golden payloads extract as expected.`
+                : `${failedCount} of ${cases.length} golden payloads no longer extract as expected.`}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => refetch()} disabled={isFetching} className="flex items-center gap-2">
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin" />}
+            Run again
+          </Button>
+        </div>
+
+        {failedCount > 0 && (
+          <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+            {cases.filter(goldenCase => !goldenCase.passed).map(goldenCase => (
+              <div key={goldenCase.name} className="p-3 text-sm space-y-1">
+                <div className="font-medium text-gray-900">{goldenCase.name}</div>
+                {goldenCase.description && <div className="text-xs text-gray-500">{goldenCase.description}</div>}
+                {goldenCase.error && <div className="text-xs text-red-600">Could not read the file: {goldenCase.error}</div>}
+                {goldenCase.mismatches.map((mismatch, index) => (
+                  <div key={index} className="text-xs text-gray-700">
+                    <span className="font-medium">
+                      {mismatch.product !== null ? `Product ${mismatch.product} · ` : ''}{mismatch.field}:
+                    </span>{' '}
+                    expected <code className="bg-gray-100 px-1 rounded">{JSON.stringify(mismatch.expected)}</code>, got{' '}
+                    <code className="bg-red-50 px-1 rounded">{JSON.stringify(mismatch.actual ?? null)}</code>
+                    {mismatch.details?.map((detail, detailIndex) => (
+                      <div key={detailIndex} className="pl-3 text-gray-500">{detail}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Input } from '../ui/Input';
+import { Textarea } from '../ui/textarea';
+import { Switch } from '../ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+import type { MockResponse } from '@shared/schema';
+
+interface Setting {
+  key: string;
+  value: string;
+}
+
+interface MatchCandidate {
+  mockResponse: MockResponse;
+  matchedQuestion: string;
+  score: number;
+  method: 'exact' | 'fuzzy' | 'vector';
+  threshold: number;
+  matched: boolean;
+}
+
+interface MatchPreview {
+  question: string;
+  normalizedQuestion: string;
+  match: MatchCandidate | null;
+  candidates: MatchCandidate[];
+}
+
+const METHOD_LABELS: Record<MatchCandidate['method'], string> = {
+  exact: 'Exact',
+  fuzzy: 'Fuzzy',
+  vector: 'Vector',
+};
+
+export const MockMatchPreview: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [testQuestion, setTestQuestion] = useState('');
+  const [threshold, setThreshold] = useState('0.85');
+  const [useVectors, setUseVectors] = useState(false);
+  const [synonyms, setSynonyms] = useState('');
+
+  const { data: thresholdSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'mock_match_threshold'],
+    queryFn: () => apiRequest('/api/settings/mock_match_threshold'),
+  });
+  const { data: useVectorsSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'mock_match_use_vectors'],
+    queryFn: () => apiRequest('/api/settings/mock_match_use_vectors'),
+  });
+  const { data: synonymsSetting } = useQuery<Setting>({
+    queryKey: ['/api/settings', 'mock_match_synonyms'],
+    queryFn: () => apiRequest('/api/settings/mock_match_synonyms'),
+  });
+
+  useEffect(() => {
+    if (thresholdSetting?.value) setThreshold(thresholdSetting.value);
+  }, [thresholdSetting]);
+
+  useEffect(() => {
+    if (useVectorsSetting) setUseVectors(useVectorsSetting.value === 'true');
+  }, [useVectorsSetting]);
+
+  useEffect(() => {
+    if (synonymsSetting) setSynonyms(synonymsSetting.value);
+  }, [synonymsSetting]);
+
+  const previewMutation = useMutation({
+    mutationFn: (question: string): Promise<MatchPreview> =>
+      apiRequest('/api/mock-responses/match-preview', {
+        method: 'POST',
+        body: JSON.stringify({ question }),
+      }),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to preview match",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const updates = [
+        ['mock_match_threshold', threshold.trim()],
+        ['mock_match_use_vectors', useVectors ? 'true' : 'false'],
+        ['mock_match_synonyms', synonyms],
+      ];
+      for (const [key, value] of updates) {
+        await apiRequest(`/api/settings/${key}`, {
+          method: 'PUT',
+          body: JSON.stringify({ value }),
+        });
+      }
+    },
+    onSuccess: () => {
+      for (const key of ['mock_match_threshold', 'mock_match_use_vectors', 'mock_match_synonyms']) {
+        queryClient.invalidateQueries({ queryKey: ['/api/settings', key] });
+      }
+      toast({
+        title: "Success",
+        description: "Matching settings updated",
+      });
+      // Re-run the preview so it reflects the new settings
+      if (previewMutation.data) {
+        previewMutation.mutate(previewMutation.data.question);
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update matching settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const thresholdValue = Number(threshold);
+  const thresholdError = threshold.trim() === '' || isNaN(thresholdValue) || thresholdValue < 0 || thresholdValue > 1
+    ? 'Threshold must be a number between 0 and 1.'
+    : null;
+
+  const handlePreview = () => {
+    const question = testQuestion.trim();
+    if (question) {
+      previewMutation.mutate(question);
+    }
+  };
+
+  const preview = previewMutation.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Question Matching</CardTitle>
+        <CardDescription>
+          How user questions are matched to curated answers. Questions are compared after normalizing punctuation,
+          contractions and synonyms; a response's own threshold overrides the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="mock-match-threshold" className="block text-sm font-medium text-gray-700 mb-1">
+                Default threshold
+              </label>
+              <input
+                id="mock-match-threshold"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="input-mock-match-threshold"
+              />
+              <p className="text-xs text-gray-500 mt-1">1 requires the same question; lower values allow looser rephrasings.</p>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Vector similarity</label>
+                <p className="text-xs text-gray-500">Also compare local word and character n-gram vectors. Catches reordered phrasings.</p>
+              </div>
+              <Switch checked={useVectors} onCheckedChange={setUseVectors} data-testid="switch-mock-match-vectors" />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="mock-match-synonyms" className="block text-sm font-medium text-gray-700 mb-1">
+              Synonyms
+            </label>
+            <Textarea
+              id="mock-match-synonyms"
+              value={synonyms}
+              onChange={(e) => setSynonyms(e.target.value)}
+              rows={6}
+              className="font-mono text-sm"
+              data-testid="textarea-mock-match-synonyms"
+            />
+            <p className="text-xs text-gray-500 mt-1">One group per line, single words separated by commas.</p>
+          </div>
+        </div>
+        {thresholdError && <p className="text-sm text-red-500">{thresholdError}</p>}
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!!thresholdError || saveMutation.isPending}
+            data-testid="button-save-match-settings"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Matching Settings'}
+          </Button>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Preview a question</label>
+          <div className="flex gap-2">
+            <Input
+              value={testQuestion}
+              onChange={(e) => setTestQuestion(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handlePreview()}
+              placeholder="Type a question to see which curated answer it would hit..."
+              className="flex-1"
+              data-testid="input-match-preview-question"
+            />
+            <Button
+              onClick={handlePreview}
+              disabled={!testQuestion.trim() || previewMutation.isPending}
+              variant="outline"
+              data-testid="button-match-preview"
+            >
+              {previewMutation.isPending ? 'Checking...' : 'Preview'}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className={`p-3 rounded-md text-sm ${preview.match ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-700'}`}>
+                {preview.match ? (
+                  <>
+                    Would answer with <strong>{preview.match.mockResponse.question}</strong>
+                    {preview.match.matchedQuestion !== preview.match.mockResponse.question && (
+                      <> via phrasing "{preview.match.matchedQuestion}"</>
+                    )}
+                    {' '}(
+                    {METHOD_LABELS[preview.match.method]} match, score {preview.match.score.toFixed(2)}
+                    {' '}≥ threshold {preview.match.threshold.toFixed(2)})
+                  </>
+                ) : (
+                  'No curated answer clears its threshold. This question would go to RAG and the LLM.'
+                )}
+                <div className="text-xs text-gray-500 mt-1">Normalized: "{preview.normalizedQuestion}"</div>
+              </div>
+
+              {preview.candidates.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Curated question</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Method</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Threshold</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.candidates.map(candidate => (
+                      <tr key={candidate.mockResponse.id} className={candidate.matched ? 'bg-green-50' : ''}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {candidate.mockResponse.question}
+                          {candidate.matchedQuestion !== candidate.mockResponse.question && (
+                            <div className="text-xs text-gray-500">via "{candidate.matchedQuestion}"</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-600">{METHOD_LABELS[candidate.method]}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900 text-right">{candidate.score.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600 text-right">
+                          {candidate.threshold.toFixed(2)}
+                          {candidate.mockResponse.matchThreshold !== null && ' (custom)'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Download, Upload } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+type TransferFormat = 'json' | 'csv';
+type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+// Mirrors ImportPlan in server/mockResponseTransfer.ts
+interface ImportPlan {
+  format: TransferFormat;
+  summary: Record<ImportAction, number>;
+  rows: Array<{
+    row: number;
+    question: string;
+    action: ImportAction;
+    existingId?: number;
+    changes: Array<{ field: string; before: unknown; after: unknown }>;
+    errors: Array<{ field?: string; message: string }>;
+  }>;
+}
+
+interface ImportFile {
+  name: string;
+  format: TransferFormat;
+  content: string;
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+// Helper function to show a changed value compactly, without HTML markup
+const formatChangeValue = (value: unknown): string => {
+  const text = typeof value === 'string' ? value.replace(/<[^>]*>/g, '') : JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 120)}...` : text;
+};
+
+export const MockResponseTransfer: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const previewMutation = useMutation({
+    mutationFn: (file: ImportFile): Promise<{ plan: ImportPlan }> =>
+      apiRequest('/api/mock-responses/import', {
+        method: 'POST',
+        body: JSON.stringify({ format: file.format, content: file.content, dryRun: true }),
+      }),
+    onSuccess: (data) => setPlan(data.plan),
+    onError: (error: any) => {
+      setPlan(null);
+      toast({
+        title: "Import Failed",
+        description: error?.message || "Failed to read the import file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: ImportFile): Promise<{ plan: ImportPlan; created: number; updated: number }> =>
+      apiRequest('/api/mock-responses/import', {
+        method: 'POST',
+        body: JSON.stringify({ format: file.format, content: file.content, dryRun: false }),
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mock-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+      setImportFile(null);
+      setPlan(null);
+      toast({
+        title: "Success",
+        description: `Imported as drafts: ${data.created} created, ${data.updated} updated. Publish them to use them in chat.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error?.message || "Failed to import mock responses",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again after editing it
+    if (!file) return;
+
+    const format: TransferFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    const selected = { name: file.name, format, content: await file.text() };
+    setImportFile(selected);
+    previewMutation.mutate(selected);
+  };
+
+  const handleCancel = () => {
+    setImportFile(null);
+    setPlan(null);
+  };
+
+  const visibleRows = plan?.rows.filter(row => showUnchanged || row.action !== 'unchanged') || [];
+  const pendingChanges = plan ? plan.summary.create + plan.summary.update : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import & Export</CardTitle>
+        <CardDescription>
+          Download all mock responses as JSON or CSV, or upload a file to create and update them in bulk.
+          Rows are matched to existing responses by question, and linked follow-ups refer to other responses by question.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/mock-responses/export?format=json" download>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/mock-responses/export?format=csv" download>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={previewMutation.isPending || importMutation.isPending}
+            data-testid="button-import-mock-responses"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {previewMutation.isPending ? 'Checking...' : 'Import File'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {importFile && plan && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-sm">
+                <span className="font-medium">{importFile.name}</span>
+                <span className="text-gray-500">
+                  {' '}· {plan.summary.create} to create · {plan.summary.update} to update · {plan.summary.unchanged} unchanged
+                </span>
+                {plan.summary.invalid > 0 && (
+                  <span className="text-red-600"> · {plan.summary.invalid} invalid</span>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                />
+                Show unchanged
+              </label>
+            </div>
+
+            {visibleRows.length > 0 && (
+              <div className="max-h-96 overflow-y-auto border rounded-md divide-y">
+                {visibleRows.map(row => (
+                  <div key={row.row} className="p-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-400 w-14">Row {row.row}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[row.action]}`}>
+                        {row.action}
+                      </span>
+                      <span className="font-medium text-gray-900">{row.question || '(no question)'}</span>
+                    </div>
+                    {row.errors.length > 0 && (
+                      <ul className="mt-2 ml-16 space-y-1 text-xs text-red-600">
+                        {row.errors.map((error, idx) => (
+                          <li key={idx}>
+                            {error.field && <span className="font-mono">{error.field}: </span>}
+                            {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {row.changes.length > 0 && (
+                      <ul className="mt-2 ml-16 space-y-1 text-xs">
+                        {row.changes.map(change => (
+                          <li key={change.field}>
+                            <span className="font-mono text-gray-500">{change.field}: </span>
+                            <span className="text-red-600 line-through">{formatChangeValue(change.before)}</span>
+                            {' → '}
+                            <span className="text-green-700">{formatChangeValue(change.after)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleCancel} disabled={importMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(importFile)}
+                disabled={plan.summary.invalid > 0 || pendingChanges === 0 || importMutation.isPending}
+                data-testid="button-apply-import"
+              >
+                {importMutation.isPending ? 'Importing...' : `Apply ${pendingChanges} change${pendingChanges === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+            {plan.summary.invalid > 0 && (
+              <p className="text-sm text-red-500 text-right">Fix the invalid rows in the file and upload it again.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
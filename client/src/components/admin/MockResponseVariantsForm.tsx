@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/button';
+import { X } from 'lucide-react';
+
+interface MockResponseVariantsFormProps {
+  question: string;
+  alternateQuestions: string[];
+  tags: string[];
+  onAlternateQuestionsChange: (alternateQuestions: string[]) => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+export const MockResponseVariantsForm: React.FC<MockResponseVariantsFormProps> = ({
+  question,
+  alternateQuestions,
+  tags,
+  onAlternateQuestionsChange,
+  onTagsChange,
+}) => {
+  const [newAlternateQuestion, setNewAlternateQuestion] = useState('');
+  const [newTags, setNewTags] = useState('');
+
+  const handleAddAlternateQuestion = () => {
+    const trimmed = newAlternateQuestion.trim();
+    if (trimmed && trimmed !== question.trim() && !alternateQuestions.includes(trimmed)) {
+      onAlternateQuestionsChange([...alternateQuestions, trimmed]);
+      setNewAlternateQuestion('');
+    }
+  };
+
+  // Accepts several comma-separated tags at once; tags are stored lowercase
+  const handleAddTags = () => {
+    const added = newTags
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag && !tags.includes(tag));
+    if (added.length > 0) {
+      onTagsChange([...tags, ...Array.from(new Set(added))]);
+    }
+    setNewTags('');
+  };
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Alternate phrasings
+        </label>
+        <p className="text-xs text-gray-500 mb-2">
+          Other ways users ask this question. Each phrasing is matched like the main question.
+        </p>
+        <div className="flex gap-2">
+          <Input
+            value={newAlternateQuestion}
+            onChange={(e) => setNewAlternateQuestion(e.target.value)}
+            placeholder="Enter another phrasing..."
+            className="flex-1"
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddAlternateQuestion();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            onClick={handleAddAlternateQuestion}
+            disabled={!newAlternateQuestion.trim()}
+            size="sm"
+          >
+            Add
+          </Button>
+        </div>
+        {alternateQuestions.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {alternateQuestions.map((phrasing, index) => (
+              <div key={index} className="flex items-center justify-between bg-gray-50 px-3 py-1 rounded text-sm">
+                <span>{phrasing}</span>
+                <button
+                  type="button"
+                  onClick={() => onAlternateQuestionsChange(alternateQuestions.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Tags
+        </label>
+        <div className="flex gap-2">
+          <Input
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            placeholder="e.g. af27, safety"
+            className="flex-1"
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddTags();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            onClick={handleAddTags}
+            disabled={!newTags.trim()}
+            size="sm"
+          >
+            Add
+          </Button>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {tags.map(tag => (
+              <div
+                key={tag}
+                className="flex items-center gap-1 bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs"
+              >
+                <span>{tag}</span>
+                <button
+                  type="button"
+                  onClick={() => onTagsChange(tags.filter(t => t !== tag))}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Modal } from '../ui/Modal';
+
+// Mirrors RagCacheEntryDetail in server/ragCache.ts
+interface RagCacheEntryDetail {
+  key: string;
+  query: string;
+  ageMs: number;
+  expiresInMs: number;
+  hits: number;
+  data: any;
+}
+
+interface RagCacheEntryModalProps {
+  cacheKey: string | null;
+  onClose: () => void;
+}
+
+export const RagCacheEntryModal: React.FC<RagCacheEntryModalProps> = ({ cacheKey, onClose }) => {
+  const { data: entry, isLoading, error } = useQuery<RagCacheEntryDetail>({
+    queryKey: ['/api/rag/cache/entries', cacheKey],
+    queryFn: () => apiRequest(`/api/rag/cache/entries/${encodeURIComponent(cacheKey!)}`),
+    enabled: cacheKey !== null,
+    staleTime: 0,
+  });
+
+  return (
+    <Modal isOpen={cacheKey !== null} onClose={onClose} title="Cached Knowde Response" className="max-w-3xl">
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading cache entry...</div>
+      ) : error || !entry ? (
+        <div className="text-center py-8 text-red-500">{(error as Error)?.message || 'Failed to load cache entry'}</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm">
+            <div className="font-medium text-gray-900">{entry.query}</div>
+            <div className="text-xs text-gray-500">Key: {entry.key}</div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+              {entry.hits} {entry.hits === 1 ? 'hit' : 'hits'}
+            </div>
+            <div className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
+              {entry.data?.result?.length ?? 0} results
+            </div>
+          </div>
+          <pre className="bg-gray-50 border rounded-md p-3 text-xs text-gray-700 max-h-96 overflow-auto whitespace-pre-wrap break-words">
+            {JSON.stringify(entry.data, null, 2)}
+          </pre>
+        </div>
+      )}
+    </Modal>
+  );
+};
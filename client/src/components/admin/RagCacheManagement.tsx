@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Database, Loader2, XCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Input } from '../ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { RagCacheEntryModal } from './RagCacheEntryModal';
+
+// Mirrors RagCacheStats in server/ragCache.ts
+interface RagCacheStats {
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  persistent: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  expirations: number;
+  keys: string[];
+  entries: {
+    key: string;
+    query: string;
+    ageMs: number;
+    expiresInMs: number;
+    hits: number;
+  }[];
+}
+
+interface RagCacheSettings {
+  maxEntries: string;
+  ttlMinutes: string;
+  persist: boolean;
+}
+
+const MAX_LISTED_ENTRIES = 20;
+
+// Helper function to show a duration as its largest whole unit, e.g. "45s", "12m", "3h"
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export const RagCacheManagement: React.FC = () => {
+  const { toast } = useToast();
+
+  const [maxEntries, setMaxEntries] = useState('');
+  const [ttlMinutes, setTtlMinutes] = useState('');
+  const [persist, setPersist] = useState(false);
+  const [viewingKey, setViewingKey] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const { data, refetch } = useQuery<{ success: boolean; stats: RagCacheStats }>({
+    queryKey: ['/api/rag/cache/stats'],
+    queryFn: () => apiRequest('/api/rag/cache/stats'),
+    refetchInterval: 5000, // Refresh every 5 seconds
+  });
+  const stats = data?.stats;
+  const filteredEntries = (stats?.entries || []).filter(entry =>
+    entry.query.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  // Only seed the form from the first load, so polling does not overwrite unsaved edits
+  const [isSeeded, setIsSeeded] = useState(false);
+  useEffect(() => {
+    if (stats && !isSeeded) {
+      setMaxEntries(String(stats.maxEntries));
+      setTtlMinutes(String(stats.ttlMs / 60000));
+      setPersist(stats.persistent);
+      setIsSeeded(true);
+    }
+  }, [stats, isSeeded]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: RagCacheSettings) => {
+      // Sequential so the first rejected value stops the rest
+      await apiRequest('/api/settings/rag_cache_max_entries', {
+        method: 'PUT',
+        body: JSON.stringify({ value: settings.maxEntries }),
+      });
+      await apiRequest('/api/settings/rag_cache_ttl_minutes', {
+        method: 'PUT',
+        body: JSON.stringify({ value: settings.ttlMinutes }),
+      });
+      await apiRequest('/api/settings/rag_cache_persist', {
+        method: 'PUT',
+        body: JSON.stringify({ value: String(settings.persist) }),
+      });
+    },
+    onSuccess: () => {
+      // Settings are applied in the background, so give the server a moment before re-reading
+      setTimeout(() => refetch(), 500);
+      toast({
+        title: "Success",
+        description: "RAG cache settings updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update RAG cache settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearCacheMutation = useMutation({
+    mutationFn: () => apiRequest('/api/rag/cache/clear', { method: 'POST' }),
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (key: string) => apiRequest(`/api/rag/cache/entries/${encodeURIComponent(key)}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to delete cache entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({ maxEntries: maxEntries.trim(), ttlMinutes: ttlMinutes.trim(), persist });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Cache Management
+        </CardTitle>
+        <CardDescription>
+          Knowde responses are cached by normalized question, so differences in case, punctuation and contractions
+          share an entry. The least recently used entry is dropped when the cache is full. Persisted entries are
+          reloaded after a restart.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <Input
+            label="Max entries"
+            type="number"
+            min={1}
+            value={maxEntries}
+            onChange={(e) => setMaxEntries(e.target.value)}
+          />
+          <Input
+            label="TTL (minutes)"
+            type="number"
+            min={1}
+            value={ttlMinutes}
+            onChange={(e) => setTtlMinutes(e.target.value)}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={persist}
+              onChange={(e) => setPersist(e.target.checked)}
+            />
+            Persist to Postgres
+          </label>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => clearCacheMutation.mutate()}
+            disabled={clearCacheMutation.isPending}
+            className="flex items-center gap-2"
+          >
+            {clearCacheMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+            Clear Cache
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending || !maxEntries.trim() || !ttlMinutes.trim()}>
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+
+        {stats && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <div className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                {stats.size}/{stats.maxEntries} cached items
+              </div>
+              <div className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
+                {Math.round(stats.hitRate * 100)}% hit rate ({stats.hits} hits, {stats.misses} misses)
+              </div>
+              <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                {stats.evictions} evicted
+              </div>
+              <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                {stats.expirations} expired
+              </div>
+              <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                {stats.persistent ? 'Persisted to Postgres' : 'Memory only'}
+              </div>
+            </div>
+
+            {stats.entries.length > MAX_LISTED_ENTRIES && (
+              <Input
+                placeholder="Filter cached queries"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+              />
+            )}
+
+            {filteredEntries.length > 0 && (
+              <div className="border rounded-md overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 text-left">
+                      <th className="px-3 py-2 font-medium">Query</th>
+                      <th className="px-3 py-2 font-medium">Age</th>
+                      <th className="px-3 py-2 font-medium">Expires in</th>
+                      <th className="px-3 py-2 font-medium">Hits</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {filteredEntries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+                      <tr key={entry.key}>
+                        <td className="px-3 py-2 text-gray-700" title={entry.key}>{entry.query}</td>
+                        <td className="px-3 py-2 text-gray-600">{formatDuration(entry.ageMs)}</td>
+                        <td className="px-3 py-2 text-gray-600">{formatDuration(entry.expiresInMs)}</td>
+                        <td className="px-3 py-2 text-gray-600">{entry.hits}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setViewingKey(entry.key)}>
+                              View
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => deleteEntryMutation.mutate(entry.key)}
+                              disabled={deleteEntryMutation.isPending}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {filteredEntries.length > MAX_LISTED_ENTRIES && (
+                  <div className="px-3 py-2 text-gray-500 text-xs border-t">
+                    ... and {filteredEntries.length - MAX_LISTED_ENTRIES} more
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <RagCacheEntryModal cacheKey={viewingKey} onClose={() => setViewingKey(null)} />
+    </Card>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Flame, Loader2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+type WarmStatus = 'cached' | 'already-cached' | 'failed';
+
+// Mirrors RagWarmResult in server/ragService.ts
+interface RagWarmResult {
+  query: string;
+  key: string;
+  status: WarmStatus;
+  error?: string;
+  responseTime?: number;
+}
+
+interface WarmResponse {
+  results: RagWarmResult[];
+  summary: { cached: number; alreadyCached: number; failed: number };
+}
+
+interface WarmRequest {
+  queries: string[];
+  includeIntroQuestions: boolean;
+  includeMockQuestions: boolean;
+  refresh: boolean;
+}
+
+const STATUS_LABELS: Record<WarmStatus, string> = {
+  cached: 'Cached',
+  'already-cached': 'Already cached',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<WarmStatus, string> = {
+  cached: 'bg-green-100 text-green-800',
+  'already-cached': 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export const RagCacheWarmer: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [queries, setQueries] = useState('');
+  const [includeIntroQuestions, setIncludeIntroQuestions] = useState(true);
+  const [includeMockQuestions, setIncludeMockQuestions] = useState(false);
+  const [refresh, setRefresh] = useState(false);
+
+  const warmMutation = useMutation<WarmResponse, Error, WarmRequest>({
+    mutationFn: (request) => apiRequest('/api/rag/cache/warm', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rag/cache/stats'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to warm cache",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleWarm = () => {
+    warmMutation.mutate({
+      queries: queries.split('\n').map(query => query.trim()).filter(Boolean),
+      includeIntroQuestions,
+      includeMockQuestions,
+      refresh,
+    });
+  };
+
+  const hasQueries = queries.trim() !== '' || includeIntroQuestions || includeMockQuestions;
+  const summary = warmMutation.data?.summary;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Warm Cache
+        </CardTitle>
+        <CardDescription>
+          Search Knowde ahead of time so these questions are answered from the cache. Queries are searched one at a
+          time, so warming many of them can take a while.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          placeholder="Extra queries, one per line"
+          value={queries}
+          onChange={(e) => setQueries(e.target.value)}
+          rows={4}
+        />
+
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeIntroQuestions}
+              onChange={(e) => setIncludeIntroQuestions(e.target.checked)}
+            />
+            Intro questions
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeMockQuestions}
+              onChange={(e) => setIncludeMockQuestions(e.target.checked)}
+            />
+            Published mock questions
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={refresh}
+              onChange={(e) => setRefresh(e.target.checked)}
+            />
+            Refresh entries that are already cached
+          </label>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleWarm}
+            disabled={warmMutation.isPending || !hasQueries}
+            className="flex items-center gap-2"
+          >
+            {warmMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flame className="h-4 w-4" />}
+            {warmMutation.isPending ? 'Warming...' : 'Warm Cache'}
+          </Button>
+        </div>
+
+        {summary && warmMutation.data && (
+          <div className="space-y-2">
+            <div className="text-sm text-gray-700">
+              {summary.cached} cached, {summary.alreadyCached} already cached, {summary.failed} failed.
+            </div>
+            <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+              {warmMutation.data.results.map(result => (
+                <div key={result.key} className="flex items-center gap-3 p-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[result.status]}`}>
+                    {STATUS_LABELS[result.status]}
+                  </span>
+                  <span className="flex-1 text-gray-700">{result.query}</span>
+                  {result.error && <span className="text-xs text-red-600">{result.error}</span>}
+                  {result.responseTime !== undefined && result.status === 'cached' && (
+                    <span className="text-xs text-gray-500">{result.responseTime}ms</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,18 +3,51 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Chip } from '@/components/ui/Chip';
-import { Loader2, CheckCircle, XCircle, Search } from 'lucide-react';
+import { Loader2, CheckCircle, Search, RotateCcw } from 'lucide-react';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { KnowdeEndpointSettings } from './KnowdeEndpointSettings';
+import { RagCacheManagement } from './RagCacheManagement';
+import { RagCacheWarmer } from './RagCacheWarmer';
+import { KnowdeExtractionCheck } from './KnowdeExtractionCheck';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Mirrors CircuitBreakerSnapshot in server/circuitBreaker.ts
+interface CircuitBreakerState {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  totalFailures: number;
+  totalSkipped: number;
+}
 
 interface RagTestResult {
   success: boolean;
   configured: boolean;
   responseTime?: number;
+  attempts?: number;
   hasData?: boolean;
   dataPreview?: string;
   error?: string;
 }
 
+const CIRCUIT_LABELS: Record<CircuitState, string> = {
+  closed: 'Circuit closed',
+  open: 'Circuit open - RAG skipped',
+  'half-open': 'Circuit half-open - next search is a trial',
+};
+
+const CIRCUIT_STYLES: Record<CircuitState, string> = {
+  closed: 'bg-green-100 text-green-800',
+  open: 'bg-red-100 text-red-800',
+  'half-open': 'bg-amber-100 text-amber-800',
+};
+
 interface ProductAttribute {
   name: string;
   value: string;
@@ -30,8 +63,13 @@ interface ProcessedProductData {
   technicalSpecs?: ProductAttribute[];
   applications?: string[];
   features?: string[];
+  confidence?: Record<string, number>; // Per field, 0 when nothing was found
 }
 
+// Helper function to show how far an extracted field is trusted
+const confidenceLabel = (confidence: number | undefined) =>
+  confidence === undefined ? '' : confidence === 0 ? ' (not found)' : ` (${Math.round(confidence * 100)}% confidence)`;
+
 interface RagSearchResult {
   success: boolean;
   data?: any;
@@ -54,28 +92,30 @@ export function RagTest() {
     refetchOnWindowFocus: false,
   });
 
-  // Cache stats query
-  const { data: cacheStats, refetch: refetchCacheStats } = useQuery({
-    queryKey: ['/api/rag/cache/stats'],
-    queryFn: () => fetch('/api/rag/cache/stats').then(res => res.json()),
-    refetchInterval: 5000, // Refresh every 5 seconds
+  // Circuit breaker state, polled so an opening circuit shows up without re-testing
+  const { data: circuitBreaker, refetch: refetchCircuitBreaker } = useQuery<CircuitBreakerState>({
+    queryKey: ['/api/rag/circuit-breaker'],
+    queryFn: () => fetch('/api/rag/circuit-breaker').then(res => res.json()),
+    refetchInterval: 5000,
   });
 
-  // Search mutations
-  const searchMutation = useMutation<RagSearchResult, Error, { message: string }>({
-    mutationFn: async ({ message }) => {
-      const response = await fetch('/api/rag/search', {
+  const resetCircuitBreakerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/rag/circuit-breaker/reset', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message }),
       });
       return response.json();
     },
+    onSuccess: () => {
+      refetchCircuitBreaker();
+    },
   });
 
-  const enhancedSearchMutation = useMutation<RagSearchResult, Error, { message: string }>({
+  // Search mutations
+  const searchMutation = useMutation<RagSearchResult, Error, { message: string }>({
     mutationFn: async ({ message }) => {
-      const response = await fetch('/api/rag/search-enhanced', {
+      const response = await fetch('/api/rag/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message }),
@@ -84,18 +124,15 @@ export function RagTest() {
     },
   });
 
-  // Clear cache mutation
-  const clearCacheMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch('/api/rag/cache/clear', {
+  const enhancedSearchMutation = useMutation<RagSearchResult, Error, { message: string }>({
+    mutationFn: async ({ message }) => {
+      const response = await fetch('/api/rag/search-enhanced', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message }),
       });
       return response.json();
     },
-    onSuccess: () => {
-      refetchCacheStats();
-    },
   });
 
   const handleSearch = () => {
@@ -109,7 +146,7 @@ export function RagTest() {
   };
 
   const handleTestConnection = () => {
-    testConnection();
+    testConnection().then(() => refetchCircuitBreaker());
   };
 
   return (
@@ -121,6 +158,8 @@ export function RagTest() {
         </div>
       </div>
 
+      <KnowdeEndpointSettings />
+
       {/* Connection Test */}
       <Card>
         <CardHeader>
@@ -129,7 +168,9 @@ export function RagTest() {
             Connection Test
           </CardTitle>
           <CardDescription>
-            Verify the RAG service is properly configured and can connect to Knowde API
+            Verify the RAG service is properly configured and can connect to Knowde API. Network errors and 5xx
+            responses are retried; after repeated failed searches the circuit opens and chat skips RAG for a
+            cool-down period. The connection test always calls Knowde and closes the circuit when it succeeds.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -142,8 +183,46 @@ export function RagTest() {
               {isTestLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
               Test Connection
             </Button>
+            {circuitBreaker && circuitBreaker.state !== 'closed' && (
+              <Button
+                onClick={() => resetCircuitBreakerMutation.mutate()}
+                disabled={resetCircuitBreakerMutation.isPending}
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reset Circuit
+              </Button>
+            )}
           </div>
 
+          {circuitBreaker?.state && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                <div className={`px-2 py-1 rounded text-xs font-medium ${CIRCUIT_STYLES[circuitBreaker.state]}`}>
+                  {CIRCUIT_LABELS[circuitBreaker.state]}
+                </div>
+                <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                  {circuitBreaker.consecutiveFailures}/{circuitBreaker.failureThreshold} failures in a row
+                </div>
+                {circuitBreaker.retryAt && (
+                  <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                    Retrying after {new Date(circuitBreaker.retryAt).toLocaleTimeString()}
+                  </div>
+                )}
+                {circuitBreaker.totalSkipped > 0 && (
+                  <div className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                    {circuitBreaker.totalSkipped} searches skipped
+                  </div>
+                )}
+              </div>
+              {circuitBreaker.lastError && circuitBreaker.state !== 'closed' && (
+                <div className="text-xs text-gray-600">
+                  Last failure{circuitBreaker.lastFailureAt ? ` at ${new Date(circuitBreaker.lastFailureAt).toLocaleTimeString()}` : ''}: {circuitBreaker.lastError}
+                </div>
+              )}
+            </div>
+          )}
+
           {testResult && (
             <div className="space-y-2">
               <div className="flex gap-2">
@@ -158,6 +237,11 @@ export function RagTest() {
                     {testResult.responseTime}ms
                   </div>
                 )}
+                {(testResult.attempts ?? 0) > 1 && (
+                  <div className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                    {testResult.attempts} attempts
+                  </div>
+                )}
               </div>
               
               {testResult.error && (
@@ -176,58 +260,11 @@ export function RagTest() {
         </CardContent>
       </Card>
 
-      {/* Cache Management */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Loader2 className="h-5 w-5" />
-            Cache Management
-          </CardTitle>
-          <CardDescription>
-            Manage RAG search cache for performance optimization
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex gap-2">
-            <Button 
-              onClick={() => clearCacheMutation.mutate()}
-              disabled={clearCacheMutation.isPending}
-              className="flex items-center gap-2"
-            >
-              {clearCacheMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
-              Clear Cache
-            </Button>
-          </div>
+      <RagCacheManagement />
 
-          {cacheStats && (
-            <div className="space-y-2">
-              <div className="flex gap-2">
-                <div className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
-                  {cacheStats.stats?.size || 0} cached items
-                </div>
-              </div>
-              
-              {cacheStats.stats?.keys && cacheStats.stats.keys.length > 0 && (
-                <div className="bg-gray-50 p-3 rounded-md text-sm">
-                  <strong>Cached Queries:</strong>
-                  <div className="mt-1 space-y-1">
-                    {cacheStats.stats.keys.slice(0, 5).map((key: string, index: number) => (
-                      <div key={index} className="text-gray-600 text-xs">
-                        {key.replace('rag_', '')}
-                      </div>
-                    ))}
-                    {cacheStats.stats.keys.length > 5 && (
-                      <div className="text-gray-500 text-xs">
-                        ... and {cacheStats.stats.keys.length - 5} more
-                      </div>
-                    )}
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <RagCacheWarmer />
+
+      <KnowdeExtractionCheck />
 
       {/* Search Test */}
       <Card>
@@ -434,8 +471,14 @@ export function RagTest() {
                     <div key={index} className="border rounded-lg p-4 bg-white">
                       <div className="flex items-center justify-between mb-4">
                         <div>
-                          <h5 className="font-semibold text-lg">{product.productName}</h5>
-                          <p className="text-sm text-gray-600">Principal: {product.principal}</p>
+                          <h5 className="font-semibold text-lg">
+                            {product.productName}
+                            <span className="text-xs font-normal text-gray-500">{confidenceLabel(product.confidence?.productName)}</span>
+                          </h5>
+                          <p className="text-sm text-gray-600">
+                            Principal: {product.principal}
+                            <span className="text-xs text-gray-500">{confidenceLabel(product.confidence?.company)}</span>
+                          </p>
                         </div>
                         <div className="text-right">
                           <div className="text-sm text-gray-500">
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { RotateCcw } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { diffLines } from '@/lib/textDiff';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/button';
+import { useToast } from '@/hooks/use-toast';
+import type { InsertMockResponse } from '@shared/schema';
+
+// Common shape of mock response and setting revisions as returned by the API
+export interface Revision {
+  id: number;
+  action: string;
+  username: string | null;
+  createdAt: string;
+}
+
+interface RevisionHistoryModalProps<T extends Revision> {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  revisionsUrl: string; // e.g. /api/settings/system_prompt/revisions; restore posts to `${revisionsUrl}/:id/restore`
+  currentText: string;
+  toText: (revision: T) => string;
+  onRestored: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  initial: 'Before history',
+  create: 'Created',
+  update: 'Edited',
+  import: 'Imported',
+  restore: 'Restored',
+};
+
+const LINE_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+/**
+ * Readable text of a mock response snapshot, one field per line, for diffing versions
+ */
+export const formatMockResponseSnapshot = (snapshot: InsertMockResponse): string => {
+  const lines = [
+    `Question: ${snapshot.question}`,
+    `Alternate phrasings: ${(snapshot.alternateQuestions || []).join(' | ')}`,
+    `Tags: ${(snapshot.tags || []).join(', ')}`,
+    `Match threshold: ${snapshot.matchThreshold ?? 'default'}`,
+    'Response:',
+    ...snapshot.response.replace(/<\/(p|li|h\d)>/g, '\n').replace(/<br\s*\/?>/g, '\n').split('\n').map(line => line.trim()).filter(Boolean),
+    `Show try asking: ${snapshot.showTryAsking ? 'yes' : 'no'}`,
+    ...(snapshot.tryAskingPrompts || []).map(prompt => `Try asking: ${prompt}`),
+    `Show follow-up: ${snapshot.showFollowUp ? 'yes' : 'no'}`,
+    `Follow-up question: ${snapshot.followUpQuestion || ''}`,
+  ];
+  (snapshot.followUpChips || []).forEach((chip, index) => {
+    const linkedId = snapshot.followUpLinkedResponseIds?.[index];
+    const target = snapshot.followUpResponseTypes?.[index] === 'existing'
+      ? `linked response #${linkedId ?? '?'}`
+      : snapshot.followUpResponses?.[index] || '';
+    lines.push(`Follow-up chip: ${chip} -> ${target}`);
+  });
+  return lines.join('\n');
+};
+
+export const RevisionHistoryModal = <T extends Revision>({
+  isOpen,
+  onClose,
+  title,
+  revisionsUrl,
+  currentText,
+  toText,
+  onRestored,
+}: RevisionHistoryModalProps<T>) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: revisions, isLoading } = useQuery<T[]>({
+    queryKey: [revisionsUrl],
+    queryFn: () => apiRequest(revisionsUrl),
+    enabled: isOpen,
+  });
+
+  // Start with the newest version that differs from what is live now
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedId(null);
+    } else if (revisions && selectedId === null) {
+      const previous = revisions.find(revision => toText(revision) !== currentText);
+      setSelectedId(previous?.id ?? revisions[0]?.id ?? null);
+    }
+  }, [isOpen, revisions, selectedId, currentText, toText]);
+
+  const selected = revisions?.find(revision => revision.id === selectedId);
+  const diff = useMemo(
+    () => (selected ? diffLines(currentText, toText(selected)) : []),
+    [selected, currentText, toText]
+  );
+  const hasChanges = diff.some(line => line.type !== 'same');
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: number) =>
+      apiRequest(`${revisionsUrl}/${revisionId}/restore`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [revisionsUrl] });
+      onRestored();
+      setSelectedId(null);
+      toast({
+        title: "Success",
+        description: "Previous version restored. Publish it to use it in chat.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} className="max-w-5xl">
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading history...</div>
+      ) : !revisions || revisions.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          No earlier versions yet. A version is recorded every time this is saved.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="border rounded-md divide-y max-h-[60vh] overflow-y-auto">
+            {revisions.map(revision => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left p-3 text-sm hover:bg-gray-50 ${revision.id === selectedId ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{ACTION_LABELS[revision.action] || revision.action}</span>
+                  {toText(revision) === currentText && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">current</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.username && ` · ${revision.username}`}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-3">
+            {selected && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {hasChanges
+                    ? 'Restoring this version would make these changes:'
+                    : 'This version is the same as the current one.'}
+                </p>
+                <div className="border rounded-md max-h-[50vh] overflow-y-auto font-mono text-xs">
+                  {diff.map((line, index) => (
+                    <div key={index} className={`px-3 py-0.5 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>
+                      {LINE_MARKERS[line.type]} {line.text}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => restoreMutation.mutate(selected.id)}
+                    disabled={!hasChanges || restoreMutation.isPending}
+                    data-testid="button-restore-revision"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {restoreMutation.isPending ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
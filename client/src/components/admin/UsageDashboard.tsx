@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { apiRequest } from '@/lib/queryClient';
+
+interface DailyTokenUsage {
+  day: string;
+  source: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+interface UsageResponse {
+  days: number;
+  since: string;
+  usage: DailyTokenUsage[];
+}
+
+interface DayRow {
+  day: string;
+  openai: number;
+  'openai-rag': number;
+  openaiCost: number;
+  ragCost: number;
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const SOURCE_COLORS = {
+  openai: '#16a34a',
+  'openai-rag': '#9333ea',
+};
+
+// Helper function to format a USD amount with enough precision for small daily costs
+const formatCost = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+// Helper function to pivot per-source rows into one row per day, filling in empty days
+const buildDayRows = (usage: DailyTokenUsage[], since: string, days: number): DayRow[] => {
+  const rows = new Map<string, DayRow>();
+  const start = new Date(since);
+
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + i);
+    const day = date.toISOString().slice(0, 10);
+    rows.set(day, { day, openai: 0, 'openai-rag': 0, openaiCost: 0, ragCost: 0 });
+  }
+
+  for (const entry of usage) {
+    const row = rows.get(entry.day);
+    if (!row) continue;
+    if (entry.source === 'openai-rag') {
+      row['openai-rag'] += entry.totalTokens;
+      row.ragCost += entry.estimatedCost;
+    } else {
+      row.openai += entry.totalTokens;
+      row.openaiCost += entry.estimatedCost;
+    }
+  }
+
+  return Array.from(rows.values());
+};
+
+export const UsageDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading } = useQuery<UsageResponse>({
+    queryKey: ['/api/usage/daily', days],
+    queryFn: () => apiRequest(`/api/usage/daily?days=${days}`),
+  });
+
+  if (isLoading || !data) {
+    return <div className="text-gray-500">Loading usage...</div>;
+  }
+
+  const rows = buildDayRows(data.usage, data.since, data.days);
+  const totalsFor = (source: string) => data.usage
+    .filter(entry => source === 'openai-rag' ? entry.source === 'openai-rag' : entry.source !== 'openai-rag')
+    .reduce((totals, entry) => ({
+      requests: totals.requests + entry.requests,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      totalTokens: totals.totalTokens + entry.totalTokens,
+      estimatedCost: totals.estimatedCost + entry.estimatedCost,
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 });
+
+  const openaiTotals = totalsFor('openai');
+  const ragTotals = totalsFor('openai-rag');
+  const sourceRows = [
+    { source: 'openai', totals: openaiTotals },
+    { source: 'openai-rag', totals: ragTotals },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Token Usage & Cost</h2>
+          <p className="text-muted-foreground">
+            Daily OpenAI token usage and estimated cost by source. Costs use list prices and are estimates.
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="select-usage-range"
+        >
+          {RANGE_OPTIONS.map(option => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">{(openaiTotals.totalTokens + ragTotals.totalTokens).toLocaleString()}</div>
+            <div className="text-sm text-gray-600">Total Tokens</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">{formatCost(openaiTotals.estimatedCost + ragTotals.estimatedCost)}</div>
+            <div className="text-sm text-gray-600">Estimated Cost</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">
+              {ragTotals.requests > 0 ? Math.round(ragTotals.promptTokens / ragTotals.requests).toLocaleString() : 0}
+            </div>
+            <div className="text-sm text-gray-600">Avg Prompt Tokens (RAG)</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">
+              {openaiTotals.requests > 0 ? Math.round(openaiTotals.promptTokens / openaiTotals.requests).toLocaleString() : 0}
+            </div>
+            <div className="text-sm text-gray-600">Avg Prompt Tokens (no RAG)</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Tokens</CardTitle>
+          <CardDescription>Prompt and completion tokens per day, split by source.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="day" tick={{ fontSize: 12 }} tickFormatter={(day: string) => day.slice(5)} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value: number) => value.toLocaleString()} />
+                <Legend />
+                <Bar dataKey="openai" stackId="tokens" fill={SOURCE_COLORS.openai} />
+                <Bar dataKey="openai-rag" stackId="tokens" fill={SOURCE_COLORS['openai-rag']} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Estimated Cost</CardTitle>
+          <CardDescription>Estimated USD cost per day, split by source.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="day" tick={{ fontSize: 12 }} tickFormatter={(day: string) => day.slice(5)} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip formatter={(value: number) => formatCost(value)} />
+                <Legend />
+                <Bar dataKey="openaiCost" name="openai" stackId="cost" fill={SOURCE_COLORS.openai} />
+                <Bar dataKey="ragCost" name="openai-rag" stackId="cost" fill={SOURCE_COLORS['openai-rag']} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Source</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Requests</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Prompt Tokens</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Completion Tokens</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Estimated Cost</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sourceRows.map(({ source, totals }) => (
+                <tr key={source}>
+                  <td className="px-4 py-2 text-sm text-gray-900">{source}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right">{totals.requests.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right">{totals.promptTokens.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right">{totals.completionTokens.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatCost(totals.estimatedCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import type { PublicUser, UserRole } from '@shared/schema';
+
+const roleDescriptions: Record<UserRole, string> = {
+  admin: 'Full access, including this admin view',
+  editor: 'Can edit curated mock responses',
+  viewer: 'Can chat only',
+};
+
+const roles = Object.keys(roleDescriptions) as UserRole[];
+
+export const UserManager: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: () => apiRequest('/api/users'),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) =>
+      apiRequest(`/api/users/${id}/role`, {
+        method: 'PUT',
+        body: JSON.stringify({ role }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Role Updated",
+        description: "The user's role has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error?.message || "Failed to update user role.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-gray-500">Loading users...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users & Roles</CardTitle>
+        <CardDescription>
+          Only admins can open the admin view. Editors can curate mock responses through the API, and viewers can only chat.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-gray-100">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center justify-between py-3" data-testid={`row-user-${user.id}`}>
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {user.displayName || user.username}
+                  {user.id === currentUser?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </div>
+                <div className="text-xs text-gray-500">{user.username}</div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-500 hidden md:inline">
+                  {roleDescriptions[user.role as UserRole]}
+                </span>
+                <select
+                  value={user.role}
+                  onChange={(e) => updateRoleMutation.mutate({ id: user.id, role: e.target.value as UserRole })}
+                  disabled={user.id === currentUser?.id || updateRoleMutation.isPending}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+                  data-testid={`select-role-${user.id}`}
+                >
+                  {roles.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useAuth } from '@/hooks/useAuth';
+
+export const LoginPage: React.FC = () => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const { loginMutation, registerMutation } = useAuth();
+  const activeMutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    if (mode === 'login') {
+      loginMutation.mutate({ username: username.trim(), password });
+    } else {
+      registerMutation.mutate({ username: username.trim(), password, displayName: displayName.trim() || undefined });
+    }
+  };
+
+  const handleToggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    loginMutation.reset();
+    registerMutation.reset();
+  };
+
+  return (
+    <div className="h-screen flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>{mode === 'login' ? 'Sign in' : 'Create an account'}</CardTitle>
+          <CardDescription>
+            {mode === 'login'
+              ? 'Sign in to continue to your conversations.'
+              : 'Create an account to save and sync your conversations.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              label="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              data-testid="input-username"
+            />
+            {mode === 'register' && (
+              <Input
+                label="Display name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="e.g. John Sanders"
+                data-testid="input-display-name"
+              />
+            )}
+            <Input
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              data-testid="input-password"
+            />
+            {activeMutation.error && (
+              <p className="text-sm text-red-500">{activeMutation.error.message}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username.trim() || !password || activeMutation.isPending}
+              data-testid="button-submit-auth"
+            >
+              {activeMutation.isPending
+                ? 'Please wait...'
+                : mode === 'login' ? 'Sign in' : 'Create account'}
+            </Button>
+          </form>
+          <button
+            type="button"
+            onClick={handleToggleMode}
+            className="mt-4 w-full text-sm text-blue-600 hover:text-blue-700"
+          >
+            {mode === 'login' ? "Don't have an account? Create one" : 'Already have an account? Sign in'}
+          </button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
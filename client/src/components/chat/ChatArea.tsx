@@ -6,7 +6,8 @@ import { SuggestedQuestions } from './SuggestedQuestions';
 import { DisambiguationInterface } from './DisambiguationInterface';
 import { Chip } from '../ui/Chip';
 import { useQuery } from '@tanstack/react-query';
-import { ProductOption, ChatResponse } from '@shared/schema';
+import type { ChatResponse, ChipActionEvent, Citation } from '@shared/schema';
+import { productQuestion } from '@/lib/chipActions';
 import particleVideo from '@assets/Particle Swamy Video_1753892044425.mov';
 
 interface Message {
@@ -14,7 +15,7 @@ interface Message {
   content: string;
   sender: 'user' | 'ai';
   timestamp: Date;
-  citations?: string[];
+  citations?: Citation[];
   tryAskingPrompts?: string[];
   showTryAsking?: boolean;
   showFollowUp?: boolean;
@@ -34,26 +35,25 @@ interface Message {
 interface ChatAreaProps {
   messages: Message[];
   onSendMessage: (message: string) => void;
+  onChipAction?: (event: ChipActionEvent) => void; // Every chip and suggestion click in the chat
   isTyping?: boolean;
   streamingMessageId?: string | null;
   onSettingsClick?: () => void;
-  onHowCanIHelpClick?: () => void;
+  previewDrafts?: boolean;
+  onTogglePreviewDrafts?: () => void;
   showTaskSidebar?: boolean;
-  // Phase 3: Disambiguation handlers
-  onProductSelect?: (option: ProductOption, originalQuery: string) => void;
-  onRefineQuery?: () => void;
 }
 
 export const ChatArea: React.FC<ChatAreaProps> = ({
   messages,
   onSendMessage,
+  onChipAction,
   isTyping = false,
   streamingMessageId = null,
   onSettingsClick,
-  onHowCanIHelpClick,
+  previewDrafts = false,
+  onTogglePreviewDrafts,
   showTaskSidebar = false,
-  onProductSelect,
-  onRefineQuery,
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -97,20 +97,27 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
   const introQuestionsText = introQuestionsSetting?.value || "What is AF27?\nIs AF27 Stearic Acid an oxidizing agent?";
   const suggestedQuestions = introQuestionsText.split('\n').filter((q: string) => q.trim().length > 0);
 
-  const handleSuggestedQuestion = (question: string) => {
-    // Auto-send the suggested question
-    onSendMessage(question);
+  const handleSuggestedQuestion = (question: string, source: 'intro-question' | 'try-asking') => {
+    onChipAction?.({ action: { type: 'ask-question', question }, label: question, source });
   };
 
   const handleFollowUpClick = (chipIndex: number, message: Message) => {
-    // Get the corresponding response for this chip
-    const response = message.followUpResponses?.[chipIndex];
+    // The answer behind each chip was resolved on the server with the message itself
     const chipText = message.followUpChips?.[chipIndex];
-    
-    if (response && chipText) {
-      // Create a special follow-up message identifier
-      const followUpMessage = `__FOLLOWUP__${chipIndex}__${message.id}__${chipText}`;
-      onSendMessage(followUpMessage);
+    if (chipText) {
+      onChipAction?.({
+        action: { type: 'show-curated-response', messageId: message.id, chipIndex },
+        label: chipText,
+        source: 'follow-up',
+      });
+    }
+  };
+
+  const handleRefineQuery = () => {
+    // Simple implementation - could be enhanced with a modal or input field
+    const newQuery = window.prompt('Please refine your search query:');
+    if (newQuery && newQuery.trim()) {
+      onChipAction?.({ action: { type: 'ask-question', question: newQuery.trim() }, label: newQuery.trim(), source: 'disambiguation' });
     }
   };
 
@@ -124,8 +131,10 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
       <div className="flex-1 flex flex-col bg-white rounded-[24px] border border-gray-200 overflow-hidden">
       <ChatHeader 
         onSettingsClick={onSettingsClick} 
+        previewDrafts={previewDrafts}
+        onTogglePreviewDrafts={onTogglePreviewDrafts}
         hasMessages={messages.length > 0}
-        onHowCanIHelpClick={onHowCanIHelpClick}
+        onHowCanIHelpClick={() => onChipAction?.({ action: { type: 'open-panel', panel: 'tasks' }, label: 'New task', source: 'chat-header' })}
         showTaskSidebar={showTaskSidebar}
       />
       
@@ -164,7 +173,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                     {suggestedQuestions.map((question, index) => (
                       <button
                         key={index}
-                        onClick={() => handleSuggestedQuestion(question)}
+                        onClick={() => handleSuggestedQuestion(question, 'intro-question')}
                         className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-full hover:bg-gray-50 hover:border-gray-300 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
                         style={{ 
                           fontSize: '13px',
@@ -190,7 +199,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                   timestamp={message.timestamp}
                   citations={message.citations}
                   tryAskingPrompts={tryAskingEnabled ? message.tryAskingPrompts : undefined}
-                  onTryAskingClick={onSendMessage}
+                  onTryAskingClick={(prompt) => handleSuggestedQuestion(prompt, 'try-asking')}
                   showFollowUp={message.showFollowUp}
                   followUpQuestion={message.followUpQuestion}
                   followUpChips={message.followUpChips}
@@ -202,12 +211,16 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                   processingTime={message.processingTime}
                 />
                 {/* Phase 3: Show disambiguation interface after AI messages */}
-                {message.sender === 'ai' && message.isDisambiguation && message.responseData?.type === 'disambiguation' && onProductSelect && onRefineQuery && (
+                {message.sender === 'ai' && message.isDisambiguation && message.responseData?.type === 'disambiguation' && onChipAction && (
                   <div className="mt-4">
                     <DisambiguationInterface
-                      disambiguationData={(message.responseData as any).disambiguationData}
-                      onProductSelect={(option) => onProductSelect(option, (message.responseData as any).disambiguationData?.originalQuery || '')}
-                      onRefineQuery={onRefineQuery}
+                      disambiguationData={message.responseData.disambiguationData}
+                      onProductSelect={(option) => onChipAction({
+                        action: { type: 'ask-question', question: productQuestion(option) },
+                        label: option.name,
+                        source: 'disambiguation',
+                      })}
+                      onRefineQuery={handleRefineQuery}
                     />
                   </div>
                 )}
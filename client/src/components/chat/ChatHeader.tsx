@@ -1,16 +1,25 @@
 import React from 'react';
-import { Settings } from 'lucide-react';
+import { Settings, Eye } from 'lucide-react';
 import swamyLogo from '@assets/Export_SwamyAI_Logo_1753898713786.png';
 import NewTaskIcon from '../ui/icons/NewTaskIcon';
 
 interface ChatHeaderProps {
   onSettingsClick?: () => void;
+  previewDrafts?: boolean;
+  onTogglePreviewDrafts?: () => void;
   hasMessages?: boolean;
   onHowCanIHelpClick?: () => void;
   showTaskSidebar?: boolean;
 }
 
-export const ChatHeader: React.FC<ChatHeaderProps> = ({ onSettingsClick, hasMessages = false, onHowCanIHelpClick, showTaskSidebar = false }) => {
+export const ChatHeader: React.FC<ChatHeaderProps> = ({
+  onSettingsClick,
+  previewDrafts = false,
+  onTogglePreviewDrafts,
+  hasMessages = false,
+  onHowCanIHelpClick,
+  showTaskSidebar = false,
+}) => {
   return (
     <div className="bg-white py-4 px-3 flex justify-center relative">
       <img
@@ -22,14 +31,33 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onSettingsClick, hasMess
       
       {/* Right side buttons */}
       <div className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center gap-2">
-        {/* Admin Settings Gear Icon */}
-        <button
-          onClick={onSettingsClick}
-          className="p-2 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
-          aria-label="Admin Settings"
-        >
-          <Settings className="w-4 h-4" />
-        </button>
+        {/* Draft preview toggle - only passed in for admins */}
+        {onTogglePreviewDrafts && (
+          <button
+            onClick={onTogglePreviewDrafts}
+            className={`p-2 rounded-lg transition-colors flex items-center gap-1.5 text-sm ${
+              previewDrafts
+                ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+            }`}
+            aria-label={previewDrafts ? 'Stop previewing drafts' : 'Preview drafts'}
+            title={previewDrafts ? 'Answering with unpublished drafts. Click to return to published content.' : 'Preview unpublished drafts'}
+          >
+            <Eye className="w-4 h-4" />
+            {previewDrafts && <span>Previewing drafts</span>}
+          </button>
+        )}
+
+        {/* Admin Settings Gear Icon - only passed in for admins */}
+        {onSettingsClick && (
+          <button
+            onClick={onSettingsClick}
+            className="p-2 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+            aria-label="Admin Settings"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+        )}
         
         {/* New task button - only show when there are messages and task sidebar is not open */}
         {hasMessages && !showTaskSidebar && (
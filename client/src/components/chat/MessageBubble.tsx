@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useQuery } from "@tanstack/react-query";
+import { FileText } from 'lucide-react';
 import { Chip } from '../ui/Chip';
+import { Modal } from '../ui/Modal';
+import type { Citation } from '@shared/schema';
 
 interface MessageBubbleProps {
   content: string;
@@ -8,7 +11,7 @@ interface MessageBubbleProps {
   timestamp: Date;
   isTyping?: boolean;
   isStreaming?: boolean;
-  citations?: string[];
+  citations?: Citation[];
   tryAskingPrompts?: string[];
   onTryAskingClick?: (prompt: string) => void;
   showFollowUp?: boolean;
@@ -40,6 +43,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   processingTime = 0,
 }) => {
   const isUser = sender === 'user';
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
 
   // Fetch performance feedback setting
   const { data: performanceFeedbackSetting } = useQuery({
@@ -129,16 +133,36 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             {citations.length > 0 && (
               <div className="mt-4">
                 <h4 className="text-sm font-medium text-gray-800 mb-2 font-[Inter]">Citations</h4>
-                <div className="space-y-1">
-                  {citations.map((citation, index) => (
-                    <div key={index} className="flex items-center gap-2 text-sm text-gray-600">
-                      <div className="w-4 h-4 bg-gray-200 rounded flex items-center justify-center">
-                        <span className="text-xs">📄</span>
-                      </div>
-                      <span>{citation}</span>
-                    </div>
+                <div className="flex flex-wrap gap-2">
+                  {citations.map((citation) => (
+                    <Chip
+                      key={citation.id}
+                      onClick={() => setOpenCitation(citation)}
+                      variant="default"
+                    >
+                      <FileText className="w-4 h-4 mr-1.5 flex-shrink-0" />
+                      <span className="truncate">{citation.documentName || citation.label}</span>
+                    </Chip>
                   ))}
                 </div>
+                <Modal
+                  isOpen={openCitation !== null}
+                  onClose={() => setOpenCitation(null)}
+                  title={openCitation?.label || 'Source'}
+                  className="max-w-2xl"
+                >
+                  {openCitation && (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                        {openCitation.documentName && <span>Document: {openCitation.documentName}</span>}
+                        <span>Relevance: {openCitation.score.toFixed(2)}</span>
+                      </div>
+                      <p className="text-sm text-gray-800 whitespace-pre-wrap max-h-[50vh] overflow-y-auto">
+                        {openCitation.snippet}
+                      </p>
+                    </div>
+                  )}
+                </Modal>
               </div>
             )}
             
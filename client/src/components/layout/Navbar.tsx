@@ -8,6 +8,8 @@ import AddCircleIcon from '../icons/AddCircleIcon';
 import SalesCanvasIcon from '../icons/SalesCanvasIcon';
 import ExpandIcon from '../icons/ExpandIcon';
 import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { LogOut } from 'lucide-react';
 
 type AppMode = 'chat' | 'find-replacement';
 
@@ -59,10 +61,7 @@ export const Navbar: React.FC<NavbarProps> = ({
     queryFn: () => fetch('/api/settings/company_name').then(res => res.json())
   });
 
-  const { data: userNameSetting } = useQuery({
-    queryKey: ['/api/settings', 'user_name'],
-    queryFn: () => fetch('/api/settings/user_name').then(res => res.json())
-  });
+  const { user, logoutMutation } = useAuth();
 
   const { data: logoUrlSetting } = useQuery({
     queryKey: ['/api/settings', 'logo_url'],
@@ -71,7 +70,7 @@ export const Navbar: React.FC<NavbarProps> = ({
 
   // Use settings with fallbacks
   const companyName = companyNameSetting?.value || 'Brenntag';
-  const userName = userNameSetting?.value || 'John Sanders';
+  const userName = user?.displayName || user?.username || 'Guest';
   const logoUrl = logoUrlSetting?.value || 'https://uploadthingy.s3.us-west-1.amazonaws.com/dXCGmabXpAEerMywR1rEtp/Supplier_Logo_-_Square.png';
   
   // Generate user initials
@@ -253,7 +252,17 @@ export const Navbar: React.FC<NavbarProps> = ({
                 <div className="w-7 h-7 bg-blue-500 rounded-full flex items-center justify-center text-white font-medium" style={{ fontSize: '10px' }}>
                   {userInitials}
                 </div>
-                <span className="text-sm font-medium text-gray-900">{userName}</span>
+                <span className="text-sm font-medium text-gray-900 flex-1 truncate">{userName}</span>
+                <button
+                  type="button"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  className="p-1 rounded hover:bg-gray-200 transition-colors text-gray-500 hover:text-gray-800"
+                  title="Sign out"
+                  data-testid="button-logout"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
               </div>
             </div>
           </>
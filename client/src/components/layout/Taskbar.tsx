@@ -3,7 +3,7 @@ import { DollarSign, HelpCircle, RotateCcw, ClipboardList, FileText, Search, Eye
 import ExpandIcon from '../icons/ExpandIcon';
 
 interface TaskbarProps {
-  onTaskClick?: (taskId: string) => void;
+  onTaskClick?: (taskId: string, title: string) => void;
   hasMessages?: boolean;
   showCloseButton?: boolean;
   onClose?: () => void;
@@ -72,11 +72,8 @@ export const Taskbar: React.FC<TaskbarProps> = ({
 }) => {
   const handleTaskClick = (taskId: string, title: string) => {
     if (onTaskClick) {
-      onTaskClick(taskId);
+      onTaskClick(taskId, title);
     }
-    // You could also trigger the task by sending a message
-    // For now, we'll just log it
-    console.log(`Task clicked: ${taskId} - ${title}`);
   };
 
   if (isCollapsed) {
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PublicUser } from '@shared/schema';
+
+interface Credentials {
+  username: string;
+  password: string;
+  displayName?: string;
+}
+
+// POST credentials and surface the server's error message on failure
+const submitCredentials = async (url: string, credentials: Credentials): Promise<PublicUser> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.statusText}`);
+  }
+
+  return data;
+};
+
+export const useAuth = () => {
+  const queryClient = useQueryClient();
+
+  // Current user, or null when signed out
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: async () => {
+      const response = await fetch('/api/user');
+      if (response.status === 401) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load user: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => submitCredentials('/api/login', credentials),
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(['/api/user'], loggedInUser);
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) => submitCredentials('/api/register', credentials),
+    onSuccess: (registeredUser) => {
+      queryClient.setQueryData(['/api/user'], registeredUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => fetch('/api/logout', { method: 'POST' }),
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+};
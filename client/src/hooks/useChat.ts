@@ -1,19 +1,21 @@
-import { useState, useCallback } from 'react';
-import { ProductOption, ChatResponse } from '@shared/schema';
+import { useState, useCallback, useEffect } from 'react';
+import { ChatResponse } from '@shared/schema';
+import type { ChatSession as StoredChatSession, ChatMessage as StoredChatMessage, Citation, FollowUpResponseData } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
 
 interface Message {
   id: string;
   content: string;
   sender: 'user' | 'ai';
   timestamp: Date;
-  citations?: string[];
+  citations?: Citation[]; // RAG sources behind the answer
   tryAskingPrompts?: string[];
   showTryAsking?: boolean; // Track if this message should show any try asking suggestions
   showFollowUp?: boolean;
   followUpQuestion?: string;
   followUpChips?: string[];
   followUpResponses?: string[];
-  followUpResponsesData?: any[]; // Full response data for linked responses
+  followUpResponsesData?: FollowUpResponseData[]; // Resolved answer behind each follow-up chip
   isStreaming?: boolean; // Track if this message is being streamed
   source?: string; // Track response source: 'mock', 'openai', 'openai-rag', 'fallback'
   ragResponseTime?: number; // RAG search response time
@@ -33,6 +35,42 @@ interface ChatSession {
   isPinned?: boolean;
 }
 
+type StoredChatSessionWithMessages = StoredChatSession & { messages: StoredChatMessage[] };
+
+// Everything except the core fields is persisted in the chat_messages.metadata JSON column
+const toMessageMetadata = (message: Message) => {
+  const { id, content, sender, timestamp, isStreaming, ...metadata } = message;
+  return metadata;
+};
+
+const fromStoredMessage = (stored: StoredChatMessage): Message => ({
+  ...(stored.metadata ? JSON.parse(stored.metadata) : {}),
+  id: String(stored.id),
+  content: stored.content,
+  sender: stored.sender as Message['sender'],
+  timestamp: stored.createdAt ? new Date(stored.createdAt) : new Date(),
+});
+
+const fromStoredSession = (stored: StoredChatSessionWithMessages): ChatSession => ({
+  id: String(stored.id),
+  title: stored.title,
+  messages: (stored.messages || []).map(fromStoredMessage),
+  createdAt: stored.createdAt ? new Date(stored.createdAt) : new Date(),
+  updatedAt: stored.updatedAt ? new Date(stored.updatedAt) : new Date(),
+  isPinned: stored.isPinned || false,
+});
+
+const persistMessage = (chatId: string, message: Message) => {
+  apiRequest(`/api/chat-sessions/${chatId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({
+      sender: message.sender,
+      content: message.content,
+      metadata: toMessageMetadata(message),
+    }),
+  }).catch(error => console.error('Failed to save chat message:', error));
+};
+
 // Mock AI responses with citations for chemical industry
 const mockAIResponses = [
   {
@@ -73,61 +111,58 @@ For more detailed specifications, please refer to the technical data sheet or co
   }
 ];
 
-export const useChat = () => {
+interface UseChatOptions {
+  previewDrafts?: boolean; // Answer with unpublished curated content; the server only honors this for editors
+}
+
+export const useChat = ({ previewDrafts = false }: UseChatOptions = {}) => {
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
   const [isTyping, setIsTyping] = useState(false);
   const [isRenaming, setIsRenaming] = useState<string | null>(null);
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
 
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
-  const createNewChat = useCallback(() => {
-    const newChat: ChatSession = {
-      id: generateId(),
-      title: 'New Chat',
-      messages: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      isPinned: false,
-    };
-
-    setChatSessions(prev => [newChat, ...prev]);
-    setActiveChatId(newChat.id);
-    return newChat.id;
+  // Load persisted chat sessions on mount
+  useEffect(() => {
+    apiRequest('/api/chat-sessions')
+      .then((sessions: StoredChatSessionWithMessages[]) => {
+        setChatSessions(sessions.map(fromStoredSession));
+      })
+      .catch(error => console.error('Failed to load chat sessions:', error))
+      .finally(() => setIsLoadingSessions(false));
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!activeChatId) return;
+  const createNewChat = useCallback(async () => {
+    // Reuse an untouched chat instead of piling up empty sessions on the server
+    const emptyChat = chatSessions.find(session => session.messages.length === 0);
+    if (emptyChat) {
+      setActiveChatId(emptyChat.id);
+      return emptyChat.id;
+    }
 
-    // Check if this is a follow-up message
-    const isFollowUpMessage = content.startsWith('__FOLLOWUP__');
-    let displayContent = content;
-    let followUpResponse = null;
-    
-    if (isFollowUpMessage) {
-      // Parse the follow-up message: __FOLLOWUP__chipIndex__messageId__chipText
-      const parts = content.split('__');
-      if (parts.length >= 5) {
-        const chipIndex = parseInt(parts[2]);
-        const messageId = parts[3];
-        const chipText = parts.slice(4).join('__'); // In case chipText contains __
-        
-        displayContent = chipText;
-        
-        // Find the original message to get the follow-up response
-        const currentSession = chatSessions.find(session => session.id === activeChatId);
-        const originalMessage = currentSession?.messages.find(msg => msg.id === messageId);
-        
-        if (originalMessage && originalMessage.followUpResponses && originalMessage.followUpResponses[chipIndex]) {
-          followUpResponse = {
-            content: originalMessage.followUpResponses[chipIndex],
-            // Include linked response data if available
-            ...(originalMessage as any).followUpResponsesData?.[chipIndex]
-          };
-        }
-      }
+    try {
+      const storedSession: StoredChatSessionWithMessages = await apiRequest('/api/chat-sessions', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'New Chat' }),
+      });
+      const newChat = fromStoredSession(storedSession);
+
+      setChatSessions(prev => [newChat, ...prev]);
+      setActiveChatId(newChat.id);
+      return newChat.id;
+    } catch (error) {
+      console.error('Failed to create chat session:', error);
+      return null;
     }
+  }, [chatSessions]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    if (!activeChatId) return;
+    const chatId = activeChatId;
+    const displayContent = content;
 
     const userMessage: Message = {
       id: generateId(),
@@ -149,44 +184,11 @@ export const useChat = () => {
       }
       return session;
     }));
+    persistMessage(chatId, userMessage);
 
     // Simulate AI typing
     setIsTyping(true);
 
-    // If this is a follow-up message, provide the configured response
-    if (followUpResponse) {
-      setTimeout(() => {
-        const aiResponse: Message = {
-          id: generateId(),
-          content: typeof followUpResponse === 'string' ? followUpResponse : followUpResponse.content,
-          sender: 'ai',
-          timestamp: new Date(),
-          citations: [],
-          tryAskingPrompts: typeof followUpResponse === 'object' ? followUpResponse.tryAskingPrompts || [] : [],
-          showTryAsking: typeof followUpResponse === 'object' ? followUpResponse.showTryAsking || false : false,
-          showFollowUp: typeof followUpResponse === 'object' ? followUpResponse.showFollowUp || false : false,
-          followUpQuestion: typeof followUpResponse === 'object' ? followUpResponse.followUpQuestion || "" : "",
-          followUpChips: typeof followUpResponse === 'object' ? followUpResponse.followUpChips || [] : [],
-          followUpResponses: typeof followUpResponse === 'object' ? followUpResponse.followUpResponses || [] : [],
-          followUpResponsesData: typeof followUpResponse === 'object' ? followUpResponse.followUpResponsesData || [] : [],
-        };
-
-        setChatSessions(prev => prev.map(session => {
-          if (session.id === activeChatId) {
-            return {
-              ...session,
-              messages: [...session.messages, aiResponse],
-              updatedAt: new Date(),
-            };
-          }
-          return session;
-        }));
-
-        setIsTyping(false);
-      }, 1000);
-      return;
-    }
-
     // Call the chat endpoint with streaming support
     try {
       const response = await fetch('/api/chat', {
@@ -194,7 +196,7 @@ export const useChat = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ question: displayContent.trim() }),
+        body: JSON.stringify({ question: displayContent.trim(), sessionId: chatId, preview: previewDrafts }),
       });
 
       // Check if this is a streaming response
@@ -250,6 +252,24 @@ export const useChat = () => {
         // Set streaming message ID
         setStreamingMessageId(aiMessageId);
 
+        // Fields applied to the AI message once the 'complete' event arrives
+        const getCompletedFields = (data: any): Partial<Message> => ({
+          content: data.content,
+          citations: data.citations || [],
+          tryAskingPrompts: data.tryAskingPrompts || [],
+          showTryAsking: data.showTryAsking || false,
+          showFollowUp: data.showFollowUp || false,
+          followUpQuestion: data.followUpQuestion || '',
+          followUpChips: data.followUpChips || [],
+          followUpResponses: data.followUpResponses || [],
+          followUpResponsesData: data.followUpResponsesData || [],
+          isStreaming: false,
+          source: data.source || 'openai',
+          ragResponseTime: data.ragResponseTime || 0,
+          ragContentLength: data.ragContentLength || 0,
+          processingTime: data.processingTime || 0,
+        });
+
         // Process streaming data
         const processStream = async () => {
           try {
@@ -294,6 +314,7 @@ export const useChat = () => {
                                     source: data.source || 'openai',
                                     ragResponseTime: data.ragResponseTime || 0,
                                     ragContentLength: data.ragContentLength || 0,
+                                    citations: data.citations || [],
                                   }
                                 : msg
                             ),
@@ -323,6 +344,7 @@ export const useChat = () => {
                     } else if (data.type === 'complete') {
                       // Stream completed
                       isStreamingComplete = true;
+                      const completedFields = getCompletedFields(data);
                       
                       setChatSessions(prev => prev.map(session => {
                         if (session.id === activeChatId) {
@@ -330,22 +352,7 @@ export const useChat = () => {
                             ...session,
                             messages: session.messages.map(msg => 
                               msg.id === aiMessageId 
-                                ? { 
-                                    ...msg, 
-                                    content: data.content,
-                                    tryAskingPrompts: data.tryAskingPrompts || [],
-                                    showTryAsking: data.showTryAsking || false,
-                                    showFollowUp: data.showFollowUp || false,
-                                    followUpQuestion: data.followUpQuestion || '',
-                                    followUpChips: data.followUpChips || [],
-                                    followUpResponses: data.followUpResponses || [],
-                                    followUpResponsesData: data.followUpResponsesData || [],
-                                    isStreaming: false,
-                                    source: data.source || 'openai',
-                                    ragResponseTime: data.ragResponseTime || 0,
-                                    ragContentLength: data.ragContentLength || 0,
-                                    processingTime: data.processingTime || 0,
-                                  }
+                                ? { ...msg, ...completedFields }
                                 : msg
                             ),
                             updatedAt: new Date(),
@@ -353,6 +360,7 @@ export const useChat = () => {
                         }
                         return session;
                       }));
+                      persistMessage(chatId, { ...initialAiMessage, ...completedFields });
                       
                       // Clear streaming message ID
                       setStreamingMessageId(null);
@@ -382,6 +390,7 @@ export const useChat = () => {
                                         source: data.source || 'openai',
                                         ragResponseTime: data.ragResponseTime || 0,
                                         ragContentLength: data.ragContentLength || 0,
+                                        citations: data.citations || [],
                                       }
                                     : msg
                                 ),
@@ -408,28 +417,14 @@ export const useChat = () => {
                           }));
                         } else if (data.type === 'complete') {
                           isStreamingComplete = true;
+                          const completedFields = getCompletedFields(data);
                           setChatSessions(prev => prev.map(session => {
                             if (session.id === activeChatId) {
                               return {
                                 ...session,
                                 messages: session.messages.map(msg => 
                                   msg.id === aiMessageId 
-                                    ? { 
-                                        ...msg, 
-                                        content: data.content,
-                                        tryAskingPrompts: data.tryAskingPrompts || [],
-                                        showTryAsking: data.showTryAsking || false,
-                                        showFollowUp: data.showFollowUp || false,
-                                        followUpQuestion: data.followUpQuestion || '',
-                                        followUpChips: data.followUpChips || [],
-                                        followUpResponses: data.followUpResponses || [],
-                                        followUpResponsesData: data.followUpResponsesData || [],
-                                        isStreaming: false,
-                                        source: data.source || 'openai',
-                                        ragResponseTime: data.ragResponseTime || 0,
-                                        ragContentLength: data.ragContentLength || 0,
-                                        processingTime: data.processingTime || 0,
-                                      }
+                                    ? { ...msg, ...completedFields }
                                     : msg
                                 ),
                                 updatedAt: new Date(),
@@ -437,6 +432,7 @@ export const useChat = () => {
                             }
                             return session;
                           }));
+                          persistMessage(chatId, { ...initialAiMessage, ...completedFields });
                           setStreamingMessageId(null);
                         }
                         
@@ -461,13 +457,14 @@ export const useChat = () => {
           } catch (streamError) {
             console.error('Streaming error:', streamError);
             // Fallback to error message if streaming fails
+            const errorContent = 'I apologize, but there was an error processing your request. Please try again.';
             setChatSessions(prev => prev.map(session => {
               if (session.id === activeChatId) {
                 return {
                   ...session,
                   messages: session.messages.map(msg => 
                     msg.id === aiMessageId 
-                      ? { ...msg, content: 'I apologize, but there was an error processing your request. Please try again.', isStreaming: false }
+                      ? { ...msg, content: errorContent, isStreaming: false }
                       : msg
                   ),
                   updatedAt: new Date(),
@@ -475,6 +472,7 @@ export const useChat = () => {
               }
               return session;
             }));
+            persistMessage(chatId, { ...initialAiMessage, content: errorContent, isStreaming: false });
             
             // Clear streaming message ID
             setStreamingMessageId(null);
@@ -522,25 +520,23 @@ export const useChat = () => {
             }
             return session;
           }));
+          persistMessage(chatId, aiResponse);
 
           setIsTyping(false);
           return;
         }
         
         // Handle normal responses
-        // Check if global "Try asking" is enabled for OpenAI responses
-        let tryAskingPrompts: string[] = chatResponse.tryAskingPrompts || [];
-        let showTryAsking = chatResponse.showTryAsking || false;
-        
-        // For OpenAI responses, only use try asking prompts if they're explicitly provided
-        // (No default suggestions for OpenAI responses)
-        
+        // Curated answers carry their own try asking prompts; the server generates them for OpenAI answers
+        const tryAskingPrompts: string[] = chatResponse.tryAskingPrompts || [];
+        const showTryAsking = chatResponse.showTryAsking || false;
+
         const aiResponse: Message = {
           id: generateId(),
           content: chatResponse.content,
           sender: 'ai',
           timestamp: new Date(),
-          citations: [], // OpenAI responses don't have citations for now
+          citations: chatResponse.citations || [],
           tryAskingPrompts,
           showTryAsking,
           showFollowUp: chatResponse.showFollowUp,
@@ -564,6 +560,7 @@ export const useChat = () => {
           }
           return session;
         }));
+        persistMessage(chatId, aiResponse);
 
         setIsTyping(false);
         return;
@@ -598,6 +595,85 @@ export const useChat = () => {
         }
         return session;
       }));
+      persistMessage(chatId, aiResponse);
+
+      setIsTyping(false);
+    }, 1000);
+  }, [activeChatId, chatSessions, previewDrafts]);
+
+  // Answer a follow-up chip from the data the server resolved with the original message; no request is made
+  const sendFollowUp = useCallback((messageId: string, chipIndex: number) => {
+    if (!activeChatId) return;
+    const chatId = activeChatId;
+
+    const currentSession = chatSessions.find(session => session.id === chatId);
+    const originalMessage = currentSession?.messages.find(msg => msg.id === messageId);
+    const chipText = originalMessage?.followUpChips?.[chipIndex];
+    if (!originalMessage || !chipText) return;
+
+    // Messages saved before follow-ups were resolved on the server carry unresolved links; keep only their text
+    const stored = originalMessage.followUpResponsesData?.[chipIndex];
+    const followUp: FollowUpResponseData = stored && Array.isArray(stored.followUpResponsesData)
+      ? stored
+      : {
+          content: stored?.content ?? originalMessage.followUpResponses?.[chipIndex] ?? '',
+          tryAskingPrompts: stored?.tryAskingPrompts || [],
+          showTryAsking: stored?.showTryAsking || false,
+          showFollowUp: false,
+          followUpQuestion: '',
+          followUpChips: [],
+          followUpResponsesData: [],
+        };
+
+    const userMessage: Message = {
+      id: generateId(),
+      content: chipText,
+      sender: 'user',
+      timestamp: new Date(),
+    };
+
+    setChatSessions(prev => prev.map(session => {
+      if (session.id === chatId) {
+        return {
+          ...session,
+          messages: [...session.messages, userMessage],
+          title: session.title === 'New Chat' ? chipText.slice(0, 50) : session.title,
+          updatedAt: new Date(),
+        };
+      }
+      return session;
+    }));
+    persistMessage(chatId, userMessage);
+
+    // Simulate AI typing
+    setIsTyping(true);
+    setTimeout(() => {
+      const aiResponse: Message = {
+        id: generateId(),
+        content: followUp.content,
+        sender: 'ai',
+        timestamp: new Date(),
+        citations: [],
+        tryAskingPrompts: followUp.tryAskingPrompts,
+        showTryAsking: followUp.showTryAsking,
+        showFollowUp: followUp.showFollowUp,
+        followUpQuestion: followUp.followUpQuestion,
+        followUpChips: followUp.followUpChips,
+        followUpResponses: followUp.followUpResponsesData.map(data => data.content),
+        followUpResponsesData: followUp.followUpResponsesData,
+      };
+
+      setChatSessions(prev => prev.map(session => {
+        if (session.id === chatId) {
+          return {
+            ...session,
+            messages: [...session.messages, aiResponse],
+            updatedAt: new Date(),
+          };
+        }
+        return session;
+      }));
+      persistMessage(chatId, aiResponse);
 
       setIsTyping(false);
     }, 1000);
@@ -608,13 +684,22 @@ export const useChat = () => {
   }, []);
 
   const pinChat = useCallback((chatId: string) => {
+    const targetSession = chatSessions.find(session => session.id === chatId);
+    if (!targetSession) return;
+    const isPinned = !targetSession.isPinned;
+
     setChatSessions(prev => prev.map(session => {
       if (session.id === chatId) {
-        return { ...session, isPinned: !session.isPinned };
+        return { ...session, isPinned };
       }
       return session;
     }));
-  }, []);
+
+    apiRequest(`/api/chat-sessions/${chatId}/pin`, {
+      method: 'PUT',
+      body: JSON.stringify({ isPinned }),
+    }).catch(error => console.error('Failed to pin chat session:', error));
+  }, [chatSessions]);
 
   const renameChat = useCallback((chatId: string, newTitle: string) => {
     setChatSessions(prev => prev.map(session => {
@@ -623,9 +708,18 @@ export const useChat = () => {
       }
       return session;
     }));
+
+    apiRequest(`/api/chat-sessions/${chatId}/rename`, {
+      method: 'PUT',
+      body: JSON.stringify({ title: newTitle }),
+    }).catch(error => console.error('Failed to rename chat session:', error));
   }, []);
 
   const deleteChat = useCallback((chatId: string) => {
+    apiRequest(`/api/chat-sessions/${chatId}`, {
+      method: 'DELETE',
+    }).catch(error => console.error('Failed to delete chat session:', error));
+
     setChatSessions(prev => {
       const filtered = prev.filter(session => session.id !== chatId);
       
@@ -657,43 +751,22 @@ export const useChat = () => {
   });
 
   // Phase 3: Add disambiguation handlers
-  const handleProductSelection = useCallback(async (productOption: ProductOption, originalQuery: string) => {
-    try {
-      // Create follow-up query with selected product
-      const followUpQuery = `Tell me about ${productOption.name}${productOption.company ? ` by ${productOption.company}` : ''}`;
-      
-      // Send the follow-up query to get specific product information
-      sendMessage(followUpQuery);
-    } catch (error) {
-      console.error('Error handling product selection:', error);
-    }
-  }, [sendMessage]);
-
-  const handleRefineQuery = useCallback(() => {
-    // Simple implementation - could be enhanced with a modal or input field
-    const newQuery = window.prompt('Please refine your search query:');
-    if (newQuery && newQuery.trim()) {
-      sendMessage(newQuery.trim());
-    }
-  }, [sendMessage]);
-
   return {
     chatSessions: sortedChatSessions,
     activeChatId,
     activeChat,
+    isLoadingSessions,
     isTyping,
     isRenaming,
     streamingMessageId,
     createNewChat,
     sendMessage,
+    sendFollowUp,
     selectChat,
     pinChat,
     renameChat,
     deleteChat,
     startRenaming,
     stopRenaming,
-    // Phase 3: Export disambiguation handlers
-    handleProductSelection,
-    handleRefineQuery,
   };
 };
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { ChipActionEvent, ProductOption } from '@shared/schema';
+import { apiRequest } from './queryClient';
+
+/**
+ * Record a chip click on the server; a failed log never blocks the action itself
+ */
+export const logChipAction = (event: ChipActionEvent) => {
+  apiRequest('/api/chip-actions', {
+    method: 'POST',
+    body: JSON.stringify(event),
+  }).catch(error => console.error('Failed to log chip action:', error));
+};
+
+/**
+ * The question asked when a product is picked from a disambiguation list
+ */
+export const productQuestion = (option: ProductOption): string =>
+  `Tell me about ${option.name}${option.company ? ` by ${option.company}` : ''}`;
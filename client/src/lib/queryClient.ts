@@ -18,7 +18,9 @@ export async function apiRequest(url: string, options: RequestInit = {}) {
   });
 
   if (!response.ok) {
-    throw new Error(`API request failed: ${response.statusText}`);
+    // Prefer the server's validation message when it sends one
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `API request failed: ${response.statusText}`);
   }
 
   return response.json();
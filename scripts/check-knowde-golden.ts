@@ -0,0 +1,26 @@
+// Run the golden Knowde payloads through the response model and extractors; exits non-zero on any mismatch.
+// Usage: npm run test:knowde-golden
+import { runGoldenChecks } from '../server/knowdeGolden';
+
+const results = runGoldenChecks();
+
+if (results.length === 0) {
+  console.error('No golden payloads found in server/fixtures/knowde-golden');
+  process.exit(1);
+}
+
+for (const result of results) {
+  console.log(`${result.passed ? 'PASS' : 'FAIL'} ${result.name}`);
+  if (result.error) {
+    console.log(`  Could not read the file: ${result.error}`);
+  }
+  for (const mismatch of result.mismatches) {
+    const product = mismatch.product !== null ? `product ${mismatch.product} ` : '';
+    console.log(`  ${product}${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual ?? null)}`);
+    mismatch.details?.forEach(detail => console.log(`    ${detail}`));
+  }
+}
+
+const failed = results.filter(result => !result.passed).length;
+console.log(`\n${results.length - failed}/${results.length} golden payloads extract as expected`);
+process.exit(failed > 0 ? 1 : 0);
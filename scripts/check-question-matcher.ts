@@ -0,0 +1,44 @@
+// Score known question pairs with the mock response matcher; exits non-zero when one lands on the wrong side
+// of the default threshold. Usage: npm run test:question-matcher
+import { DEFAULT_MATCH_THRESHOLD, DEFAULT_SYNONYMS, parseSynonyms, scoreQuestion, type MatchSettings } from '../server/questionMatcher';
+
+interface MatcherCase {
+  question: string;
+  candidate: string;
+  shouldMatch: boolean;
+}
+
+const CASES: MatcherCase[] = [
+  { question: "What's the SDS for AF27?", candidate: 'What is the SDS for AF27', shouldMatch: true },
+  { question: 'Where can I get the MSDS for AF27?', candidate: 'Where can I get the SDS for AF27?', shouldMatch: true },
+  { question: 'What is the viscosty of stearic acid?', candidate: 'What is the viscosity of stearic acid?', shouldMatch: true },
+  { question: 'What is the SDS for AF28?', candidate: 'What is the SDS for AF27?', shouldMatch: false },
+  // Negation flips the answer, so a negated question must never get the positive canned response
+  { question: 'Is Tego 280 not biodegradable?', candidate: 'Is Tego 280 biodegradable?', shouldMatch: false },
+  { question: 'Which products are not food safe?', candidate: 'Which products are food safe?', shouldMatch: false },
+  { question: "Isn't Tego 280 biodegradable?", candidate: 'Is Tego 280 biodegradable?', shouldMatch: false },
+  { question: 'Which grades are available without solvents?', candidate: 'Which grades are available with solvents?', shouldMatch: false },
+  { question: "Why isn't Tego 280 food safe?", candidate: 'Why is Tego 280 not food safe?', shouldMatch: true },
+];
+
+const settingsVariants: { name: string; settings: MatchSettings }[] = [
+  { name: 'fuzzy', settings: { threshold: DEFAULT_MATCH_THRESHOLD, useVectors: false, synonyms: parseSynonyms(DEFAULT_SYNONYMS) } },
+  { name: 'vectors', settings: { threshold: DEFAULT_MATCH_THRESHOLD, useVectors: true, synonyms: parseSynonyms(DEFAULT_SYNONYMS) } },
+];
+
+let failed = 0;
+for (const { name, settings } of settingsVariants) {
+  for (const matcherCase of CASES) {
+    const { score, method } = scoreQuestion(matcherCase.question, matcherCase.candidate, settings);
+    const passed = (score >= settings.threshold) === matcherCase.shouldMatch;
+    if (!passed) failed++;
+    console.log(
+      `${passed ? 'PASS' : 'FAIL'} [${name}] "${matcherCase.question}" vs "${matcherCase.candidate}": ` +
+      `${score.toFixed(3)} (${method}), expected ${matcherCase.shouldMatch ? 'a match' : 'no match'}`
+    );
+  }
+}
+
+const total = CASES.length * settingsVariants.length;
+console.log(`\n${total - failed}/${total} question pairs match as expected`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,706 @@
+import type { Response } from "express";
+import { storage, applyMockResponseDraft } from "./storage";
+import { ragService, type DisambiguationData } from "./ragService";
+import { apiLogger, type ApiLogEntry } from "./logger";
+import { getLlmProvider, type LlmMessage, type LlmProvider, type LlmUsage } from "./llmProvider";
+import { buildTokenUsage, sumTokenUsage, type TokenUsage } from "./tokenUsage";
+import { ChatTrace } from "./chatTrace";
+import { generateSuggestions, type SuggestionContext } from "./followUpSuggestions";
+import { findBestMatch, questionsMatch, type MatchCandidate, type MatchSettings } from "./questionMatcher";
+import type { ChatResponse, Citation, NormalChatResponse, DisambiguationChatResponse, ChatStreamStartEvent, ChatStreamEvent, FollowUpResponseData, MockResponse } from "@shared/schema";
+
+const RAG_CONTENT_THRESHOLD = 100; // Shorter RAG content is treated as "no relevant content"
+
+const FALLBACK_CONTENT = "I apologize, but I'm currently unable to process your question due to a technical issue. Please try again later or contact support if the problem persists.";
+const EMPTY_COMPLETION_CONTENT = "I apologize, but I couldn't generate a response at this time.";
+
+export interface GenerationSettings {
+  provider: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface ChatOrchestratorDependencies {
+  getSystemPrompt(preview?: boolean): Promise<string>;
+  getGenerationSettings(): Promise<GenerationSettings>;
+  getMatchSettings(): Promise<MatchSettings>;
+  isTryAskingEnabled(): Promise<boolean>; // Gates generated suggestions on LLM answers
+}
+
+export interface ChatRequest {
+  question: string;
+  conversationId?: number; // An owned chat session, used for stored history and the RAG cache key
+  history?: any[]; // Prior turns sent by the client; takes precedence over stored history
+  user?: { id: number; username: string };
+  preview?: boolean; // Answer with unpublished drafts; only set for editors
+}
+
+interface MockLookup {
+  match?: MatchCandidate;
+  mockResponses: MockResponse[]; // Responses visible to this request, which linked follow-ups may point at
+}
+
+// Callbacks used by the streaming adapter; without them the LLM answer is generated in one call
+export interface ChatStreamHandlers {
+  onStart(event: ChatStreamStartEvent): void;
+  onContent(content: string): void;
+}
+
+export class LlmNotConfiguredError extends Error {
+  constructor(providerName: string) {
+    super(providerName === 'openai' ? "OpenAI API key not configured" : `LLM provider '${providerName}' is not configured`);
+    this.name = "LlmNotConfiguredError";
+    Object.setPrototypeOf(this, LlmNotConfiguredError.prototype);
+  }
+}
+
+type LogUser = Pick<ApiLogEntry, 'userId' | 'username'>;
+type RagResult = Awaited<ReturnType<typeof ragService.searchWithProcessing>>;
+
+// Bounded window of prior turns included in the OpenAI call for follow-up questions
+const MAX_HISTORY_MESSAGES = 8;
+const MAX_HISTORY_MESSAGE_LENGTH = 2000;
+
+interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Helper function to collect prior turns, either sent by the client or looked up from the stored session
+async function getConversationHistory(question: string, sessionId?: number, history?: any[]): Promise<ConversationTurn[]> {
+  let turns: ConversationTurn[] = [];
+
+  if (Array.isArray(history)) {
+    turns = history
+      .filter(turn => (turn?.role === 'user' || turn?.role === 'assistant') && typeof turn.content === 'string')
+      .map(turn => ({ role: turn.role, content: turn.content }));
+  } else if (sessionId) {
+    const storedMessages = await storage.getChatMessages(sessionId);
+    turns = storedMessages.map(message => ({
+      role: message.sender === 'user' ? 'user' as const : 'assistant' as const,
+      content: message.content
+    }));
+  }
+
+  // Drop empty turns (e.g. disambiguation cards) and the current question if it was already saved
+  turns = turns.filter(turn => turn.content.trim().length > 0);
+  const lastTurn = turns[turns.length - 1];
+  if (lastTurn && lastTurn.role === 'user' && questionsMatch(lastTurn.content, question)) {
+    turns = turns.slice(0, -1);
+  }
+
+  return turns.slice(-MAX_HISTORY_MESSAGES).map(turn => ({
+    role: turn.role,
+    content: turn.content.length > MAX_HISTORY_MESSAGE_LENGTH
+      ? turn.content.substring(0, MAX_HISTORY_MESSAGE_LENGTH) + '...'
+      : turn.content
+  }));
+}
+
+// How many levels of linked follow-ups are resolved into a mock response; deeper answers have no chips
+const MAX_FOLLOW_UP_DEPTH = 3;
+
+// Helper function to build the answer for a custom follow-up chip, which has no follow-ups of its own
+function customFollowUp(content: string): FollowUpResponseData {
+  return {
+    content,
+    tryAskingPrompts: [],
+    showTryAsking: false,
+    showFollowUp: false,
+    followUpQuestion: '',
+    followUpChips: [],
+    followUpResponsesData: []
+  };
+}
+
+// Helper function to resolve the answer behind each follow-up chip, following linked responses
+// recursively until the depth limit (links may loop, so the limit is what ends the recursion)
+function resolveFollowUpResponses(mockResponse: MockResponse, linkableResponses: MockResponse[], depth = 1): {
+  followUpChips: string[];
+  followUpResponses: string[];
+  followUpResponsesData: FollowUpResponseData[];
+} {
+  const followUpChips = mockResponse.followUpChips || [];
+
+  const followUpResponsesData = followUpChips.map((chip, i) => {
+    const customContent = mockResponse.followUpResponses?.[i] || '';
+    if (mockResponse.followUpResponseTypes?.[i] !== 'existing') {
+      return customFollowUp(customContent);
+    }
+
+    const linkedResponseId = mockResponse.followUpLinkedResponseIds?.[i];
+    const linkedResponse = linkedResponseId
+      ? linkableResponses.find(candidate => candidate.id === linkedResponseId)
+      : undefined;
+    if (!linkedResponse) {
+      // Fallback to the chip's custom text; the admin follow-up check lists these links
+      console.warn(linkedResponseId
+        ? `Follow-up chip "${chip}" on mock response #${mockResponse.id} links to missing response #${linkedResponseId}`
+        : `Follow-up chip "${chip}" on mock response #${mockResponse.id} has no linked response`);
+      return customFollowUp(customContent);
+    }
+
+    const canNest = depth < MAX_FOLLOW_UP_DEPTH;
+    const nested = canNest
+      ? resolveFollowUpResponses(linkedResponse, linkableResponses, depth + 1)
+      : { followUpChips: [], followUpResponsesData: [] };
+    return {
+      content: linkedResponse.response,
+      tryAskingPrompts: linkedResponse.tryAskingPrompts || [],
+      showTryAsking: linkedResponse.showTryAsking || false,
+      showFollowUp: canNest && (linkedResponse.showFollowUp || false),
+      followUpQuestion: linkedResponse.followUpQuestion || '',
+      followUpChips: nested.followUpChips,
+      followUpResponsesData: nested.followUpResponsesData
+    };
+  });
+
+  return {
+    followUpChips,
+    followUpResponses: followUpResponsesData.map(data => data.content),
+    followUpResponsesData
+  };
+}
+
+/**
+ * Single chat pipeline shared by every chat endpoint:
+ * mock lookup → RAG search (with disambiguation) → LLM completion → suggested questions → logging
+ */
+export class ChatOrchestrator {
+  constructor(private readonly deps: ChatOrchestratorDependencies) {}
+
+  /**
+   * Answer a question. Pass stream handlers to receive the LLM answer incrementally;
+   * mock and disambiguation responses are always returned whole.
+   */
+  public async respond(request: ChatRequest, stream?: ChatStreamHandlers): Promise<ChatResponse> {
+    const trace = new ChatTrace();
+    const { question, conversationId } = request;
+    const logUser: LogUser = { userId: request.user?.id, username: request.user?.username };
+
+    const conversationHistory = await trace.run(
+      'history',
+      () => getConversationHistory(question, conversationId, request.history),
+      turns => ({
+        status: 'ok',
+        detail: `${turns.length} prior turns`,
+        data: { from: Array.isArray(request.history) ? 'client' : conversationId ? 'session' : 'none', turns: turns.length }
+      })
+    );
+    const dialogCount = conversationHistory.filter(turn => turn.role === 'user').length + 1;
+
+    // Step 1: Curated mock responses win over everything else
+    const mockLookup = await trace.run(
+      'mock-lookup',
+      () => this.findMockResponse(question, !!request.preview),
+      ({ match }) => ({
+        status: 'ok',
+        detail: (match ? `Matched mock response #${match.mockResponse.id} (${match.method}, ${match.score.toFixed(2)})` : 'No match')
+          + (request.preview ? ' (previewing drafts)' : ''),
+        data: match ? {
+          mockResponseId: match.mockResponse.id,
+          question: match.mockResponse.question,
+          matchedQuestion: match.matchedQuestion !== match.mockResponse.question ? match.matchedQuestion : undefined,
+          method: match.method,
+          score: match.score,
+          threshold: match.threshold,
+          preview: request.preview || undefined
+        } : undefined
+      })
+    );
+    if (mockLookup.match) {
+      const response: NormalChatResponse = {
+        ...this.buildMockResponse(mockLookup.match.mockResponse, mockLookup.mockResponses),
+        processingTime: trace.elapsed()
+      };
+      apiLogger.log({
+        ...logUser,
+        userQuestion: question,
+        systemPrompt: '',
+        openaiMessages: [],
+        response: response.content,
+        source: 'mock',
+        processingTime: response.processingTime,
+        trace: trace.toJSON()
+      });
+      return response;
+    }
+
+    // Step 2: RAG search, which may ask the user to pick between several products
+    const ragResult = await this.searchRag(question, dialogCount, conversationId, trace);
+    const disambiguationDetected = !!(ragResult?.success && ragResult.disambiguationDetected);
+    const disambiguationData = disambiguationDetected ? ragResult?.disambiguationData : undefined;
+    const disambiguationParsed = disambiguationData ? toDisambiguationLog(disambiguationData) : undefined;
+
+    if (disambiguationDetected) {
+      console.log('RAG Search: DISAMBIGUATION DETECTED - Multiple product matches found');
+    }
+
+    if (disambiguationData && disambiguationData.options.length > 0) {
+      console.log('RAG Search: Returning disambiguation response with', disambiguationData.options.length, 'options');
+
+      const response: DisambiguationChatResponse = {
+        type: 'disambiguation',
+        source: 'rag-disambiguation',
+        disambiguationData,
+        processingTime: trace.elapsed(),
+        ragResponseTime: ragResult?.responseTime || 0
+      };
+
+      apiLogger.log({
+        ...logUser,
+        userQuestion: question,
+        systemPrompt: await this.deps.getSystemPrompt(request.preview),
+        openaiMessages: [], // No LLM messages for disambiguation
+        response: `Disambiguation response with ${disambiguationData.options.length} options`,
+        source: 'rag-disambiguation',
+        processingTime: response.processingTime,
+        ragResponseTime: response.ragResponseTime,
+        disambiguationDetected: true,
+        disambiguationContent: ragResult?.rawResponse,
+        disambiguationParsed,
+        trace: trace.toJSON()
+      });
+
+      return response;
+    }
+
+    let ragContent = '';
+    let ragResponseTime = 0;
+    let citations: Citation[] = [];
+    if (ragResult?.success && ragResult.processedContent && ragResult.processedContent.length > RAG_CONTENT_THRESHOLD) {
+      ragContent = ragResult.processedContent;
+      ragResponseTime = ragResult.responseTime || 0;
+      citations = ragResult.citations || [];
+
+      console.log('RAG Search: Found relevant content, length:', ragContent.length);
+      console.log('RAG Search: Sources:', ragResult.sources?.length || 0);
+      console.log('RAG Search: Average score:', ragResult.averageScore?.toFixed(2) || 'N/A');
+    } else if (ragResult) {
+      console.log('RAG Search: No relevant content found or content too short');
+    }
+
+    // Step 3: LLM completion, with RAG context when we have it
+    const generationSettings = await this.deps.getGenerationSettings();
+    const llmProvider = getLlmProvider(generationSettings.provider);
+    if (!llmProvider.isConfigured()) {
+      throw new LlmNotConfiguredError(llmProvider.name);
+    }
+
+    const systemPrompt = await this.deps.getSystemPrompt(request.preview);
+    const messages = buildMessages(systemPrompt, ragContent, conversationHistory, question);
+    const source = ragContent.length > RAG_CONTENT_THRESHOLD ? 'openai-rag' : 'openai';
+
+    let content = '';
+    let model = generationSettings.model;
+    let usage: LlmUsage | null = null;
+    const llmStart = Date.now();
+    let firstChunkAt: number | undefined;
+
+    try {
+      const completionRequest = {
+        model: generationSettings.model,
+        messages,
+        maxTokens: generationSettings.maxTokens,
+        temperature: generationSettings.temperature,
+      };
+
+      if (stream) {
+        const chunks = await llmProvider.stream(completionRequest);
+        stream.onStart({
+          type: 'start',
+          source,
+          startTime: Date.now(),
+          ragResponseTime,
+          ragContentLength: ragContent.length,
+          citations
+        });
+
+        for await (const chunk of chunks) {
+          if (chunk.usage) usage = chunk.usage;
+          if (chunk.model) model = chunk.model;
+          if (chunk.content) {
+            firstChunkAt = firstChunkAt ?? Date.now();
+            content += chunk.content;
+            stream.onContent(chunk.content);
+          }
+        }
+      } else {
+        const completion = await llmProvider.complete(completionRequest);
+        content = completion.content || EMPTY_COMPLETION_CONTENT;
+        model = completion.model;
+        usage = completion.usage;
+      }
+    } catch (llmError: any) {
+      console.error('LLM provider error:', llmError);
+      trace.record('llm', 'error', {
+        startedAt: llmStart,
+        durationMs: Date.now() - llmStart,
+        detail: llmError.message,
+        data: { provider: llmProvider.name, model, streamed: !!stream }
+      });
+
+      const response: NormalChatResponse = {
+        ...emptyFollowUps(),
+        type: 'normal',
+        source: 'fallback',
+        content: FALLBACK_CONTENT,
+        processingTime: trace.elapsed(),
+        error: llmError.message
+      };
+
+      apiLogger.log({
+        ...logUser,
+        userQuestion: question,
+        systemPrompt,
+        ragContent: ragContent || undefined,
+        openaiMessages: messages,
+        response: response.content,
+        source: 'fallback',
+        processingTime: response.processingTime,
+        ragResponseTime,
+        ragContentLength: ragContent ? ragContent.length : undefined,
+        disambiguationDetected,
+        disambiguationContent: disambiguationDetected ? ragResult?.rawResponse : undefined,
+        disambiguationParsed,
+        trace: trace.toJSON()
+      });
+
+      return response;
+    }
+
+    const tokenUsage = buildTokenUsage(model, usage, messages, content);
+    trace.record('llm', 'ok', {
+      startedAt: llmStart,
+      durationMs: Date.now() - llmStart,
+      detail: `${llmProvider.name} / ${model}`,
+      data: {
+        provider: llmProvider.name,
+        model,
+        streamed: !!stream,
+        timeToFirstChunkMs: firstChunkAt !== undefined ? firstChunkAt - llmStart : undefined,
+        promptTokens: tokenUsage.promptTokens,
+        completionTokens: tokenUsage.completionTokens,
+        tokensEstimated: tokenUsage.estimated
+      }
+    });
+
+    // Step 4: Suggested next questions, shown as try-asking prompts
+    const { suggestions, tokenUsage: suggestionTokenUsage } = await this.suggestFollowUps(llmProvider, model, {
+      question,
+      answer: content,
+      sources: ragContent ? ragResult?.sources || [] : []
+    }, trace);
+
+    const response: NormalChatResponse = {
+      ...emptyFollowUps(),
+      ...(suggestions.length > 0 ? { tryAskingPrompts: suggestions, showTryAsking: true } : {}),
+      type: 'normal',
+      source,
+      content,
+      processingTime: trace.elapsed(),
+      ragResponseTime,
+      ragContentLength: ragContent.length,
+      citations,
+    };
+
+    apiLogger.log({
+      ...logUser,
+      userQuestion: question,
+      systemPrompt,
+      ragContent: ragContent || undefined,
+      openaiMessages: messages,
+      response: content,
+      source,
+      processingTime: response.processingTime,
+      ragResponseTime,
+      ragContentLength: ragContent ? ragContent.length : undefined,
+      disambiguationDetected,
+      disambiguationContent: disambiguationDetected ? ragResult?.rawResponse : undefined,
+      disambiguationParsed,
+      tokenUsage: sumTokenUsage(tokenUsage, suggestionTokenUsage), // The suggestions call is billed too
+      trace: trace.toJSON()
+    });
+
+    return response;
+  }
+
+  // Generate try-asking prompts for an LLM answer; a failure or timeout only costs the suggestions, never the answer
+  private async suggestFollowUps(
+    provider: LlmProvider,
+    model: string,
+    context: SuggestionContext,
+    trace: ChatTrace
+  ): Promise<{ suggestions: string[]; tokenUsage?: TokenUsage }> {
+    if (!context.answer.trim()) {
+      return { suggestions: [] };
+    }
+    if (!(await this.deps.isTryAskingEnabled())) {
+      trace.record('suggestions', 'skipped', { durationMs: 0, detail: 'Try asking is disabled' });
+      return { suggestions: [] };
+    }
+
+    try {
+      const generated = await trace.run(
+        'suggestions',
+        () => generateSuggestions(provider, model, context),
+        result => ({
+          status: 'ok',
+          detail: `${result.suggestions.length} suggested questions`,
+          data: {
+            model: result.model,
+            promptTokens: result.tokenUsage.promptTokens,
+            completionTokens: result.tokenUsage.completionTokens,
+            tokensEstimated: result.tokenUsage.estimated
+          }
+        })
+      );
+      return { suggestions: generated.suggestions, tokenUsage: generated.tokenUsage };
+    } catch (error) {
+      console.error('Suggested question generation error:', error);
+      return { suggestions: [] };
+    }
+  }
+
+  // Search Knowde once; the result is reused for disambiguation, LLM context and logging
+  private async searchRag(question: string, dialogCount: number, conversationId: number | undefined, trace: ChatTrace): Promise<RagResult | undefined> {
+    if (!ragService.isConfigured()) {
+      trace.record('rag-search', 'skipped', { durationMs: 0, detail: 'RAG service not configured' });
+      return undefined;
+    }
+
+    try {
+      console.log('RAG Search: Attempting to find relevant content for:', question);
+      return await trace.run(
+        'rag-search',
+        () => ragService.searchWithProcessing({
+          message: question,
+          dialogCount,
+          conversationId: conversationId ? String(conversationId) : undefined
+        }),
+        result => ({
+          status: result.success ? 'ok' : result.circuitOpen ? 'skipped' : 'error',
+          detail: result.success
+            ? `${result.source === 'knowde-cached' ? 'Cache hit' : 'Knowde'} · ${result.processedContent?.length || 0} chars`
+            : result.error,
+          data: {
+            cached: result.source === 'knowde-cached',
+            responseTime: result.responseTime,
+            attempts: result.attempts,
+            circuitOpen: !!result.circuitOpen,
+            contentLength: result.processedContent?.length || 0,
+            sources: result.sources?.length || 0,
+            averageScore: result.averageScore,
+            productCount: result.productCount,
+            disambiguationDetected: !!result.disambiguationDetected,
+            optionsCount: result.disambiguationData?.options.length || 0
+          }
+        })
+      );
+    } catch (ragError: any) {
+      console.error('RAG Search: Error during search:', ragError.message);
+      // Continue to the LLM if RAG fails
+      return undefined;
+    }
+  }
+
+  // Exact question match first, then the best fuzzy match that clears its threshold.
+  // Users only see published responses; previews see every response with its draft applied.
+  private async findMockResponse(question: string, preview: boolean): Promise<MockLookup> {
+    const [mockResponses, matchSettings] = await Promise.all([
+      preview
+        ? storage.getMockResponses().then(rows => rows.map(applyMockResponseDraft))
+        : storage.getPublishedMockResponses(),
+      this.deps.getMatchSettings()
+    ]);
+
+    const exactMatch = mockResponses.find(mockResponse => mockResponse.question === question);
+    if (exactMatch) {
+      return {
+        match: {
+          mockResponse: exactMatch,
+          matchedQuestion: exactMatch.question,
+          score: 1,
+          method: 'exact',
+          threshold: exactMatch.matchThreshold ?? matchSettings.threshold,
+          matched: true
+        },
+        mockResponses
+      };
+    }
+    return { match: findBestMatch(question, mockResponses, matchSettings), mockResponses };
+  }
+
+  private buildMockResponse(mockResponse: MockResponse, linkableResponses: MockResponse[]): Omit<NormalChatResponse, 'processingTime'> {
+    // Resolve follow-up responses to handle linked responses
+    const resolvedFollowUps = resolveFollowUpResponses(mockResponse, linkableResponses);
+
+    return {
+      type: 'normal',
+      source: 'mock',
+      content: mockResponse.response,
+      tryAskingPrompts: mockResponse.tryAskingPrompts || [],
+      showTryAsking: mockResponse.showTryAsking || false,
+      showFollowUp: mockResponse.showFollowUp || false,
+      followUpQuestion: mockResponse.followUpQuestion || '',
+      followUpChips: resolvedFollowUps.followUpChips,
+      followUpResponses: resolvedFollowUps.followUpResponses,
+      followUpResponsesData: resolvedFollowUps.followUpResponsesData
+    };
+  }
+}
+
+// Helper function to assemble the LLM messages: system prompt, RAG context, prior turns, then the question
+function buildMessages(systemPrompt: string, ragContent: string, history: ConversationTurn[], question: string): LlmMessage[] {
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content: systemPrompt
+    }
+  ];
+
+  // Add RAG context if available - positioned immediately after system prompt for priority
+  if (ragContent.length > RAG_CONTENT_THRESHOLD) {
+    messages.push({
+      role: "system",
+      content: `RAG DATA SOURCE - Context block from the provided RAG data source:\n\n${ragContent}\n\nThis is the primary data source referenced in your instructions. You MUST base your response primarily on this specific product information. Integrate these exact products, companies, and technical specifications as the foundation of your answer.`
+    });
+  }
+
+  // Prior turns of the conversation so follow-up questions keep their context
+  messages.push(...history);
+
+  messages.push({
+    role: "user",
+    content: question
+  });
+
+  return messages;
+}
+
+// Helper function for the follow-up fields of LLM answers, which never have curated follow-ups
+// (generated suggestions are added as try-asking prompts)
+function emptyFollowUps() {
+  return {
+    tryAskingPrompts: [],
+    showTryAsking: false,
+    showFollowUp: false,
+    followUpQuestion: '',
+    followUpChips: [],
+    followUpResponses: []
+  };
+}
+
+// Helper function to summarise disambiguation options for the API log
+function toDisambiguationLog(data: DisambiguationData): ApiLogEntry['disambiguationParsed'] {
+  return {
+    optionsCount: data.options.length,
+    options: data.options.map(opt => ({
+      name: opt.name,
+      company: opt.company,
+      description: opt.description
+    })),
+    instructions: data.instructions
+  };
+}
+
+// Helper functions for smart chunking
+function isSemanticBoundary(content: string): boolean {
+  // Check for sentence endings, paragraph breaks, or list item completions
+  const semanticEndings = ['.', '!', '?', '</p>', '</li>', '</h3>', '</h4>', '</strong>', '</em>'];
+  return semanticEndings.some(ending => content.trim().endsWith(ending));
+}
+
+function isCompleteHTMLElement(content: string): boolean {
+  // Check if content ends with a complete HTML element
+  const htmlTagPattern = /<\/[a-zA-Z][a-zA-Z0-9]*>$/;
+  return htmlTagPattern.test(content.trim());
+}
+
+function sanitizeForJSON(content: string): string {
+  // Ensure content can be safely serialized to JSON
+  try {
+    JSON.stringify(content);
+    return content;
+  } catch {
+    // Remove problematic characters
+    return content.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
+  }
+}
+
+
+/**
+ * Streaming adapter: answers over Server-Sent Events (start → content… → complete) once the
+ * LLM starts streaming, and as plain JSON for mock, disambiguation and pre-stream fallback responses
+ */
+export async function streamChatResponse(orchestrator: ChatOrchestrator, request: ChatRequest, res: Response): Promise<void> {
+  let started = false;
+  let fullContent = '';
+  let contentBuffer = '';
+  let chunkCounter = 0;
+
+  const writeEvent = (event: ChatStreamEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const flush = () => {
+    if (contentBuffer.length === 0) return;
+    try {
+      writeEvent({
+        type: 'content',
+        content: sanitizeForJSON(contentBuffer),
+        fullContent: sanitizeForJSON(fullContent)
+      });
+    } catch (jsonError) {
+      // If JSON serialization fails, skip this chunk and continue
+      console.warn('JSON serialization error, skipping chunk:', jsonError);
+    }
+    contentBuffer = '';
+    chunkCounter = 0;
+  };
+
+  const response = await orchestrator.respond(request, {
+    onStart(event) {
+      started = true;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      });
+      writeEvent(event);
+    },
+    onContent(content) {
+      fullContent += content;
+      contentBuffer += content;
+      chunkCounter++;
+
+      // Smart chunking: send when we have complete semantic units or buffer is large
+      const shouldSendChunk =
+        chunkCounter >= 5 || // Send every 5 tokens
+        contentBuffer.length >= 50 || // Send when buffer reaches 50 characters
+        isSemanticBoundary(contentBuffer) || // Send at semantic boundaries
+        isCompleteHTMLElement(contentBuffer); // Send when HTML element is complete
+
+      if (shouldSendChunk) {
+        flush();
+      }
+    },
+  });
+
+  if (!started) {
+    res.json(response);
+    return;
+  }
+
+  // Send any remaining content in buffer, then the final response
+  flush();
+  try {
+    writeEvent({ ...response, type: 'complete' } as ChatStreamEvent);
+  } catch (completionError) {
+    console.error('Completion data serialization error:', completionError);
+    res.write(`data: ${JSON.stringify({ type: 'complete', content: fullContent })}\n\n`);
+  }
+  res.end();
+}
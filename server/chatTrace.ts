@@ -0,0 +1,79 @@
+// Per-request record of each chat pipeline stage, stored with the API log entry
+
+export type TraceStageStatus = 'ok' | 'skipped' | 'error';
+
+export interface TraceStage {
+  name: string;
+  status: TraceStageStatus;
+  startOffsetMs: number; // Relative to the start of the request
+  durationMs: number;
+  detail?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface ChatTraceData {
+  startedAt: string;
+  totalMs: number;
+  stages: TraceStage[];
+}
+
+export class ChatTrace {
+  private readonly startTime = Date.now();
+  private readonly stages: TraceStage[] = [];
+
+  /**
+   * Time an async stage and record it; errors are recorded and rethrown
+   */
+  async run<T>(
+    name: string,
+    fn: () => Promise<T>,
+    describe?: (result: T) => Pick<TraceStage, 'status' | 'detail' | 'data'> | void
+  ): Promise<T> {
+    const stageStart = Date.now();
+    try {
+      const result = await fn();
+      this.stages.push({
+        name,
+        status: 'ok',
+        startOffsetMs: stageStart - this.startTime,
+        durationMs: Date.now() - stageStart,
+        ...(describe?.(result) || {}),
+      });
+      return result;
+    } catch (error: any) {
+      this.stages.push({
+        name,
+        status: 'error',
+        startOffsetMs: stageStart - this.startTime,
+        durationMs: Date.now() - stageStart,
+        detail: error?.message || String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a stage that was skipped or timed by the caller
+   */
+  record(name: string, status: TraceStageStatus, details: Omit<TraceStage, 'name' | 'status' | 'startOffsetMs'> & { startedAt?: number } = { durationMs: 0 }) {
+    const { startedAt, ...rest } = details;
+    this.stages.push({
+      name,
+      status,
+      startOffsetMs: (startedAt ?? Date.now()) - this.startTime,
+      ...rest,
+    });
+  }
+
+  elapsed(): number {
+    return Date.now() - this.startTime;
+  }
+
+  toJSON(): ChatTraceData {
+    return {
+      startedAt: new Date(this.startTime).toISOString(),
+      totalMs: this.elapsed(),
+      stages: this.stages,
+    };
+  }
+}
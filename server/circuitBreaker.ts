@@ -0,0 +1,108 @@
+// Stops calling a failing dependency for a cool-down period, then lets a single trial request through
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long the circuit stays open before a trial request is allowed
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  openedAt: string | null;
+  retryAt: string | null; // When the next trial request is allowed, while open
+  lastError: string | null;
+  lastFailureAt: string | null;
+  totalFailures: number;
+  totalSkipped: number; // Requests refused while open
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+  private lastFailureAt: number | null = null;
+  private totalFailures = 0;
+  private totalSkipped = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a request may go out now. Once the cool-down has passed the circuit is half-open
+   * and only one trial request is let through until it succeeds or fails.
+   */
+  public tryAcquire(): boolean {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    this.totalSkipped++;
+    return false;
+  }
+
+  public recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('Circuit breaker: Closed after a successful request');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error;
+    this.lastFailureAt = Date.now();
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit breaker: Opened for ${this.options.cooldownMs}ms after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Close the circuit and forget the failure streak; totals are kept
+   */
+  public reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    // Report half-open once the cool-down has passed, even before the next request arrives
+    const cooledDown = this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.cooldownMs;
+    return {
+      state: cooledDown ? 'half-open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.options.failureThreshold,
+      cooldownMs: this.options.cooldownMs,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.state === 'open' && this.openedAt !== null ? new Date(this.openedAt + this.options.cooldownMs).toISOString() : null,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt !== null ? new Date(this.lastFailureAt).toISOString() : null,
+      totalFailures: this.totalFailures,
+      totalSkipped: this.totalSkipped,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+// Local stand-in for the Knowde conversation API, answering from JSON fixtures so RAG works offline
+import fs from "fs";
+import path from "path";
+import type { Express } from "express";
+
+export const FAKE_KNOWDE_PATH = '/fake-knowde/api/conversation';
+// The server always listens on port 5000 (see index.ts), so it can call its own stand-in
+export const FAKE_KNOWDE_URL = `http://127.0.0.1:5000${FAKE_KNOWDE_PATH}`;
+
+const FIXTURE_DIR = path.resolve(process.cwd(), 'server', 'fixtures', 'knowde');
+const DEFAULT_FIXTURE_NAME = 'default';
+
+export interface KnowdeFixture {
+  name: string;
+  match: string[]; // Case-insensitive phrases; the first fixture with a phrase in the message answers it
+  delayMs?: number; // Wait before answering, e.g. to exercise timeouts
+  status?: number; // HTTP status to answer with; 200 when omitted
+  response: unknown; // Body returned as JSON, shaped like a real Knowde response
+}
+
+/**
+ * Whether the stand-in is served: always outside production, and in production only with KNOWDE_FAKE=true
+ */
+export function isFakeKnowdeEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.KNOWDE_FAKE === 'true';
+}
+
+/**
+ * Whether a Knowde base URL is the stand-in this server hosts. Only true while the stand-in is served,
+ * so a URL that merely looks like it never skips the credential check.
+ */
+export function isFakeKnowdeUrl(url: string): boolean {
+  if (!isFakeKnowdeEnabled()) {
+    return false;
+  }
+  try {
+    return new URL(url).href === new URL(FAKE_KNOWDE_URL).href;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read every fixture file, in file name order; files that do not parse are skipped with a warning
+ */
+export function loadFakeKnowdeFixtures(): KnowdeFixture[] {
+  if (!fs.existsSync(FIXTURE_DIR)) {
+    return [];
+  }
+
+  return fs.readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      try {
+        const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'));
+        return [{ ...fixture, name: fixture.name || path.basename(file, '.json'), match: fixture.match || [] }];
+      } catch (error: any) {
+        console.warn(`Fake Knowde: Skipping fixture ${file}: ${error.message}`);
+        return [];
+      }
+    });
+}
+
+/**
+ * The fixture that answers a message, falling back to the one named "default"
+ */
+export function findFakeKnowdeFixture(fixtures: KnowdeFixture[], message: string): KnowdeFixture | undefined {
+  const normalized = message.toLowerCase();
+  return fixtures.find(fixture => fixture.match.some(phrase => normalized.includes(phrase.toLowerCase())))
+    || fixtures.find(fixture => fixture.name === DEFAULT_FIXTURE_NAME);
+}
+
+/**
+ * Serve the stand-in at FAKE_KNOWDE_PATH. Fixtures are re-read on every request, so edits apply immediately.
+ */
+export function registerFakeKnowde(app: Express): void {
+  app.post(FAKE_KNOWDE_PATH, async (req, res) => {
+    const { message } = req.body || {};
+    if (!message || typeof message !== 'string') {
+      return res.status(400).json({ error: "message is required" });
+    }
+
+    const fixture = findFakeKnowdeFixture(loadFakeKnowdeFixtures(), message);
+    if (!fixture) {
+      return res.json({ result: [] });
+    }
+
+    if (fixture.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, fixture.delayMs));
+    }
+    res.setHeader('x-fake-knowde-fixture', fixture.name);
+    res.status(fixture.status || 200).json(fixture.response);
+  });
+
+  console.log(`Fake Knowde: Serving fixtures from ${FIXTURE_DIR} at ${FAKE_KNOWDE_PATH}`);
+}
@@ -0,0 +1,243 @@
+// Follow-up links between mock responses: the graph they form and the problems in it
+import type { MockResponse } from "@shared/schema";
+import { questionsMatch } from "./questionMatcher";
+
+export interface FollowUpLink {
+  from: number;
+  to: number | null; // null when the chip links to nothing (no id, or 0 after an unresolved import)
+  chip: string;
+  index: number; // Position of the chip on the source response
+}
+
+export type FollowUpIssueType = 'dangling-link' | 'cycle' | 'unreachable';
+
+export interface FollowUpIssue {
+  type: FollowUpIssueType;
+  severity: 'error' | 'warning';
+  mockResponseId: number;
+  message: string;
+  chip?: string;
+  cycle?: number[]; // Response ids around the loop, starting and ending with mockResponseId
+}
+
+export interface FollowUpTreeNode {
+  id: number | null;
+  question: string;
+  chip?: string; // Label of the chip that leads here from the parent
+  status?: string;
+  missing?: boolean; // The link points at a response that does not exist
+  repeated?: boolean; // Already shown higher up this branch, so the tree stops here instead of looping
+  truncated?: boolean; // Has follow-ups below the depth limit
+  children: FollowUpTreeNode[];
+}
+
+export const MAX_FOLLOW_UP_TREE_DEPTH = 6;
+
+// Publishing would leave published follow-up chips linking to responses chat cannot see
+export class UnpublishedLinkError extends Error {
+  constructor(
+    public readonly referencedBy: Array<{ id: number; question: string }>, // Responses being published
+    public readonly targets: Array<{ id: number | null; question: string | null }> // What they link to; null when missing
+  ) {
+    super(
+      `Follow-up chips on ${referencedBy.map(response => `"${response.question}"`).join(', ')} link to responses that are not published: ` +
+      `${targets.map(target => target.question ? `"${target.question}"` : `#${target.id ?? '?'}`).join(', ')}. Publish those too or remove the links first.`
+    );
+    this.name = "UnpublishedLinkError";
+    Object.setPrototypeOf(this, UnpublishedLinkError.prototype);
+  }
+}
+
+/**
+ * Every follow-up chip that links to another response ('existing' response type)
+ */
+export function getFollowUpLinks(mockResponses: MockResponse[]): FollowUpLink[] {
+  return mockResponses.flatMap(mockResponse =>
+    (mockResponse.followUpChips || []).flatMap((chip, index) => {
+      if (mockResponse.followUpResponseTypes?.[index] !== 'existing') return [];
+      const linkedId = mockResponse.followUpLinkedResponseIds?.[index];
+      return [{ from: mockResponse.id, to: linkedId ? linkedId : null, chip, index }];
+    })
+  );
+}
+
+/**
+ * Other responses whose follow-up chips link to the given response
+ */
+export function findReferencingResponses(id: number, mockResponses: MockResponse[]): MockResponse[] {
+  const referencingIds = new Set(
+    getFollowUpLinks(mockResponses)
+      .filter(link => link.to === id && link.from !== id)
+      .map(link => link.from)
+  );
+  return mockResponses.filter(mockResponse => referencingIds.has(mockResponse.id));
+}
+
+// Helper function to list follow-up chips whose link target does not exist
+function findDanglingLinks(links: FollowUpLink[], byId: Map<number, MockResponse>): FollowUpIssue[] {
+  return links
+    .filter(link => link.to === null || !byId.has(link.to))
+    .map(link => ({
+      type: 'dangling-link' as const,
+      severity: 'error' as const,
+      mockResponseId: link.from,
+      chip: link.chip,
+      message: link.to === null
+        ? `Follow-up chip "${link.chip}" is set to link to a response but has none selected`
+        : `Follow-up chip "${link.chip}" links to response #${link.to}, which does not exist`,
+    }));
+}
+
+// Helper function to find each distinct loop of follow-up links (depth-first search for back edges)
+function findCycles(links: FollowUpLink[], byId: Map<number, MockResponse>): FollowUpIssue[] {
+  const targets = new Map<number, number[]>();
+  for (const link of links) {
+    if (link.to === null || !byId.has(link.to)) continue;
+    targets.set(link.from, [...(targets.get(link.from) || []), link.to]);
+  }
+
+  const issues: FollowUpIssue[] = [];
+  const seenCycles = new Set<string>();
+  const finished = new Set<number>();
+  const path: number[] = [];
+
+  const visit = (id: number) => {
+    path.push(id);
+    for (const next of targets.get(id) || []) {
+      const loopStart = path.indexOf(next);
+      if (loopStart >= 0) {
+        const loop = path.slice(loopStart);
+        // The same loop is found from whichever response the search entered it; report it once
+        const key = [...loop].sort((a, b) => a - b).join(',');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          const questions = [...loop, next].map(loopId => `"${byId.get(loopId)?.question}"`);
+          issues.push({
+            type: 'cycle',
+            severity: 'warning',
+            mockResponseId: next,
+            cycle: [...loop, next],
+            message: `Follow-ups loop back on themselves: ${questions.join(' → ')}`,
+          });
+        }
+      } else if (!finished.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    finished.add(id);
+  };
+
+  byId.forEach((_, id) => {
+    if (!finished.has(id)) visit(id);
+  });
+  return issues;
+}
+
+// Helper function to list responses that no suggested question or follow-up chip leads to
+function findUnreachable(
+  mockResponses: MockResponse[],
+  links: FollowUpLink[],
+  introQuestions: string[]
+): FollowUpIssue[] {
+  const suggestedQuestions = [
+    ...introQuestions,
+    ...mockResponses.flatMap(mockResponse => mockResponse.showTryAsking ? mockResponse.tryAskingPrompts || [] : []),
+  ];
+  const isSuggested = (mockResponse: MockResponse) =>
+    [mockResponse.question, ...(mockResponse.alternateQuestions || [])].some(phrasing =>
+      suggestedQuestions.some(suggestion => questionsMatch(suggestion, phrasing))
+    );
+
+  // Breadth-first from the responses users are offered, following linked chips
+  const reached = new Set(mockResponses.filter(isSuggested).map(mockResponse => mockResponse.id));
+  const queue = Array.from(reached);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const link of links) {
+      if (link.from === id && link.to !== null && !reached.has(link.to)) {
+        reached.add(link.to);
+        queue.push(link.to);
+      }
+    }
+  }
+
+  return mockResponses
+    .filter(mockResponse => !reached.has(mockResponse.id))
+    .map(mockResponse => ({
+      type: 'unreachable' as const,
+      severity: 'warning' as const,
+      mockResponseId: mockResponse.id,
+      message: `No intro question, try-asking prompt or follow-up chip leads to "${mockResponse.question}"; users only reach it by typing the question`,
+    }));
+}
+
+/**
+ * Check follow-up links for broken targets, loops, and responses nothing leads to
+ */
+export function validateFollowUpGraph(mockResponses: MockResponse[], introQuestions: string[]): FollowUpIssue[] {
+  const byId = new Map(mockResponses.map(mockResponse => [mockResponse.id, mockResponse]));
+  const links = getFollowUpLinks(mockResponses);
+  return [
+    ...findDanglingLinks(links, byId),
+    ...findCycles(links, byId),
+    ...findUnreachable(mockResponses, links, introQuestions),
+  ];
+}
+
+/**
+ * The follow-up tree below one response, stopping at repeats and at the depth limit
+ */
+export function buildFollowUpTree(
+  rootId: number,
+  mockResponses: MockResponse[],
+  maxDepth: number = MAX_FOLLOW_UP_TREE_DEPTH
+): FollowUpTreeNode | undefined {
+  const byId = new Map(mockResponses.map(mockResponse => [mockResponse.id, mockResponse]));
+  const linksFrom = new Map<number, FollowUpLink[]>();
+  for (const link of getFollowUpLinks(mockResponses)) {
+    linksFrom.set(link.from, [...(linksFrom.get(link.from) || []), link]);
+  }
+
+  const build = (id: number, ancestors: number[], chip?: string): FollowUpTreeNode => {
+    const mockResponse = byId.get(id)!;
+    const node: FollowUpTreeNode = { id, question: mockResponse.question, chip, status: mockResponse.status, children: [] };
+    const links = linksFrom.get(id) || [];
+
+    if (ancestors.includes(id)) {
+      return { ...node, repeated: true };
+    }
+    if (ancestors.length >= maxDepth) {
+      return { ...node, truncated: links.length > 0 };
+    }
+
+    node.children = links.map(link =>
+      link.to !== null && byId.has(link.to)
+        ? build(link.to, [...ancestors, id], link.chip)
+        : { id: link.to, question: '', chip: link.chip, missing: true, children: [] }
+    );
+    return node;
+  };
+
+  return byId.has(rootId) ? build(rootId, []) : undefined;
+}
+
+/**
+ * Check that every linked follow-up chip of a response being saved points at an existing response,
+ * returning an error message when one does not
+ */
+export function validateFollowUpTargets(
+  values: Pick<MockResponse, 'followUpChips' | 'followUpResponseTypes' | 'followUpLinkedResponseIds'>,
+  mockResponses: MockResponse[]
+): string | null {
+  const existingIds = new Set(mockResponses.map(mockResponse => mockResponse.id));
+  const chips = values.followUpChips || [];
+  for (let index = 0; index < chips.length; index++) {
+    if (values.followUpResponseTypes?.[index] !== 'existing') continue;
+    const linkedId = values.followUpLinkedResponseIds?.[index];
+    if (!linkedId || !existingIds.has(linkedId)) {
+      return `Follow-up chip "${chips[index]}" must link to an existing response`;
+    }
+  }
+  return null;
+}
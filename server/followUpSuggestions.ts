@@ -0,0 +1,122 @@
+// Suggested next questions for LLM answers, which have no curated try-asking prompts
+import type { LlmMessage, LlmProvider } from "./llmProvider";
+import { questionsMatch } from "./questionMatcher";
+import { buildTokenUsage, type TokenUsage } from "./tokenUsage";
+
+export const MIN_SUGGESTIONS = 2;
+export const MAX_SUGGESTIONS = 4;
+
+const SUGGESTION_MAX_TOKENS = 200;
+const SUGGESTION_TEMPERATURE = 0.7;
+const MAX_ANSWER_LENGTH = 3000; // Characters of the answer included in the prompt
+const MAX_SOURCES = 5;
+const MAX_SUGGESTION_LENGTH = 120;
+const SUGGESTION_TIMEOUT_MS = 5000; // The answer waits for its suggestions, so a slow reply is dropped
+
+export interface SuggestionContext {
+  question: string;
+  answer: string; // May contain HTML; tags are stripped before prompting
+  sources: string[]; // RAG sources the answer was based on, e.g. "AF27 Stearic Acid (Acme)"
+}
+
+export interface GeneratedSuggestions {
+  suggestions: string[];
+  model: string;
+  tokenUsage: TokenUsage;
+}
+
+// Helper function to reduce an HTML answer to plain text for the prompt
+const toPlainText = (html: string): string =>
+  html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * The prompt asking for follow-up questions about an answer
+ */
+export function buildSuggestionMessages(context: SuggestionContext): LlmMessage[] {
+  const sources = context.sources.slice(0, MAX_SOURCES);
+  return [
+    {
+      role: "system",
+      content: `You suggest follow-up questions a chemical industry sales rep could ask next. Reply with a JSON array of ${MIN_SUGGESTIONS} to ${MAX_SUGGESTIONS} short questions (under 12 words each) and nothing else. Each question must be answerable from the products or topics in the answer, must not repeat the original question, and must be phrased as the user would ask it.`
+    },
+    {
+      role: "user",
+      content: [
+        `Question: ${context.question}`,
+        `Answer: ${toPlainText(context.answer).slice(0, MAX_ANSWER_LENGTH)}`,
+        sources.length > 0 ? `Sources: ${sources.join('; ')}` : '',
+      ].filter(Boolean).join('\n\n')
+    }
+  ];
+}
+
+/**
+ * Read suggestions from the model's reply: a JSON array, or one question per line as a fallback.
+ * Drops blanks, duplicates and restatements of the original question; fewer than the minimum yields none.
+ */
+export function parseSuggestions(content: string, question: string): string[] {
+  let candidates: unknown[];
+  const arrayMatch = content.match(/\[[\s\S]*\]/);
+  try {
+    candidates = arrayMatch ? JSON.parse(arrayMatch[0]) : [];
+  } catch {
+    candidates = [];
+  }
+  if (!Array.isArray(candidates) || candidates.length === 0) {
+    candidates = content.split('\n');
+  }
+
+  const suggestions: string[] = [];
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+    const suggestion = candidate
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+      .replace(/^["']|["'],?$/g, '')
+      .trim();
+    if (!suggestion || suggestion.length > MAX_SUGGESTION_LENGTH) continue;
+    if (questionsMatch(suggestion, question) || suggestions.some(existing => questionsMatch(existing, suggestion))) continue;
+    suggestions.push(suggestion);
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+
+  return suggestions.length >= MIN_SUGGESTIONS ? suggestions : [];
+}
+
+/**
+ * Ask the LLM for follow-up questions about an answer it just gave.
+ * Rejects, and cancels the request, when the reply takes longer than SUGGESTION_TIMEOUT_MS.
+ */
+export async function generateSuggestions(
+  provider: LlmProvider,
+  model: string,
+  context: SuggestionContext,
+  timeoutMs = SUGGESTION_TIMEOUT_MS
+): Promise<GeneratedSuggestions> {
+  const messages = buildSuggestionMessages(context);
+  const controller = new AbortController();
+  // Raced as well as passed on, so a provider that ignores the signal cannot hold up the answer either
+  const timedOut = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new Error(`Suggested questions timed out after ${timeoutMs}ms`)));
+  });
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const completion = await Promise.race([
+      provider.complete({
+        model,
+        messages,
+        maxTokens: SUGGESTION_MAX_TOKENS,
+        temperature: SUGGESTION_TEMPERATURE,
+        signal: controller.signal,
+      }),
+      timedOut,
+    ]);
+
+    return {
+      suggestions: parseSuggestions(completion.content, context.question),
+      model: completion.model,
+      tokenUsage: buildTokenUsage(completion.model, completion.usage, messages, completion.content),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -2,9 +2,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeDefaultSettings } from "./storage";
+import { apiLogger } from "./logger";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // Bulk mock response imports can be a few MB
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -39,6 +40,7 @@ app.use((req, res, next) => {
 
 (async () => {
   await initializeDefaultSettings();
+  apiLogger.startRetention();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,227 @@
+// Pulls product fields out of Knowde results. Each field has a chain of extractors, from structured
+// metadata down to reading labelled lines in the passage; the most confident value wins.
+import type { KnowdeResult } from "./knowdeModel";
+import type { ProductAttribute } from "./ragService";
+
+export const UNKNOWN_PRODUCT = 'Unknown Product';
+export const UNKNOWN_COMPANY = 'Unknown Company';
+
+export interface Extraction<T> {
+  value: T;
+  confidence: number; // 0-1; 0 means no extractor found a value and this is the fallback
+  extractor: string; // Name of the extractor that produced the value
+}
+
+export interface FieldExtractor<T> {
+  name: string;
+  confidence: number; // How far a value from this extractor is trusted, 0-1
+  extract(result: KnowdeResult): T | undefined;
+}
+
+export interface ProductExtraction {
+  productName: Extraction<string>;
+  company: Extraction<string>;
+  documentName: Extraction<string | undefined>;
+  attributes: Extraction<ProductAttribute[]>;
+  technicalSpecs: Extraction<ProductAttribute[]>;
+  applications: Extraction<string[]>;
+  features: Extraction<string[]>;
+}
+
+export type ExtractedField = keyof ProductExtraction;
+
+export type ExtractorChains = {
+  [Field in ExtractedField]: FieldExtractor<ProductExtraction[Field]['value']>[];
+};
+
+// Labels that start a new field in a passage. A labelled value ends at a line break or the next of these,
+// since some passages arrive with their line breaks collapsed.
+const KNOWN_LABELS = [
+  'Product Name', 'Product', 'Group Principal', 'Principal', 'Manufacturer', 'Company', 'Supplier',
+  'Document', 'Applications?', 'Uses?', 'Features?', 'Benefits?',
+];
+const MAX_LABEL_VALUE_LENGTH = 100;
+const MAX_LIST_VALUE_LENGTH = 400;
+
+const SPEC_NAMES = [
+  'melting point', 'boiling point', 'density', 'viscosity', 'pH', 'molecular weight', 'flash point',
+  'CAS number', 'formula', 'purity', 'concentration',
+];
+
+// Helper function to read the value after "Label:", or undefined when absent or implausibly long
+function readLabel(content: string, labels: string[], maxLength = MAX_LABEL_VALUE_LENGTH): string | undefined {
+  const pattern = new RegExp(
+    `(?:^|[\\s|])(?:${labels.join('|')})\\s*:\\s*(.+?)(?=\\n|\\s(?:${KNOWN_LABELS.join('|')})\\s*:|$)`,
+    'i'
+  );
+  const value = content.match(pattern)?.[1].trim().replace(/[\s,;|]+$/, '');
+  return value && value.length <= maxLength ? value : undefined;
+}
+
+// Helper function to read a labelled list such as "Applications: adhesives, sealants." up to the end of its sentence
+function readLabelledList(content: string, labels: string[]): string[] | undefined {
+  const value = readLabel(content, labels, MAX_LIST_VALUE_LENGTH);
+  if (!value) {
+    return undefined;
+  }
+  return value
+    .split(/\.\s+(?=[A-Z])/)[0]
+    .replace(/\.$/, '')
+    .split(/[,;]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+const firstProduct = (result: KnowdeResult) => result.metadata.products?.[0];
+
+export const PRODUCT_NAME_EXTRACTORS: FieldExtractor<string>[] = [
+  { name: 'metadata-product', confidence: 0.95, extract: result => firstProduct(result)?.name },
+  { name: 'metadata-product-name', confidence: 0.9, extract: result => result.metadata.product_name },
+  { name: 'content-product-name-label', confidence: 0.7, extract: result => readLabel(result.content, ['Product Name']) },
+  { name: 'content-product-label', confidence: 0.6, extract: result => readLabel(result.content, ['Product']) },
+  {
+    name: 'content-heading', // An all-caps first line, e.g. "SIPERNAT® 22 S"
+    confidence: 0.3,
+    extract: result => result.content.match(/^([A-Z][A-Z0-9®™\s-]{2,60})$/m)?.[1].trim(),
+  },
+];
+
+export const COMPANY_EXTRACTORS: FieldExtractor<string>[] = [
+  {
+    name: 'metadata-product',
+    confidence: 0.95,
+    extract: result => {
+      const company = firstProduct(result)?.company;
+      return company && company !== UNKNOWN_COMPANY ? company : undefined;
+    },
+  },
+  { name: 'metadata-principal', confidence: 0.9, extract: result => result.metadata.principal || result.metadata.manufacturer },
+  { name: 'content-group-principal', confidence: 0.8, extract: result => readLabel(result.content, ['Group Principal']) },
+  { name: 'content-principal-label', confidence: 0.7, extract: result => readLabel(result.content, ['Principal', 'Manufacturer', 'Company', 'Supplier']) },
+  {
+    name: 'content-made-by',
+    confidence: 0.5,
+    extract: result => result.content.match(/\b(?:[Mm]ade|[Pp]roduced|[Mm]anufactured) by\s+([A-Z][\w&.-]*(?:\s+[A-Z][\w&.-]*){0,3})/)?.[1],
+  },
+  {
+    name: 'content-confidential-notice', // "Confidential - Acme" footers on supplier documents
+    confidence: 0.3,
+    extract: result => result.content.match(/Confidential\s*-\s*([A-Z][A-Za-z]+)/)?.[1],
+  },
+];
+
+export const DOCUMENT_NAME_EXTRACTORS: FieldExtractor<string | undefined>[] = [
+  {
+    name: 'metadata-document',
+    confidence: 0.95,
+    extract: result => result.metadata.document_name || result.metadata.file_name || result.metadata.title,
+  },
+  {
+    name: 'content-document-file', // Only a name ending in a file extension, so collapsed text is not swallowed
+    confidence: 0.7,
+    extract: result => result.content.match(/Document:\s*([^|\n]+?\.(?:pdf|txt|docx?|xlsx?|csv))\b/i)?.[1].trim(),
+  },
+];
+
+export const ATTRIBUTE_EXTRACTORS: FieldExtractor<ProductAttribute[]>[] = [
+  { name: 'metadata-attributes', confidence: 0.95, extract: result => result.metadata.attributes },
+  {
+    name: 'content-label-lines', // "Name: value" or "Name = value" lines, other than the labels read above
+    confidence: 0.5,
+    extract: result => {
+      const knownLabel = new RegExp(`^(?:${KNOWN_LABELS.join('|')})$`, 'i');
+      const attributes: ProductAttribute[] = [];
+      for (const line of result.content.split('\n')) {
+        const match = line.match(/^\s*([A-Za-z][A-Za-z ]{1,40}?)\s*[:=]\s*(.{1,120})$/);
+        if (!match || knownLabel.test(match[1].trim())) continue;
+        const name = match[1].trim();
+        if (!attributes.some(attribute => attribute.name.toLowerCase() === name.toLowerCase())) {
+          attributes.push({ name, value: match[2].trim() });
+        }
+      }
+      return attributes;
+    },
+  },
+];
+
+export const TECHNICAL_SPEC_EXTRACTORS: FieldExtractor<ProductAttribute[]>[] = [
+  { name: 'metadata-technical-specs', confidence: 0.95, extract: result => result.metadata.technical_specs },
+  {
+    name: 'content-spec-names', // "melting point 69 C", "Density: 1.1 g/cm3"
+    confidence: 0.6,
+    extract: result => {
+      const pattern = new RegExp(
+        `\\b(${SPEC_NAMES.join('|')})\\b\\s*(?:[:=]|\\bis\\b)?\\s*([^\\n;,]+?)(?=[;,\\n]|\\.(?:\\s|$)|\\s(?:${KNOWN_LABELS.join('|')})\\s*:|$)`,
+        'gi'
+      );
+      const specs: ProductAttribute[] = [];
+      let match;
+      while ((match = pattern.exec(result.content)) !== null) {
+        const value = match[2].trim();
+        if (value && value.length <= 60 && /\d/.test(value) && !specs.some(spec => spec.name.toLowerCase() === match![1].toLowerCase())) {
+          specs.push({ name: match[1], value, category: 'technical' });
+        }
+      }
+      return specs;
+    },
+  },
+];
+
+export const APPLICATION_EXTRACTORS: FieldExtractor<string[]>[] = [
+  { name: 'metadata-applications', confidence: 0.9, extract: result => result.metadata.applications },
+  { name: 'content-applications-label', confidence: 0.6, extract: result => readLabelledList(result.content, ['Applications?', 'Uses?']) },
+];
+
+export const FEATURE_EXTRACTORS: FieldExtractor<string[]>[] = [
+  { name: 'metadata-features', confidence: 0.9, extract: result => result.metadata.features },
+  { name: 'content-features-label', confidence: 0.6, extract: result => readLabelledList(result.content, ['Features?', 'Benefits?']) },
+];
+
+export const DEFAULT_EXTRACTORS: ExtractorChains = {
+  productName: PRODUCT_NAME_EXTRACTORS,
+  company: COMPANY_EXTRACTORS,
+  documentName: DOCUMENT_NAME_EXTRACTORS,
+  attributes: ATTRIBUTE_EXTRACTORS,
+  technicalSpecs: TECHNICAL_SPEC_EXTRACTORS,
+  applications: APPLICATION_EXTRACTORS,
+  features: FEATURE_EXTRACTORS,
+};
+
+// Helper function to tell an extractor that found nothing from one that found a value
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Run one field's chain and keep the most confident non-empty value; ties go to the earlier extractor.
+ * An extractor that throws is skipped, so one bad pattern cannot break a search.
+ */
+export function runExtractorChain<T>(result: KnowdeResult, extractors: FieldExtractor<T>[], fallback: T): Extraction<T> {
+  let best: Extraction<T> = { value: fallback, confidence: 0, extractor: 'fallback' };
+  for (const extractor of extractors) {
+    if (extractor.confidence <= best.confidence) continue;
+    try {
+      const value = extractor.extract(result);
+      if (!isEmpty(value)) {
+        best = { value: value as T, confidence: extractor.confidence, extractor: extractor.name };
+      }
+    } catch (error: any) {
+      console.warn(`Knowde extractor ${extractor.name} failed:`, error.message);
+    }
+  }
+  return best;
+}
+
+/**
+ * Every product field of one Knowde result
+ */
+export function extractProduct(result: KnowdeResult, extractors: ExtractorChains = DEFAULT_EXTRACTORS): ProductExtraction {
+  return {
+    productName: runExtractorChain(result, extractors.productName, UNKNOWN_PRODUCT),
+    company: runExtractorChain(result, extractors.company, UNKNOWN_COMPANY),
+    documentName: runExtractorChain<string | undefined>(result, extractors.documentName, undefined),
+    attributes: runExtractorChain(result, extractors.attributes, []),
+    technicalSpecs: runExtractorChain(result, extractors.technicalSpecs, []),
+    applications: runExtractorChain(result, extractors.applications, []),
+    features: runExtractorChain(result, extractors.features, []),
+  };
+}
@@ -0,0 +1,114 @@
+// Golden Knowde payloads with the product fields they must extract to, so parsing regressions show up
+// in the RAG admin before they reach chat answers
+import fs from "fs";
+import path from "path";
+import { parseKnowdeResponse } from "./knowdeModel";
+import { extractProduct, type ExtractedField, type ProductExtraction } from "./knowdeExtractors";
+
+const GOLDEN_DIR = path.resolve(process.cwd(), 'server', 'fixtures', 'knowde-golden');
+
+// Only the fields listed are compared; null stands for "no value" (e.g. no document name)
+export type GoldenProduct = {
+  [Field in ExtractedField]?: ProductExtraction[Field]['value'] | null;
+} & {
+  confidence?: Partial<Record<ExtractedField, number>>;
+};
+
+export interface GoldenCase {
+  name: string;
+  description?: string;
+  payload: unknown; // A Knowde response body, anonymized
+  expected: {
+    issues?: number; // How many results the response model drops
+    products: GoldenProduct[];
+  };
+}
+
+export interface GoldenMismatch {
+  product: number | null; // 1-based; null for response-level checks
+  field: string;
+  expected: unknown;
+  actual: unknown;
+  details?: string[]; // Supporting messages, e.g. why the response model dropped results
+}
+
+export interface GoldenCaseResult {
+  name: string;
+  description?: string;
+  passed: boolean;
+  mismatches: GoldenMismatch[];
+  error?: string; // The fixture could not be read
+}
+
+// Helper function to compare extracted values as JSON, treating a missing value as null
+const sameValue = (expected: unknown, actual: unknown) =>
+  JSON.stringify(expected ?? null) === JSON.stringify(actual ?? null);
+
+/**
+ * Read every golden file, in file name order
+ */
+export function loadGoldenCases(): { cases: GoldenCase[]; errors: GoldenCaseResult[] } {
+  if (!fs.existsSync(GOLDEN_DIR)) {
+    return { cases: [], errors: [] };
+  }
+
+  const cases: GoldenCase[] = [];
+  const errors: GoldenCaseResult[] = [];
+  for (const file of fs.readdirSync(GOLDEN_DIR).filter(file => file.endsWith('.json')).sort()) {
+    const name = path.basename(file, '.json');
+    try {
+      const goldenCase = JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, file), 'utf8'));
+      if (!Array.isArray(goldenCase?.expected?.products)) {
+        throw new Error('expected.products must be a list');
+      }
+      cases.push({ ...goldenCase, name: goldenCase.name || name });
+    } catch (error: any) {
+      errors.push({ name, passed: false, mismatches: [], error: error.message });
+    }
+  }
+  return { cases, errors };
+}
+
+/**
+ * Parse a golden payload and compare each extracted product with what the file expects
+ */
+export function checkGoldenCase(goldenCase: GoldenCase): GoldenCaseResult {
+  const { results, issues } = parseKnowdeResponse(goldenCase.payload);
+  const mismatches: GoldenMismatch[] = [];
+
+  if (goldenCase.expected.issues !== undefined && issues.length !== goldenCase.expected.issues) {
+    mismatches.push({ product: null, field: 'issues', expected: goldenCase.expected.issues, actual: issues.length, details: issues });
+  }
+  if (results.length !== goldenCase.expected.products.length) {
+    mismatches.push({ product: null, field: 'products', expected: goldenCase.expected.products.length, actual: results.length });
+  }
+
+  goldenCase.expected.products.forEach((expected, index) => {
+    if (!results[index]) return;
+    const extracted = extractProduct(results[index]);
+    const { confidence, ...fields } = expected;
+
+    for (const [field, expectedValue] of Object.entries(fields)) {
+      const actual = extracted[field as ExtractedField]?.value;
+      if (!sameValue(expectedValue, actual)) {
+        mismatches.push({ product: index + 1, field, expected: expectedValue, actual });
+      }
+    }
+    for (const [field, expectedConfidence] of Object.entries(confidence || {})) {
+      const actual = extracted[field as ExtractedField]?.confidence;
+      if (actual !== expectedConfidence) {
+        mismatches.push({ product: index + 1, field: `${field} confidence`, expected: expectedConfidence, actual });
+      }
+    }
+  });
+
+  return { name: goldenCase.name, description: goldenCase.description, passed: mismatches.length === 0, mismatches };
+}
+
+/**
+ * Check every golden file, including ones that failed to load
+ */
+export function runGoldenChecks(): GoldenCaseResult[] {
+  const { cases, errors } = loadGoldenCases();
+  return [...cases.map(checkGoldenCase), ...errors];
+}
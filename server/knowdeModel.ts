@@ -0,0 +1,81 @@
+// Typed model of the Knowde conversation API response. Knowde adds fields without notice, so every
+// object passes unknown keys through and only the fields the extractors read are typed.
+import { z } from "zod";
+
+const optionalText = z.string().trim().min(1).optional().catch(undefined);
+
+export const knowdeProductSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional().catch(undefined),
+  name: optionalText,
+  company: optionalText,
+}).passthrough();
+
+export const knowdeAttributeSchema = z.object({
+  name: z.string().trim().min(1),
+  value: z.union([z.string(), z.number()]).transform(value => String(value).trim()),
+  unit: optionalText,
+  category: optionalText,
+});
+
+// Lists that Knowde sometimes sends as one comma-separated string
+const textListSchema = z.union([
+  z.array(z.string()),
+  z.string().transform(value => value.split(/[,;]/)),
+]).transform(values => values.map(value => value.trim()).filter(Boolean)).optional().catch(undefined);
+
+export const knowdeResultMetadataSchema = z.object({
+  score: z.coerce.number().finite().optional().catch(undefined),
+  products: z.array(knowdeProductSchema).optional().catch(undefined),
+  product_name: optionalText,
+  principal: optionalText,
+  manufacturer: optionalText,
+  document_name: optionalText,
+  file_name: optionalText,
+  title: optionalText,
+  attributes: z.array(knowdeAttributeSchema).optional().catch(undefined),
+  technical_specs: z.array(knowdeAttributeSchema).optional().catch(undefined),
+  applications: textListSchema,
+  features: textListSchema,
+}).passthrough();
+
+export const knowdeResultSchema = z.object({
+  content: z.string().optional(),
+  text: z.string().optional(), // Older responses put the passage here instead of in content
+  metadata: knowdeResultMetadataSchema.nullish().transform(metadata => metadata ?? {}),
+}).passthrough()
+  .refine(result => !!(result.content || result.text), { message: "Result has no content or text" })
+  .transform(result => ({ ...result, content: result.content || result.text || '' }));
+
+export type KnowdeProduct = z.infer<typeof knowdeProductSchema>;
+export type KnowdeAttribute = z.infer<typeof knowdeAttributeSchema>;
+export type KnowdeResultMetadata = z.infer<typeof knowdeResultMetadataSchema>;
+export type KnowdeResult = z.infer<typeof knowdeResultSchema>;
+
+export interface ParsedKnowdeResponse {
+  results: KnowdeResult[];
+  issues: string[]; // One per result that was dropped, e.g. "result 2: Result has no content or text"
+}
+
+/**
+ * Validate a Knowde response. Results that do not fit the model are dropped with an issue rather than
+ * failing the whole response; malformed optional metadata fields are ignored.
+ */
+export function parseKnowdeResponse(data: unknown): ParsedKnowdeResponse {
+  const rawResults = (data as any)?.result;
+  if (!Array.isArray(rawResults)) {
+    return { results: [], issues: rawResults === undefined ? [] : ["result is not a list"] };
+  }
+
+  const results: KnowdeResult[] = [];
+  const issues: string[] = [];
+  rawResults.forEach((rawResult, index) => {
+    const parsed = knowdeResultSchema.safeParse(rawResult);
+    if (parsed.success) {
+      results.push(parsed.data);
+    } else {
+      issues.push(`result ${index + 1}: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+  });
+
+  return { results, issues };
+}
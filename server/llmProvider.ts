@@ -0,0 +1,189 @@
+import OpenAI from "openai";
+import { estimateMessageTokens, estimateTokens } from "./tokenUsage";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal; // Cancels the request; providers that cannot cancel ignore it
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage: LlmUsage | null; // null when the provider does not report usage
+}
+
+// A piece of a streamed completion; the last chunk may carry only model and usage
+export interface LlmStreamChunk {
+  content: string;
+  model?: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+  // Resolves once the request has been accepted, so callers can fail before opening a stream
+  stream(request: LlmCompletionRequest): Promise<AsyncIterable<LlmStreamChunk>>;
+}
+
+/**
+ * OpenAI chat completions
+ */
+class OpenAIProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  private getApiKey(): string | undefined {
+    return process.env.OPEN_AI_KEY_JPR || process.env.OPENAI_API_KEY;
+  }
+
+  // Created lazily so the server starts without a key when another provider is selected
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.getApiKey() });
+    }
+    return this.client;
+  }
+
+  isConfigured(): boolean {
+    return !!this.getApiKey();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const completion = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || request.model,
+      usage: completion.usage ? toLlmUsage(completion.usage) : null,
+    };
+  }
+
+  async stream(request: LlmCompletionRequest): Promise<AsyncIterable<LlmStreamChunk>> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        // The final chunk carries usage for the whole request and has no choices
+        yield {
+          content: chunk.choices[0]?.delta?.content || '',
+          model: chunk.model || undefined,
+          usage: chunk.usage ? toLlmUsage(chunk.usage) : undefined,
+        };
+      }
+    })();
+  }
+}
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * Echoes the question and whether RAG context was supplied, and never calls the network.
+ */
+class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const content = this.buildResponse(request.messages);
+    return {
+      content,
+      model: `fake-${request.model}`,
+      usage: this.buildUsage(request.messages, content),
+    };
+  }
+
+  async stream(request: LlmCompletionRequest): Promise<AsyncIterable<LlmStreamChunk>> {
+    const content = this.buildResponse(request.messages);
+    const usage = this.buildUsage(request.messages, content);
+    const model = `fake-${request.model}`;
+
+    return (async function* () {
+      // Split on word boundaries, keeping whitespace, so the client sees a realistic stream
+      for (const piece of content.match(/\S+\s*/g) || []) {
+        yield { content: piece };
+      }
+      yield { content: '', model, usage };
+    })();
+  }
+
+  private buildResponse(messages: LlmMessage[]): string {
+    const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const hasRagContext = messages.some(message => message.role === 'system' && message.content.startsWith('RAG DATA SOURCE'));
+    const historyTurns = messages.filter(message => message.role !== 'system').length - 1;
+
+    return [
+      `<p>This is a stubbed response from the local LLM provider.</p>`,
+      `<p>You asked: <strong>${escapeHtml(question)}</strong></p>`,
+      `<ul><li>RAG context: ${hasRagContext ? 'provided' : 'none'}</li><li>Previous turns: ${Math.max(0, historyTurns)}</li></ul>`,
+    ].join('');
+  }
+
+  private buildUsage(messages: LlmMessage[], content: string): LlmUsage {
+    const promptTokens = estimateMessageTokens(messages);
+    const completionTokens = estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
+
+// Helper function to convert OpenAI's usage block to the provider-neutral shape
+function toLlmUsage(usage: OpenAI.CompletionUsage): LlmUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+// Helper function to escape user text before it is echoed into HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const providers: Record<string, LlmProvider> = {
+  openai: new OpenAIProvider(),
+  fake: new FakeLlmProvider(),
+};
+
+export const LLM_PROVIDERS = Object.keys(providers);
+export const DEFAULT_LLM_PROVIDER = 'openai';
+
+/**
+ * Look up a provider by name, falling back to OpenAI for unknown names
+ */
+export function getLlmProvider(name: string): LlmProvider {
+  return providers[name] || providers[DEFAULT_LLM_PROVIDER];
+}
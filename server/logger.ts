@@ -1,13 +1,20 @@
-// In-memory API request logger
-interface ApiLogEntry {
+import { storage, type ApiLogFilters, type ApiLogSourceStats } from "./storage";
+import type { ApiLog } from "@shared/schema";
+import type { TokenUsage } from "./tokenUsage";
+import type { ChatTraceData } from "./chatTrace";
+
+// API request logger backed by the api_logs table
+export interface ApiLogEntry {
   id: string;
   timestamp: number;
+  userId?: number;
+  username?: string;
   userQuestion: string;
   systemPrompt: string;
   ragContent?: string;
   openaiMessages: any[];
   response: string;
-  source: 'mock' | 'openai' | 'openai-rag' | 'rag-disambiguation';
+  source: 'mock' | 'openai' | 'openai-rag' | 'rag-disambiguation' | 'fallback';
   processingTime: number;
   ragResponseTime?: number;
   ragContentLength?: number;
@@ -24,34 +31,151 @@ interface ApiLogEntry {
   userSelectionTime?: number;
   searchCategories?: string[];
   confidenceScore?: number;
+  tokenUsage?: TokenUsage;
+  trace?: ChatTraceData;
+}
+
+export interface ApiLogPage {
+  logs: ApiLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  stats: ApiLogSourceStats[];
 }
 
+export const DEFAULT_LOG_RETENTION_DAYS = 30;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000; // Prune once an hour
+
+// Helper function to parse a JSON text column without throwing
+const parseJson = <T>(value: string | null, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+// Helper function to map a stored row back to the shape the admin UI expects
+const toApiLogEntry = (row: ApiLog): ApiLogEntry => ({
+  id: String(row.id),
+  timestamp: row.createdAt ? row.createdAt.getTime() : Date.now(),
+  userId: row.userId ?? undefined,
+  username: row.username ?? undefined,
+  userQuestion: row.userQuestion,
+  systemPrompt: row.systemPrompt,
+  ragContent: row.ragContent ?? undefined,
+  openaiMessages: parseJson<any[]>(row.openaiMessages, []),
+  response: row.response,
+  source: row.source as ApiLogEntry['source'],
+  processingTime: row.processingTime,
+  ragResponseTime: row.ragResponseTime ?? undefined,
+  ragContentLength: row.ragContentLength ?? undefined,
+  disambiguationDetected: row.disambiguationDetected ?? false,
+  disambiguationContent: row.disambiguationContent ?? undefined,
+  disambiguationParsed: parseJson<ApiLogEntry['disambiguationParsed']>(row.disambiguationParsed, undefined),
+  queryComplexity: (row.queryComplexity as ApiLogEntry['queryComplexity']) ?? undefined,
+  selectedProductId: row.selectedProductId ?? undefined,
+  userSelectionTime: row.userSelectionTime ?? undefined,
+  searchCategories: row.searchCategories ?? undefined,
+  confidenceScore: row.confidenceScore ?? undefined,
+  tokenUsage: row.totalTokens !== null ? {
+    model: row.model ?? '',
+    promptTokens: row.promptTokens ?? 0,
+    completionTokens: row.completionTokens ?? 0,
+    totalTokens: row.totalTokens,
+    estimated: row.tokensEstimated ?? false,
+    estimatedCost: row.estimatedCost ?? 0,
+  } : undefined,
+  trace: parseJson<ChatTraceData | undefined>(row.trace, undefined),
+});
+
 class ApiLogger {
-  private logs: ApiLogEntry[] = [];
-  private maxLogs = 100; // Keep last 100 logs
+  private retentionTimer: NodeJS.Timeout | null = null;
 
+  // Fire-and-forget: a failed log write must never break the chat request
   log(entry: Omit<ApiLogEntry, 'id' | 'timestamp'>) {
-    const logEntry: ApiLogEntry = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now(),
-      ...entry
+    storage.createApiLog({
+      userId: entry.userId ?? null,
+      username: entry.username ?? null,
+      userQuestion: entry.userQuestion,
+      systemPrompt: entry.systemPrompt,
+      ragContent: entry.ragContent ?? null,
+      openaiMessages: JSON.stringify(entry.openaiMessages ?? []),
+      response: entry.response,
+      source: entry.source,
+      processingTime: entry.processingTime,
+      ragResponseTime: entry.ragResponseTime ?? null,
+      ragContentLength: entry.ragContentLength ?? null,
+      disambiguationDetected: entry.disambiguationDetected ?? false,
+      disambiguationContent: entry.disambiguationContent ?? null,
+      disambiguationParsed: entry.disambiguationParsed ? JSON.stringify(entry.disambiguationParsed) : null,
+      queryComplexity: entry.queryComplexity ?? null,
+      selectedProductId: entry.selectedProductId ?? null,
+      userSelectionTime: entry.userSelectionTime ?? null,
+      searchCategories: entry.searchCategories ?? null,
+      confidenceScore: entry.confidenceScore ?? null,
+      model: entry.tokenUsage?.model ?? null,
+      promptTokens: entry.tokenUsage?.promptTokens ?? null,
+      completionTokens: entry.tokenUsage?.completionTokens ?? null,
+      totalTokens: entry.tokenUsage?.totalTokens ?? null,
+      tokensEstimated: entry.tokenUsage?.estimated ?? null,
+      estimatedCost: entry.tokenUsage?.estimatedCost ?? null,
+      trace: entry.trace ? JSON.stringify(entry.trace) : null,
+    }).catch((error) => {
+      console.error('API log write error:', error);
+    });
+  }
+
+  async getLogs(filters: ApiLogFilters, page: number, pageSize: number): Promise<ApiLogPage> {
+    const [{ logs, total }, stats] = await Promise.all([
+      storage.getApiLogs(filters, pageSize, (page - 1) * pageSize),
+      storage.getApiLogStats(filters),
+    ]);
+
+    return {
+      logs: logs.map(toApiLogEntry),
+      total,
+      page,
+      pageSize,
+      stats,
     };
+  }
 
-    this.logs.unshift(logEntry); // Add to beginning
-    
-    // Keep only the most recent logs
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(0, this.maxLogs);
-    }
+  async clearLogs() {
+    await storage.clearApiLogs();
   }
 
-  getLogs(): ApiLogEntry[] {
-    return this.logs;
+  async getRetentionDays(): Promise<number> {
+    const setting = await storage.getSetting('api_log_retention_days');
+    const days = parseInt(setting?.value ?? '', 10);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_LOG_RETENTION_DAYS;
   }
 
-  clearLogs() {
-    this.logs = [];
+  // Delete entries older than the configured retention window
+  async pruneLogs(): Promise<number> {
+    const days = await this.getRetentionDays();
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const deleted = await storage.deleteApiLogsBefore(cutoff);
+    if (deleted > 0) {
+      console.log(`API logs: pruned ${deleted} entries older than ${days} days`);
+    }
+    return deleted;
+  }
+
+  startRetention() {
+    if (this.retentionTimer) return;
+
+    const prune = () => {
+      this.pruneLogs().catch((error) => {
+        console.error('API log retention error:', error);
+      });
+    };
+
+    prune();
+    this.retentionTimer = setInterval(prune, RETENTION_INTERVAL_MS);
+    this.retentionTimer.unref();
   }
 }
 
-export const apiLogger = new ApiLogger();
\ No newline at end of file
+export const apiLogger = new ApiLogger();
@@ -0,0 +1,384 @@
+// Bulk import and export of curated mock responses as JSON or CSV
+import { z } from "zod";
+import type { InsertMockResponse, MockResponse } from "@shared/schema";
+import { normalizeQuestion } from "./questionMatcher";
+
+export type TransferFormat = 'json' | 'csv';
+export const TRANSFER_FORMATS: TransferFormat[] = ['json', 'csv'];
+
+// Same limits as the admin form
+const MAX_TRY_ASKING_PROMPTS = 5;
+const MAX_FOLLOW_UP_CHIPS = 5;
+
+const stringList = z.array(z.string().trim().min(1)).default([]);
+
+const followUpChipRecordSchema = z.object({
+  label: z.string().trim().min(1, "Chip label is required"),
+  type: z.enum(['custom', 'existing']).default('custom'),
+  response: z.string().optional(), // Custom chips only
+  linkedQuestion: z.string().optional(), // Linked chips refer to another response by its question, not its id
+});
+
+const mockResponseRecordSchema = z.object({
+  question: z.string().trim().min(1, "Question is required"),
+  response: z.string().trim().min(1, "Response is required"),
+  alternateQuestions: stringList,
+  tags: stringList.transform(tags => tags.map(tag => tag.toLowerCase())),
+  matchThreshold: z.number().min(0).max(1).nullable().default(null),
+  showTryAsking: z.boolean().default(false),
+  tryAskingPrompts: stringList.refine(prompts => prompts.length <= MAX_TRY_ASKING_PROMPTS, `At most ${MAX_TRY_ASKING_PROMPTS} try asking prompts`),
+  showFollowUp: z.boolean().default(false),
+  followUpQuestion: z.string().default(''),
+  followUpChips: z.array(followUpChipRecordSchema).max(MAX_FOLLOW_UP_CHIPS, `At most ${MAX_FOLLOW_UP_CHIPS} follow-up chips`).default([]),
+});
+
+export type FollowUpChipRecord = z.infer<typeof followUpChipRecordSchema>;
+export type MockResponseRecord = z.infer<typeof mockResponseRecordSchema>;
+
+export interface ImportRowError {
+  field?: string;
+  message: string;
+}
+
+export interface ImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportPlanRow {
+  row: number; // 1-based record number; for CSV this is the spreadsheet row, counting the header
+  question: string;
+  action: 'create' | 'update' | 'unchanged' | 'invalid';
+  existingId?: number;
+  changes: ImportFieldChange[];
+  errors: ImportRowError[];
+}
+
+export interface ImportPlan {
+  format: TransferFormat;
+  summary: Record<ImportPlanRow['action'], number>;
+  rows: ImportPlanRow[];
+}
+
+// A validated row ready to be written; linked follow-ups are resolved to ids when saved
+export interface MockResponseImportRow {
+  existingId?: number;
+  values: InsertMockResponse;
+  linkedQuestions: Array<string | null>;
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+    Object.setPrototypeOf(this, ImportFormatError.prototype);
+  }
+}
+
+// A linked follow-up that names no existing or imported response by the time it is saved
+export class ImportLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportLinkError";
+    Object.setPrototypeOf(this, ImportLinkError.prototype);
+  }
+}
+
+// CSV column order; list columns hold JSON arrays, or one item per line for plain string lists
+const CSV_COLUMNS: Array<[string, keyof MockResponseRecord]> = [
+  ['question', 'question'],
+  ['response', 'response'],
+  ['alternate_questions', 'alternateQuestions'],
+  ['tags', 'tags'],
+  ['match_threshold', 'matchThreshold'],
+  ['show_try_asking', 'showTryAsking'],
+  ['try_asking_prompts', 'tryAskingPrompts'],
+  ['show_follow_up', 'showFollowUp'],
+  ['follow_up_question', 'followUpQuestion'],
+  ['follow_up_chips', 'followUpChips'],
+];
+
+/**
+ * Convert stored responses to portable records, replacing linked response ids with their questions
+ */
+export function toRecords(mockResponses: MockResponse[]): MockResponseRecord[] {
+  const questionsById = new Map(mockResponses.map(mockResponse => [mockResponse.id, mockResponse.question]));
+  return mockResponses.map(mockResponse => toRecord(mockResponse, questionsById));
+}
+
+// Helper function to convert one stored response to a portable record
+function toRecord(mockResponse: MockResponse, questionsById: Map<number, string>): MockResponseRecord {
+  const chips = mockResponse.followUpChips || [];
+  return {
+    question: mockResponse.question,
+    response: mockResponse.response,
+    alternateQuestions: mockResponse.alternateQuestions || [],
+    tags: mockResponse.tags || [],
+    matchThreshold: mockResponse.matchThreshold,
+    showTryAsking: mockResponse.showTryAsking || false,
+    tryAskingPrompts: mockResponse.tryAskingPrompts || [],
+    showFollowUp: mockResponse.showFollowUp || false,
+    followUpQuestion: mockResponse.followUpQuestion || '',
+    followUpChips: chips.map((label, i) => {
+      if (mockResponse.followUpResponseTypes?.[i] === 'existing') {
+        const linkedId = mockResponse.followUpLinkedResponseIds?.[i];
+        return { label, type: 'existing' as const, linkedQuestion: linkedId ? questionsById.get(linkedId) : undefined };
+      }
+      return { label, type: 'custom' as const, response: mockResponse.followUpResponses?.[i] || '' };
+    }),
+  };
+}
+
+/**
+ * Serialize records as a JSON document or a CSV file with a header row
+ */
+export function serializeRecords(records: MockResponseRecord[], format: TransferFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const lines = [CSV_COLUMNS.map(([column]) => column).join(',')];
+  for (const record of records) {
+    lines.push(CSV_COLUMNS.map(([, field]) => {
+      const value = record[field];
+      if (value === null || value === undefined) return '';
+      return escapeCsvCell(typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Helper function to quote a CSV cell when it contains separators, quotes or line breaks
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Helper function to parse CSV text (RFC 4180: quoted cells may contain commas, quotes and line breaks)
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ImportFormatError("CSV has an unterminated quoted cell");
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Ignore blank lines, e.g. a trailing newline
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+// Helper function to read a CSV list cell: a JSON array, or one item per line
+function parseCsvList(value: string): unknown {
+  const trimmed = value.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed; // Left for validation to reject
+    }
+  }
+  return trimmed.split(/\r?\n/).map(item => item.trim()).filter(Boolean);
+}
+
+// Helper function to read a CSV boolean cell
+function parseCsvBoolean(value: string): unknown {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  if (['true', 'yes', '1'].includes(normalized)) return true;
+  if (['false', 'no', '0'].includes(normalized)) return false;
+  return value; // Left for validation to reject
+}
+
+/**
+ * Parse an uploaded file into raw records with their row numbers; throws ImportFormatError for unreadable files
+ */
+export function parseImport(content: string, format: TransferFormat): Array<{ row: number; data: unknown }> {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error: any) {
+      throw new ImportFormatError(`Invalid JSON: ${error.message}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new ImportFormatError("JSON import must be an array of mock responses");
+    }
+    return parsed.map((data, index) => ({ row: index + 1, data }));
+  }
+
+  const [header, ...dataRows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new ImportFormatError("CSV file is empty");
+  }
+  const columns = header.map(column => column.trim().toLowerCase());
+  for (const required of ['question', 'response']) {
+    if (!columns.includes(required)) {
+      throw new ImportFormatError(`CSV is missing the '${required}' column`);
+    }
+  }
+
+  return dataRows.map((cells, index) => {
+    const data: Record<string, unknown> = {};
+    CSV_COLUMNS.forEach(([column, field]) => {
+      const position = columns.indexOf(column);
+      if (position === -1 || cells[position] === undefined) return;
+      const value = cells[position];
+      switch (field) {
+        case 'alternateQuestions':
+        case 'tags':
+        case 'tryAskingPrompts':
+        case 'followUpChips':
+          data[field] = parseCsvList(value);
+          break;
+        case 'showTryAsking':
+        case 'showFollowUp':
+          data[field] = parseCsvBoolean(value);
+          break;
+        case 'matchThreshold':
+          data[field] = value.trim() === '' ? null : Number(value);
+          break;
+        default:
+          data[field] = value;
+      }
+    });
+    return { row: index + 2, data };
+  });
+}
+
+// Helper function to compare a record with the stored version, field by field
+function diffRecords(before: MockResponseRecord, after: MockResponseRecord): ImportFieldChange[] {
+  return (Object.keys(after) as Array<keyof MockResponseRecord>)
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Validate imported records and work out what each would do, without writing anything.
+ * Rows are matched to existing responses by normalized question text.
+ */
+export function buildImportPlan(
+  format: TransferFormat,
+  rawRows: Array<{ row: number; data: unknown }>,
+  existing: MockResponse[]
+): { plan: ImportPlan; rows: MockResponseImportRow[] } {
+  const questionsById = new Map(existing.map(mockResponse => [mockResponse.id, mockResponse.question]));
+  const existingByQuestion = new Map(existing.map(mockResponse => [normalizeQuestion(mockResponse.question), mockResponse]));
+
+  const parsed = rawRows.map(({ row, data }) => ({ row, data, result: mockResponseRecordSchema.safeParse(data) }));
+  const importedQuestions = new Map<string, number>();
+  for (const { row, result } of parsed) {
+    if (result.success && !importedQuestions.has(normalizeQuestion(result.data.question))) {
+      importedQuestions.set(normalizeQuestion(result.data.question), row);
+    }
+  }
+
+  const planRows: ImportPlanRow[] = [];
+  const importRows: MockResponseImportRow[] = [];
+
+  for (const { row, data, result } of parsed) {
+    if (!result.success) {
+      const question = (data as any)?.question;
+      planRows.push({
+        row,
+        question: typeof question === 'string' ? question : '',
+        action: 'invalid',
+        changes: [],
+        errors: result.error.issues.map(issue => ({ field: issue.path.join('.') || undefined, message: issue.message })),
+      });
+      continue;
+    }
+
+    const record = result.data;
+    const normalized = normalizeQuestion(record.question);
+    const errors: ImportRowError[] = [];
+
+    if (importedQuestions.get(normalized) !== row) {
+      errors.push({ field: 'question', message: `Duplicate of the question in row ${importedQuestions.get(normalized)}` });
+    }
+
+    record.followUpChips.forEach((chip, i) => {
+      if (chip.type === 'custom' && !chip.response?.trim()) {
+        errors.push({ field: `followUpChips.${i}.response`, message: `Chip "${chip.label}" needs a response` });
+      }
+      if (chip.type === 'existing') {
+        const linked = chip.linkedQuestion ? normalizeQuestion(chip.linkedQuestion) : '';
+        if (!linked || (!importedQuestions.has(linked) && !existingByQuestion.has(linked))) {
+          errors.push({
+            field: `followUpChips.${i}.linkedQuestion`,
+            message: `Chip "${chip.label}" links to a question that is not in the file or the database`,
+          });
+        }
+      }
+    });
+
+    if (errors.length > 0) {
+      planRows.push({ row, question: record.question, action: 'invalid', changes: [], errors });
+      continue;
+    }
+
+    const current = existingByQuestion.get(normalized);
+    const changes = current ? diffRecords(toRecord(current, questionsById), record) : [];
+    const action = !current ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+    planRows.push({ row, question: record.question, action, existingId: current?.id, changes, errors });
+
+    if (action !== 'unchanged') {
+      importRows.push({
+        existingId: current?.id,
+        values: {
+          question: record.question,
+          response: record.response,
+          alternateQuestions: record.alternateQuestions,
+          tags: record.tags,
+          matchThreshold: record.matchThreshold,
+          showTryAsking: record.showTryAsking,
+          tryAskingPrompts: record.tryAskingPrompts,
+          showFollowUp: record.showFollowUp,
+          followUpQuestion: record.followUpQuestion,
+          followUpChips: record.followUpChips.map(chip => chip.label),
+          followUpResponses: record.followUpChips.map(chip => chip.type === 'custom' ? chip.response || '' : ''),
+          followUpResponseTypes: record.followUpChips.map(chip => chip.type),
+          followUpLinkedResponseIds: record.followUpChips.map(() => 0), // Resolved from linkedQuestions on save
+        },
+        linkedQuestions: record.followUpChips.map(chip => chip.type === 'existing' ? chip.linkedQuestion ?? null : null),
+      });
+    }
+  }
+
+  const summary = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  planRows.forEach(planRow => summary[planRow.action]++);
+
+  return { plan: { format, summary, rows: planRows }, rows: importRows };
+}
@@ -0,0 +1,291 @@
+// Matching engine that decides which curated mock response, if any, answers a question
+import type { MockResponse } from "@shared/schema";
+
+export type MatchMethod = 'exact' | 'fuzzy' | 'vector';
+
+export interface MatchSettings {
+  threshold: number; // Default minimum score (0-1); a response's own matchThreshold overrides it
+  useVectors: boolean; // Also compare local n-gram vectors, which tolerate reordering and rephrasing better
+  synonyms: string[][]; // Groups of interchangeable words; the first word of a group is canonical
+}
+
+export interface MatchCandidate {
+  mockResponse: MockResponse;
+  matchedQuestion: string; // The main question or the alternate phrasing that scored best
+  score: number;
+  method: MatchMethod;
+  threshold: number;
+  matched: boolean;
+}
+
+export const DEFAULT_MATCH_THRESHOLD = 0.85;
+export const DEFAULT_SYNONYMS = [
+  'sds, msds',
+  'tds, datasheet',
+  'price, cost, pricing',
+  'buy, purchase, order',
+  'use, uses, usage, application, applications',
+  'manufacturer, supplier, producer, maker',
+].join('\n');
+
+const CONTRACTIONS: Record<string, string> = {
+  "what's": 'what is',
+  "who's": 'who is',
+  "where's": 'where is',
+  "how's": 'how is',
+  "it's": 'it is',
+  "that's": 'that is',
+  "there's": 'there is',
+  "isn't": 'is not',
+  "aren't": 'are not',
+  "doesn't": 'does not',
+  "don't": 'do not',
+  "can't": 'cannot',
+  "won't": 'will not',
+  "i'm": 'i am',
+  "you're": 'you are',
+  "they're": 'they are',
+};
+
+// Words that carry no meaning for matching curated answers
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'do', 'does', 'did', 'of', 'for', 'to', 'in', 'on', 'at', 'by',
+  'with', 'about', 'what', 'which', 'who', 'can', 'could', 'you', 'me', 'i', 'tell', 'please', 'it', 'this', 'that',
+  'there', 'and', 'or', 'my', 'your', 'any', 'some',
+]);
+
+// Words that flip a question's meaning; "isn't" and friends are expanded to "not" before this is checked
+const NEGATION_WORDS = new Set(['not', 'no', 'never', 'without', 'cannot', 'nor']);
+// Most a negated question can score against an un-negated one, so "not biodegradable" never gets the "biodegradable" answer
+const NEGATION_MISMATCH_MAX_SCORE = 0.5;
+
+const TOKEN_WEIGHT = 0.7; // Share of the fuzzy score from whole words; the rest comes from character trigrams
+const TYPO_MATCH_WEIGHT = 0.9; // Credit for a word that is one edit away from a word in the other question
+const MIN_TYPO_WORD_LENGTH = 5;
+const VECTOR_DIMENSIONS = 512;
+
+/**
+ * Normalize a question for comparison: lowercase, contractions expanded, punctuation and extra whitespace removed
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\b[a-z0-9]+'[a-z]+\b/g, word => CONTRACTIONS[word] ?? word.replace(/'s$/, '').replace(/'/g, ''))
+    .trim()
+    .replace(/[?!.,;:'"()]/g, '') // Remove punctuation
+    .replace(/\s+/g, ' '); // Normalize whitespace
+}
+
+/**
+ * Whether two questions are the same once normalized
+ */
+export function questionsMatch(userQuestion: string, mockQuestion: string): boolean {
+  return normalizeQuestion(userQuestion) === normalizeQuestion(mockQuestion);
+}
+
+/**
+ * Parse synonym groups from settings text: one group per line, words separated by commas
+ */
+export function parseSynonyms(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.split(',').map(word => normalizeQuestion(word)).filter(word => word && !word.includes(' ')))
+    .filter(group => group.length > 1);
+}
+
+// Helper function to map every synonym to its group's canonical word
+function buildSynonymMap(synonyms: string[][]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const group of synonyms) {
+    for (const word of group) {
+      if (!map.has(word)) map.set(word, group[0]);
+    }
+  }
+  return map;
+}
+
+// Helper function to reduce a question to its meaningful, canonical words
+function tokenize(question: string, synonymMap: Map<string, string>): string[] {
+  return normalizeQuestion(question)
+    .split(' ')
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => synonymMap.get(word) ?? word);
+}
+
+// Helper function to tell whether a question is negated; contractions missing from CONTRACTIONS still count by their n't
+function isNegated(question: string): boolean {
+  return /n['’]t\b/i.test(question) || normalizeQuestion(question).split(' ').some(word => NEGATION_WORDS.has(word));
+}
+
+// Helper function to check whether two words differ by at most one edit
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Helper function to decide whether a word may be matched with a typo; codes like AF27 must match exactly
+function allowsTypo(word: string): boolean {
+  return word.length >= MIN_TYPO_WORD_LENGTH && !/\d/.test(word);
+}
+
+// Helper function to score word overlap (Dice coefficient), giving partial credit for near-miss spellings
+function tokenSimilarity(a: string[], b: string[]): number {
+  const setA = Array.from(new Set(a));
+  const setB = Array.from(new Set(b));
+  if (setA.length === 0 || setB.length === 0) return 0;
+
+  let overlap = 0;
+  for (const word of setA) {
+    if (setB.includes(word)) {
+      overlap += 1;
+    } else if (allowsTypo(word) && setB.some(other => allowsTypo(other) && withinOneEdit(word, other))) {
+      overlap += TYPO_MATCH_WEIGHT;
+    }
+  }
+  return (2 * overlap) / (setA.length + setB.length);
+}
+
+// Helper function to collect character trigrams of the joined words
+function trigrams(tokens: string[]): Set<string> {
+  const text = ` ${tokens.join(' ')} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    grams.add(text.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// Helper function to score character trigram overlap (Dice coefficient)
+function trigramSimilarity(a: string[], b: string[]): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+
+  let overlap = 0;
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) overlap++;
+  });
+  return (2 * overlap) / (gramsA.size + gramsB.size);
+}
+
+// Helper function to hash a feature into a vector slot (FNV-1a)
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % VECTOR_DIMENSIONS;
+}
+
+/**
+ * Local embedding of a question: a hashed bag of words, word pairs and character 4-grams.
+ * Needs no model or network call, so it is cheap enough to run against every mock response.
+ */
+function embed(tokens: string[]): Float32Array {
+  const vector = new Float32Array(VECTOR_DIMENSIONS);
+  tokens.forEach((token, index) => {
+    vector[hashFeature(`w:${token}`)] += 1;
+    if (index > 0) {
+      vector[hashFeature(`b:${tokens[index - 1]} ${token}`)] += 0.5;
+    }
+    const padded = ` ${token} `;
+    for (let i = 0; i + 4 <= padded.length; i++) {
+      vector[hashFeature(`c:${padded.slice(i, i + 4)}`)] += 0.25;
+    }
+  });
+  return vector;
+}
+
+// Helper function to compute the cosine similarity of two vectors
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Score how well a user question matches a curated question, from 0 (unrelated) to 1 (same question).
+ * When only one of the two is negated the score is capped at NEGATION_MISMATCH_MAX_SCORE, however alike they read.
+ */
+export function scoreQuestion(question: string, candidate: string, settings: MatchSettings): { score: number; method: MatchMethod } {
+  if (questionsMatch(question, candidate)) {
+    return { score: 1, method: 'exact' };
+  }
+
+  const result = scoreSimilarity(question, candidate, settings);
+  if (isNegated(question) !== isNegated(candidate)) {
+    return { ...result, score: Math.min(result.score, NEGATION_MISMATCH_MAX_SCORE) };
+  }
+  return result;
+}
+
+// Helper function to score two questions that are not identical, by word and trigram overlap or local vectors
+function scoreSimilarity(question: string, candidate: string, settings: MatchSettings): { score: number; method: MatchMethod } {
+  const synonymMap = buildSynonymMap(settings.synonyms);
+  const questionTokens = tokenize(question, synonymMap);
+  const candidateTokens = tokenize(candidate, synonymMap);
+
+  const fuzzyScore = TOKEN_WEIGHT * tokenSimilarity(questionTokens, candidateTokens)
+    + (1 - TOKEN_WEIGHT) * trigramSimilarity(questionTokens, candidateTokens);
+
+  if (settings.useVectors && questionTokens.length > 0 && candidateTokens.length > 0) {
+    const vectorScore = cosineSimilarity(embed(questionTokens), embed(candidateTokens));
+    if (vectorScore > fuzzyScore) {
+      return { score: vectorScore, method: 'vector' };
+    }
+  }
+
+  return { score: fuzzyScore, method: 'fuzzy' };
+}
+
+/**
+ * Score every mock response against a question, best first; each response scores as its best phrasing
+ */
+export function rankMockResponses(question: string, mockResponses: MockResponse[], settings: MatchSettings): MatchCandidate[] {
+  return mockResponses
+    .map(mockResponse => {
+      const phrasings = [mockResponse.question, ...(mockResponse.alternateQuestions ?? [])];
+      let best = { matchedQuestion: mockResponse.question, ...scoreQuestion(question, mockResponse.question, settings) };
+      for (const phrasing of phrasings.slice(1)) {
+        const result = scoreQuestion(question, phrasing, settings);
+        if (result.score > best.score) {
+          best = { matchedQuestion: phrasing, ...result };
+        }
+      }
+      const threshold = mockResponse.matchThreshold ?? settings.threshold;
+      return { mockResponse, ...best, threshold, matched: best.score >= threshold };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The highest-scoring mock response that clears its threshold, if any
+ */
+export function findBestMatch(question: string, mockResponses: MockResponse[], settings: MatchSettings): MatchCandidate | undefined {
+  return rankMockResponses(question, mockResponses, settings).find(candidate => candidate.matched);
+}
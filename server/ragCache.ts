@@ -0,0 +1,207 @@
+// Size-bounded LRU cache for Knowde responses, optionally written through to Postgres so it survives restarts
+export const DEFAULT_RAG_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_RAG_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface RagCacheOptions {
+  maxEntries: number;
+  ttlMs: number; // Applies to entries cached from now on; existing entries keep their expiry
+}
+
+export interface CachedRagResult {
+  key: string;
+  query: string; // The message as the user asked it, for display
+  data: any;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+// Where entries are persisted. Writes are fire-and-forget: a failing database never fails a search.
+export interface RagCachePersistence {
+  load(now: Date, limit: number): Promise<CachedRagResult[]>; // Unexpired entries, newest first
+  save(entry: CachedRagResult): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface RagCacheKeyStats {
+  key: string;
+  query: string;
+  ageMs: number;
+  expiresInMs: number;
+  hits: number;
+}
+
+export interface RagCacheEntryDetail extends RagCacheKeyStats {
+  data: any; // The raw Knowde response
+}
+
+export interface RagCacheStats {
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  persistent: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 before the first lookup
+  evictions: number; // Dropped to stay under maxEntries
+  expirations: number; // Dropped because their TTL passed
+  keys: string[];
+  entries: RagCacheKeyStats[]; // Most recently used first
+}
+
+export class RagCache {
+  // Map iteration follows insertion order, so re-inserting on every hit keeps the least recently used entry first
+  private readonly entries = new Map<string, CachedRagResult>();
+  private options: RagCacheOptions;
+  private persistence: RagCachePersistence | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(options: RagCacheOptions) {
+    this.options = options;
+  }
+
+  public get(key: string): CachedRagResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.expirations++;
+      this.misses++;
+      this.persist(persistence => persistence.delete([key]));
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.hits++;
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * An unexpired entry, without counting a lookup or marking it recently used
+   */
+  public peek(key: string): CachedRagResult | undefined {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  }
+
+  public describe(key: string): RagCacheEntryDetail | undefined {
+    const entry = this.peek(key);
+    return entry ? { ...this.toKeyStats(entry, Date.now()), data: entry.data } : undefined;
+  }
+
+  public set(key: string, query: string, data: any): void {
+    const now = Date.now();
+    const entry: CachedRagResult = { key, query, data, createdAt: now, expiresAt: now + this.options.ttlMs, hits: 0 };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.persist(persistence => persistence.save(entry));
+    this.evictOverflow();
+  }
+
+  public delete(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    this.persist(persistence => persistence.delete([key]));
+    return deleted;
+  }
+
+  /**
+   * Drop every entry, including persisted ones, and reset the counters
+   */
+  public clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+    this.persist(persistence => persistence.clear());
+  }
+
+  public configure(options: RagCacheOptions): void {
+    this.options = options;
+    this.evictOverflow();
+  }
+
+  /**
+   * Start writing entries through to `persistence` and load what it already holds; null stops persisting.
+   * Loaded entries never replace ones cached since startup.
+   */
+  public async setPersistence(persistence: RagCachePersistence | null): Promise<void> {
+    this.persistence = persistence;
+    if (!persistence) {
+      return;
+    }
+
+    const stored = await persistence.load(new Date(), this.options.maxEntries);
+    // Stored entries go in oldest first and ahead of anything cached since startup, which stays most recently used
+    const current = Array.from(this.entries.values());
+    this.entries.clear();
+    for (const entry of [...stored.reverse(), ...current]) {
+      this.entries.delete(entry.key);
+      this.entries.set(entry.key, entry);
+    }
+    this.evictOverflow();
+    console.log(`RAG Cache: Loaded ${stored.length} persisted entries`);
+  }
+
+  public getStats(): RagCacheStats {
+    const now = Date.now();
+    const lookups = this.hits + this.misses;
+    const entries = Array.from(this.entries.values()).reverse();
+    return {
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      persistent: this.persistence !== null,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      keys: entries.map(entry => entry.key),
+      entries: entries.map(entry => this.toKeyStats(entry, now)),
+    };
+  }
+
+  // Helper method to describe an entry without its payload
+  private toKeyStats(entry: CachedRagResult, now: number): RagCacheKeyStats {
+    return {
+      key: entry.key,
+      query: entry.query,
+      ageMs: now - entry.createdAt,
+      expiresInMs: Math.max(0, entry.expiresAt - now),
+      hits: entry.hits,
+    };
+  }
+
+  // Helper method to drop least recently used entries beyond maxEntries
+  private evictOverflow(): void {
+    const overflow = this.entries.size - this.options.maxEntries;
+    if (overflow <= 0) {
+      return;
+    }
+
+    const evicted = Array.from(this.entries.keys()).slice(0, overflow);
+
+    evicted.forEach(key => this.entries.delete(key));
+    this.evictions += evicted.length;
+    this.persist(persistence => persistence.delete(evicted));
+  }
+
+  // Helper method to run a persistence write without waiting for it
+  private persist(write: (persistence: RagCachePersistence) => Promise<void>): void {
+    if (!this.persistence) {
+      return;
+    }
+    write(this.persistence).catch(error => console.error('RAG Cache: Persistence error:', error.message));
+  }
+}
@@ -1,4 +1,65 @@
 import fetch from 'node-fetch';
+import type { Citation } from '@shared/schema';
+import { isFakeKnowdeUrl } from './fakeKnowde';
+import { CircuitBreaker, type CircuitBreakerSnapshot } from './circuitBreaker';
+import { RagCache, DEFAULT_RAG_CACHE_MAX_ENTRIES, DEFAULT_RAG_CACHE_TTL_MS, type RagCacheEntryDetail, type RagCacheOptions, type RagCachePersistence, type RagCacheStats } from './ragCache';
+import { normalizeQuestion } from './questionMatcher';
+import { parseKnowdeResponse, type KnowdeResult } from './knowdeModel';
+import { extractProduct, UNKNOWN_COMPANY, type ExtractedField } from './knowdeExtractors';
+
+const MAX_CITATION_SNIPPET_LENGTH = 1500;
+
+export const DEFAULT_KNOWDE_BASE_URL = 'https://hybrid-search.dev.knowde.dev/api/conversation';
+export const DEFAULT_KNOWDE_TIMEOUT_MS = 15000;
+const DEFAULT_KNOWDE_AUTH_HEADER = 'x-knowde-auth';
+const DEFAULT_KNOWDE_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250; // Doubled on every retry, plus jitter
+const BREAKER_FAILURE_THRESHOLD = 3; // Failed searches in a row before RAG is skipped
+const BREAKER_COOLDOWN_MS = 60 * 1000;
+
+// A request that hit the per-request timeout. Timeouts are not retried: the caller has already waited the full budget.
+class KnowdeTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Knowde did not respond within ${timeoutMs}ms`);
+    this.name = 'KnowdeTimeoutError';
+  }
+}
+
+// A Knowde reply with its body already read, so the request timeout covers the whole exchange
+interface KnowdeHttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+}
+
+// Helper function to wait before a retry
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Where and how Knowde is reached. Environment variables set the defaults; the knowde_base_url and
+// knowde_timeout_ms settings override the endpoint and timeout at runtime. Auth stays in the environment.
+export interface KnowdeConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number; // Extra attempts after a network error or 5xx response
+  authHeader: string;
+  authToken: string;
+  companyUuid: string;
+}
+
+export type KnowdeOverrides = Partial<Pick<KnowdeConfig, 'baseUrl' | 'timeoutMs'>>;
+
+// The effective configuration as shown to admins, without secrets
+export interface KnowdeConfigSummary {
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  authHeader: string;
+  hasAuthToken: boolean;
+  hasCompanyUuid: boolean;
+  usingFakeKnowde: boolean;
+  configured: boolean;
+}
 
 export interface ProductAttribute {
   name: string;
@@ -15,6 +76,7 @@ export interface ProcessedProductData {
   technicalSpecs?: ProductAttribute[];
   applications?: string[];
   features?: string[];
+  confidence?: Partial<Record<ExtractedField, number>>; // Per field, from the extractor that supplied it
 }
 
 export interface ProductOption {
@@ -37,12 +99,23 @@ export interface RagSearchResult {
   error?: string;
   responseTime?: number;
   source: 'knowde' | 'knowde-cached';
+  attempts?: number; // Requests sent to Knowde, including retries
+  circuitOpen?: boolean; // Skipped without calling Knowde because of repeated failures
   processedProductData?: ProcessedProductData[];
   disambiguationDetected?: boolean;
   rawResponse?: string;
   disambiguationData?: DisambiguationData;
 }
 
+// Outcome of warming the cache for one query
+export interface RagWarmResult {
+  query: string;
+  key: string;
+  status: 'cached' | 'already-cached' | 'failed';
+  error?: string;
+  responseTime?: number;
+}
+
 export interface RagQuery {
   message: string;
   email?: string;
@@ -55,34 +128,131 @@ export interface RagQuery {
   role?: string;
 }
 
+export interface RagSearchOptions {
+  ignoreCircuit?: boolean; // Call Knowde even while the circuit breaker is open
+  skipCacheRead?: boolean; // Ask Knowde even when the query is cached
+}
+
 class RagService {
-  private readonly baseUrl = 'https://hybrid-search.dev.knowde.dev/api/conversation';
-  private readonly authToken: string;
-  private readonly companyUuid: string;
-  private readonly cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
-  private readonly cacheTimeout = 10 * 60 * 1000; // 10 minutes
+  private readonly envConfig: KnowdeConfig;
+  private config: KnowdeConfig;
+  private readonly cache = new RagCache({
+    maxEntries: DEFAULT_RAG_CACHE_MAX_ENTRIES,
+    ttlMs: DEFAULT_RAG_CACHE_TTL_MS,
+  });
+  private readonly circuitBreaker = new CircuitBreaker({
+    failureThreshold: BREAKER_FAILURE_THRESHOLD,
+    cooldownMs: BREAKER_COOLDOWN_MS,
+  });
 
   constructor() {
-    this.authToken = process.env.KNOWDE_AUTH_TOKEN || '';
-    this.companyUuid = process.env.KNOWDE_COMPANY_UUID || '';
+    const envTimeout = Number(process.env.KNOWDE_TIMEOUT_MS);
+    const envMaxRetries = Number(process.env.KNOWDE_MAX_RETRIES);
+    this.envConfig = {
+      baseUrl: process.env.KNOWDE_BASE_URL || DEFAULT_KNOWDE_BASE_URL,
+      timeoutMs: Number.isInteger(envTimeout) && envTimeout > 0 ? envTimeout : DEFAULT_KNOWDE_TIMEOUT_MS,
+      maxRetries: process.env.KNOWDE_MAX_RETRIES && Number.isInteger(envMaxRetries) && envMaxRetries >= 0
+        ? envMaxRetries
+        : DEFAULT_KNOWDE_MAX_RETRIES,
+      authHeader: process.env.KNOWDE_AUTH_HEADER || DEFAULT_KNOWDE_AUTH_HEADER,
+      authToken: process.env.KNOWDE_AUTH_TOKEN || '',
+      companyUuid: process.env.KNOWDE_COMPANY_UUID || '',
+    };
+    this.config = this.envConfig;
     
-    if (!this.authToken || !this.companyUuid) {
+    if (!this.config.authToken || !this.config.companyUuid) {
       console.warn('RAG Service: Missing required environment variables (KNOWDE_AUTH_TOKEN, KNOWDE_COMPANY_UUID)');
     }
   }
 
   /**
-   * Check if RAG service is properly configured
+   * Check if RAG service is properly configured; the local stand-in needs no credentials
    */
   public isConfigured(): boolean {
-    return !!(this.authToken && this.companyUuid);
+    return isFakeKnowdeUrl(this.config.baseUrl) || !!(this.config.authToken && this.config.companyUuid);
+  }
+
+  /**
+   * Apply endpoint and timeout overrides on top of the environment; unset values fall back to it.
+   * Cached results and the failure streak belong to the previous endpoint, so both are reset when it changes.
+   */
+  public configure(overrides: KnowdeOverrides): void {
+    const previousBaseUrl = this.config.baseUrl;
+    this.config = {
+      ...this.envConfig,
+      baseUrl: overrides.baseUrl || this.envConfig.baseUrl,
+      timeoutMs: overrides.timeoutMs || this.envConfig.timeoutMs,
+    };
+
+    if (this.config.baseUrl !== previousBaseUrl) {
+      console.log('RAG Service: Knowde endpoint set to', this.config.baseUrl);
+      this.clearCache();
+      this.circuitBreaker.reset();
+    }
+  }
+
+  /**
+   * Endpoint and timeout used when no override is set
+   */
+  public getConfigDefaults(): KnowdeOverrides {
+    return { baseUrl: this.envConfig.baseUrl, timeoutMs: this.envConfig.timeoutMs };
+  }
+
+  /**
+   * The effective Knowde configuration, without secrets
+   */
+  public getConfigSummary(): KnowdeConfigSummary {
+    return {
+      baseUrl: this.config.baseUrl,
+      timeoutMs: this.config.timeoutMs,
+      maxRetries: this.config.maxRetries,
+      authHeader: this.config.authHeader,
+      hasAuthToken: !!this.config.authToken,
+      hasCompanyUuid: !!this.config.companyUuid,
+      usingFakeKnowde: isFakeKnowdeUrl(this.config.baseUrl),
+      configured: this.isConfigured(),
+    };
+  }
+
+  /**
+   * Circuit breaker state for the admin connection test
+   */
+  public getCircuitBreakerState(): CircuitBreakerSnapshot {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  /**
+   * Close the circuit so the next search calls Knowde again
+   */
+  public resetCircuitBreaker(): void {
+    this.circuitBreaker.reset();
+    console.log('RAG Service: Circuit breaker reset');
+  }
+
+  /**
+   * Set the cache size and TTL
+   */
+  public configureCache(options: RagCacheOptions): void {
+    this.cache.configure(options);
   }
 
   /**
-   * Generate cache key for a query
+   * Persist cached results (loading what is already stored), or keep them in memory only when null
+   */
+  public async setCachePersistence(persistence: RagCachePersistence | null): Promise<void> {
+    await this.cache.setPersistence(persistence);
+  }
+
+  /**
+   * Generate cache key for a query, normalized the same way mock response questions are matched
+   * Follow-up turns depend on conversation state in Knowde, so they are cached per conversation
    */
   private getCacheKey(query: RagQuery): string {
-    return `rag_${query.message.toLowerCase().trim()}`;
+    const message = normalizeQuestion(query.message);
+    if (query.conversationId && (query.dialogCount || 0) > 1) {
+      return `rag_${query.conversationId}_${message}`;
+    }
+    return `rag_${message}`;
   }
 
   /**
@@ -90,7 +260,7 @@ class RagService {
    */
   private getCachedResult(cacheKey: string): RagSearchResult | null {
     const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < cached.ttl) {
+    if (cached) {
       console.log('RAG Service: Using cached result for key:', cacheKey);
       
       // Check cached data for disambiguation too
@@ -119,20 +289,17 @@ class RagService {
   /**
    * Cache a successful result
    */
-  private cacheResult(cacheKey: string, data: any): void {
-    this.cache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-      ttl: this.cacheTimeout
-    });
+  private cacheResult(cacheKey: string, message: string, data: any): void {
+    this.cache.set(cacheKey, message, data);
   }
 
   /**
    * Enhanced content processing for better context
    */
-  private processRagContent(results: any[]): {
+  private processRagContent(results: KnowdeResult[]): {
     formattedContent: string;
     sources: string[];
+    citations: Citation[];
     totalScore: number;
     productCount: number;
   } {
@@ -140,6 +307,7 @@ class RagService {
       return {
         formattedContent: '',
         sources: [],
+        citations: [],
         totalScore: 0,
         productCount: 0
       };
@@ -147,24 +315,18 @@ class RagService {
 
     const processedResults = results.slice(0, 5); // Top 5 results
     const sources: string[] = [];
+    const citations: Citation[] = [];
     const seenContent = new Set<string>();
     let totalScore = 0;
     let productCount = 0;
 
     // Process all results and collect them with company information
-    const processedItems = processedResults.map((result: any, index: number) => {
+    const processedItems = processedResults.map(result => {
       const content = result.content.replace(/\n+/g, ' ').trim();
-      
-      // Enhanced product and company extraction with content parsing fallback
-      let product = result.metadata?.products?.[0]?.name || this.extractProductName(content);
-      let company = result.metadata?.products?.[0]?.company;
-      
-      // If metadata company is missing or generic, parse from content
-      if (!company || company === 'Unknown Company') {
-        company = this.extractPrincipal(content);
-      }
-      
-      const score = result.metadata?.score || 0;
+      const extracted = extractProduct(result);
+      const product = extracted.productName.value;
+      const company = extracted.company.value;
+      const score = result.metadata.score || 0;
       
       // Remove duplicate content
       const contentKey = content.substring(0, 100);
@@ -177,8 +339,9 @@ class RagService {
         product,
         company,
         content,
+        documentName: extracted.documentName.value,
         score,
-        hasSpecificCompany: company !== 'Unknown Company',
+        hasSpecificCompany: company !== UNKNOWN_COMPANY,
         hasGroupPrincipal: content.includes('Group Principal')
       };
     }).filter((item): item is NonNullable<typeof item> => item !== null);
@@ -199,6 +362,17 @@ class RagService {
       totalScore += item.score;
       productCount++;
       sources.push(`${item.product} (${item.company})`);
+      citations.push({
+        id: String(citations.length + 1),
+        label: `${item.product} (${item.company})`,
+        product: item.product,
+        company: item.company,
+        documentName: item.documentName,
+        score: item.score,
+        snippet: item.content.length > MAX_CITATION_SNIPPET_LENGTH
+          ? `${item.content.slice(0, MAX_CITATION_SNIPPET_LENGTH)}...`
+          : item.content,
+      });
 
       return `**${item.product}** by ${item.company} (Relevance: ${item.score.toFixed(2)})\n${item.content}`;
     }).join('\n\n');
@@ -206,15 +380,73 @@ class RagService {
     return {
       formattedContent,
       sources,
+      citations,
       totalScore: totalScore / processedResults.length,
       productCount
     };
   }
 
   /**
-   * Search for relevant content using the Knowde RAG API with caching and enhanced processing
+   * POST to Knowde once and read the reply, aborting when headers and body together take longer than the timeout
+   */
+  private async postOnce(body: string, headers: Record<string, string>): Promise<KnowdeHttpResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    try {
+      const response = await fetch(this.config.baseUrl, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      return {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        body: await response.text(),
+      };
+    } catch (fetchError: any) {
+      if (fetchError.name === 'AbortError') {
+        throw new KnowdeTimeoutError(this.config.timeoutMs);
+      }
+      throw fetchError;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * POST to Knowde, retrying network errors and 5xx responses with exponential backoff.
+   * Returns the last response (which may still be a 5xx) or throws the last network error.
    */
-  public async search(query: RagQuery): Promise<RagSearchResult> {
+  private async postWithRetries(body: string, headers: Record<string, string>) {
+    const maxAttempts = this.config.maxRetries + 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.postOnce(body, headers);
+        if (response.status < 500 || attempt === maxAttempts) {
+          return { response, attempts: attempt };
+        }
+        console.warn(`RAG Service: Knowde answered ${response.status} on attempt ${attempt}/${maxAttempts}, retrying`);
+      } catch (error: any) {
+        if (error instanceof KnowdeTimeoutError || attempt === maxAttempts) {
+          error.attempts = attempt;
+          throw error;
+        }
+        console.warn(`RAG Service: Request error on attempt ${attempt}/${maxAttempts}, retrying:`, error.message);
+      }
+
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      await sleep(backoff + Math.random() * RETRY_BASE_DELAY_MS);
+    }
+  }
+
+  /**
+   * Search Knowde. Cached results are served even while the circuit is open; otherwise an open
+   * circuit skips the request unless ignoreCircuit is set, as for the admin connection test.
+   * skipCacheRead always asks Knowde; a successful answer still replaces the cached one.
+   */
+  public async search(query: RagQuery, { ignoreCircuit = false, skipCacheRead = false }: RagSearchOptions = {}): Promise<RagSearchResult> {
     const startTime = Date.now();
     
     if (!this.isConfigured()) {
@@ -228,11 +460,23 @@ class RagService {
 
     // Check cache first
     const cacheKey = this.getCacheKey(query);
-    const cachedResult = this.getCachedResult(cacheKey);
+    const cachedResult = skipCacheRead ? null : this.getCachedResult(cacheKey);
     if (cachedResult) {
       return cachedResult;
     }
 
+    if (!ignoreCircuit && !this.circuitBreaker.tryAcquire()) {
+      const { retryAt } = this.circuitBreaker.getSnapshot();
+      return {
+        success: false,
+        error: `Knowde skipped after repeated failures${retryAt ? ` - retrying after ${new Date(retryAt).toLocaleTimeString()}` : ''}`,
+        responseTime: Date.now() - startTime,
+        source: 'knowde',
+        circuitOpen: true
+      };
+    }
+
+    let attempts = 1;
     try {
       const requestBody = {
         message: query.message,
@@ -244,43 +488,54 @@ class RagService {
         workflow_id: query.workflowId || '1',
         workflow_run_id: query.workflowRunId || '1',
         role: query.role || 'user',
-        company_uuid: this.companyUuid
+        company_uuid: this.config.companyUuid
       };
 
-      console.log('RAG Service: Making request to Knowde API:', { message: query.message });
+      console.log('RAG Service: Making request to Knowde API:', { message: query.message, baseUrl: this.config.baseUrl });
 
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-knowde-auth': this.authToken,
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.config.authToken) {
+        headers[this.config.authHeader] = this.config.authToken;
+      }
+
+      const sent = await this.postWithRetries(JSON.stringify(requestBody), headers);
+      const response = sent.response;
+      attempts = sent.attempts;
 
       const responseTime = Date.now() - startTime;
 
       if (!response.ok) {
-        const errorText = await response.text();
         console.error('RAG Service: API request failed:', {
           status: response.status,
           statusText: response.statusText,
-          error: errorText,
-          responseTime
+          error: response.body,
+          responseTime,
+          attempts
         });
+
+        const error = `API request failed: ${response.status} ${response.statusText}`;
+        // A 4xx means Knowde is up but rejected this request, which is no reason to stop calling it
+        if (response.status >= 500) {
+          this.circuitBreaker.recordFailure(error);
+        } else {
+          this.circuitBreaker.recordSuccess();
+        }
         
         return {
           success: false,
-          error: `API request failed: ${response.status} ${response.statusText}`,
+          error,
           responseTime,
-          source: 'knowde'
+          source: 'knowde',
+          attempts
         };
       }
 
-      const data = await response.json();
+      const data = JSON.parse(response.body);
+      this.circuitBreaker.recordSuccess();
       
       console.log('RAG Service: Successful response:', {
         responseTime,
+        attempts,
         hasData: !!data,
         dataKeys: data ? Object.keys(data) : []
       });
@@ -303,13 +558,14 @@ class RagService {
       }
 
       // Cache successful results
-      this.cacheResult(cacheKey, data);
+      this.cacheResult(cacheKey, query.message, data);
 
       return {
         success: true,
         data,
         responseTime,
         source: 'knowde',
+        attempts,
         disambiguationDetected,
         rawResponse: disambiguationDetected ? rawResponse : undefined,
         disambiguationData
@@ -317,16 +573,20 @@ class RagService {
 
     } catch (error: any) {
       const responseTime = Date.now() - startTime;
+      attempts = error.attempts || attempts;
       console.error('RAG Service: Request error:', {
         error: error.message,
-        responseTime
+        responseTime,
+        attempts
       });
+      this.circuitBreaker.recordFailure(error.message);
       
       return {
         success: false,
         error: `Request failed: ${error.message}`,
         responseTime,
-        source: 'knowde'
+        source: 'knowde',
+        attempts
       };
     }
   }
@@ -542,196 +802,44 @@ class RagService {
     };
   }
 
-  /**
-   * Extract product attributes from text using structured parsing
-   */
-  private extractStructuredAttributes(text: string): ProductAttribute[] {
-    const attributes: ProductAttribute[] = [];
-    
-    // Common patterns for attribute extraction
-    const patterns = [
-      // "Property: Value" format
-      /([A-Za-z\s]+?):\s*([^\n\r]+)/g,
-      // "Property = Value" format  
-      /([A-Za-z\s]+?)\s*=\s*([^\n\r]+)/g,
-      // "Property - Value" format
-      /([A-Za-z\s]+?)\s*-\s*([^\n\r]+)/g,
-    ];
-
-    patterns.forEach(pattern => {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const name = match[1].trim();
-        const value = match[2].trim();
-        
-        // Skip if already exists or if it's too generic
-        if (name.length > 2 && value.length > 0 && 
-            !attributes.some(attr => attr.name.toLowerCase() === name.toLowerCase())) {
-          attributes.push({ name, value });
-        }
-      }
-    });
-
-    return attributes;
-  }
-
-  /**
-   * Extract technical specifications from content
-   */
-  private extractTechnicalSpecs(text: string): ProductAttribute[] {
-    const specs: ProductAttribute[] = [];
-    
-    // Look for common technical specification patterns
-    const specPatterns = [
-      /(?:melting point|boiling point|density|viscosity|ph|molecular weight|flash point):\s*([^\n\r]+)/gi,
-      /(?:cas number|formula|purity|concentration):\s*([^\n\r]+)/gi,
-    ];
-
-    specPatterns.forEach(pattern => {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const fullMatch = match[0];
-        const colonIndex = fullMatch.indexOf(':');
-        if (colonIndex > -1) {
-          const name = fullMatch.substring(0, colonIndex).trim();
-          const value = match[1].trim();
-          specs.push({ name, value, category: 'technical' });
-        }
-      }
-    });
-
-    return specs;
-  }
-
-  /**
-   * Extract applications and features from text
-   */
-  private extractApplicationsAndFeatures(text: string): { applications: string[]; features: string[] } {
-    const applications: string[] = [];
-    const features: string[] = [];
-    
-    // Look for application sections
-    const appMatch = text.match(/(?:applications?|uses?):\s*([^.]+(?:\.[^.]*)*)/i);
-    if (appMatch) {
-      const appText = appMatch[1];
-      applications.push(...appText.split(/[,;]/).map(app => app.trim()).filter(app => app.length > 0));
-    }
-    
-    // Look for features sections
-    const featureMatch = text.match(/(?:features?|benefits?):\s*([^.]+(?:\.[^.]*)*)/i);
-    if (featureMatch) {
-      const featureText = featureMatch[1];
-      features.push(...featureText.split(/[,;]/).map(feat => feat.trim()).filter(feat => feat.length > 0));
-    }
-    
-    return { applications, features };
-  }
-
   /**
    * Process raw RAG data into structured product information
    */
-  private processProductData(rawData: any): ProcessedProductData[] {
-    if (!rawData || !rawData.result || !Array.isArray(rawData.result)) {
-      return [];
-    }
-
-    return rawData.result.map((item: any) => {
-      const content = item.content || item.text || '';
-      const metadata = item.metadata || {};
-      
-      // Extract basic product info
-      const productName = metadata.product_name || this.extractProductName(content);
-      const principal = metadata.principal || metadata.manufacturer || this.extractPrincipal(content);
-      
-      // Extract structured attributes
-      const attributes = this.extractStructuredAttributes(content);
-      const technicalSpecs = this.extractTechnicalSpecs(content);
+  private processProductData(results: KnowdeResult[]): ProcessedProductData[] {
+    return results.map(result => {
+      const content = result.content;
+      const extracted = extractProduct(result);
       
-      // Extract applications and features
-      const { applications, features } = this.extractApplicationsAndFeatures(content);
-      
-      // Clean descriptive text by removing structured data patterns
-      let descriptiveText = content
-        .replace(/([A-Za-z\s]+?):\s*([^\n\r]+)/g, '')
-        .replace(/([A-Za-z\s]+?)\s*=\s*([^\n\r]+)/g, '')
+      // Clean descriptive text by removing labelled lines
+      const descriptiveText = content
+        .split('\n')
+        .filter(line => !/^\s*[A-Za-z][A-Za-z ]{1,40}?\s*[:=]/.test(line))
+        .join(' ')
         .replace(/\s+/g, ' ')
         .trim();
       
       return {
-        productName,
-        principal,
-        attributes,
-        technicalSpecs,
-        applications,
-        features,
-        descriptiveText: descriptiveText || content.substring(0, 500) + '...'
+        productName: extracted.productName.value,
+        principal: extracted.company.value,
+        attributes: extracted.attributes.value,
+        technicalSpecs: extracted.technicalSpecs.value,
+        applications: extracted.applications.value,
+        features: extracted.features.value,
+        descriptiveText: descriptiveText || content.substring(0, 500) + '...',
+        confidence: Object.fromEntries(
+          Object.entries(extracted).map(([field, extraction]) => [field, extraction.confidence])
+        ) as ProcessedProductData['confidence']
       };
     });
   }
 
-  /**
-   * Extract product name from content
-   */
-  private extractProductName(content: string): string {
-    const patterns = [
-      /product name:\s*([^\n\r]+)/i,
-      /product:\s*([^\n\r]+)/i,
-      /(?:^|\n)([A-Z][A-Z0-9\s-]+?)(?:\n|$)/
-    ];
-    
-    for (const pattern of patterns) {
-      const match = content.match(pattern);
-      if (match && match[1]) {
-        return match[1].trim();
-      }
-    }
-    
-    return 'Unknown Product';
-  }
-
-  /**
-   * Extract principal/manufacturer from content
-   */
-  private extractPrincipal(content: string): string {
-    const patterns = [
-      /(?:principal|manufacturer|company):\s*([^\n\r]+)/i,
-      /(?:made by|produced by|from):\s*([^\n\r]+)/i,
-      // Extract from document names that contain company information
-      /Document:\s*[^-]*-\s*([A-Za-z]+)\s+[^\n]*/i,
-      // Extract Evonik from various contexts
-      /\bEvonik\b/i,
-      // Extract from safety data sheet patterns
-      /Document:\s*[^(]*\(([^)]+)\)/i,
-      // Extract from confidential document patterns
-      /Confidential\s*-\s*([A-Za-z]+)/i
-    ];
-    
-    for (const pattern of patterns) {
-      const match = content.match(pattern);
-      if (match && match[1]) {
-        const extracted = match[1].trim();
-        // Filter out generic terms and prefer specific company names
-        if (extracted && extracted.length > 2 && 
-            !['Product', 'Safety', 'Data', 'Sheet', 'Information', 'Guide'].includes(extracted)) {
-          return extracted;
-        }
-      }
-    }
-    
-    // Special case: look for Evonik specifically as it's a major chemical company
-    if (content.includes('Evonik')) {
-      return 'Evonik Corporation';
-    }
-    
-    return 'Unknown Company';
-  }
-
   /**
    * Enhanced search with content processing and product data extraction
    */
   public async searchWithProcessing(query: RagQuery): Promise<RagSearchResult & {
     processedContent?: string;
     sources?: string[];
+    citations?: Citation[];
     averageScore?: number;
     productCount?: number;
   }> {
@@ -741,8 +849,13 @@ class RagService {
       return result;
     }
 
+    const { results, issues } = parseKnowdeResponse(result.data);
+    if (issues.length > 0) {
+      console.warn('RAG Service: Skipped Knowde results that do not fit the response model:', issues);
+    }
+
     // Process product data using hybrid approach
-    const processedProductData = this.processProductData(result.data);
+    const processedProductData = this.processProductData(results);
     
     // Add processed product data to result
     const enhancedResult = {
@@ -750,24 +863,25 @@ class RagService {
       processedProductData
     };
 
-    const processed = this.processRagContent(result.data.result);
+    const processed = this.processRagContent(results);
     
     return {
       ...enhancedResult,
       processedContent: processed.formattedContent,
       sources: processed.sources,
+      citations: processed.citations,
       averageScore: processed.totalScore,
       productCount: processed.productCount
     };
   }
 
   /**
-   * Test the RAG API connection
+   * Test the RAG API connection, even while the circuit is open; a success closes it
    */
   public async testConnection(): Promise<RagSearchResult> {
     return this.search({
       message: 'What adhesion promoters are available?'
-    });
+    }, { ignoreCircuit: true });
   }
 
   /**
@@ -779,13 +893,57 @@ class RagService {
   }
 
   /**
-   * Get cache statistics
+   * One cached entry with its raw Knowde response
    */
-  public getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
+  public getCacheEntry(key: string): RagCacheEntryDetail | undefined {
+    return this.cache.describe(key);
+  }
+
+  /**
+   * Drop one cached entry, so the next search for it calls Knowde
+   */
+  public deleteCacheEntry(key: string): boolean {
+    return this.cache.delete(key);
+  }
+
+  /**
+   * Search each query so its result is cached, one at a time to spare Knowde. Queries that
+   * normalize to the same key are searched once; cached ones are skipped unless refresh is set.
+   */
+  public async warmCache(queries: string[], refresh = false): Promise<RagWarmResult[]> {
+    const results: RagWarmResult[] = [];
+    const seen = new Set<string>();
+
+    for (const query of queries) {
+      const key = this.getCacheKey({ message: query });
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (this.cache.peek(key) && !refresh) {
+        results.push({ query, key, status: 'already-cached' });
+        continue;
+      }
+
+      // A refresh only replaces the entry when Knowde answers, so a failure keeps the working one
+      const result = await this.search({ message: query }, { skipCacheRead: refresh });
+      results.push(result.success
+        ? { query, key, status: 'cached', responseTime: result.responseTime }
+        : { query, key, status: 'failed', error: result.error, responseTime: result.responseTime });
+    }
+
+    console.log('RAG Service: Cache warmed:', {
+      queries: results.length,
+      cached: results.filter(result => result.status === 'cached').length,
+      failed: results.filter(result => result.status === 'failed').length
+    });
+    return results;
+  }
+
+  /**
+   * Get cache statistics: size and limits, hit rate, evictions and the age of each entry
+   */
+  public getCacheStats(): RagCacheStats {
+    return this.cache.getStats();
   }
 }
 
@@ -1,146 +1,256 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, applyMockResponseDraft, ragCachePersistence, SYSTEM_PROMPT_DRAFT_KEY, VERSIONED_SETTING_KEYS, type ApiLogFilters, type DraftSelection, type RevisionAuthor } from "./storage";
 import { ragService } from "./ragService";
+import { FAKE_KNOWDE_URL, isFakeKnowdeEnabled, registerFakeKnowde } from "./fakeKnowde";
+import { DEFAULT_RAG_CACHE_MAX_ENTRIES, DEFAULT_RAG_CACHE_TTL_MS } from "./ragCache";
+import { runGoldenChecks } from "./knowdeGolden";
 import { apiLogger } from "./logger";
-import OpenAI from "openai";
-
-// Initialize OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPEN_AI_KEY_JPR || process.env.OPENAI_API_KEY
-});
-
-// Helper functions for smart chunking
-function isSemanticBoundary(content: string): boolean {
-  // Check for sentence endings, paragraph breaks, or list item completions
-  const semanticEndings = ['.', '!', '?', '</p>', '</li>', '</h3>', '</h4>', '</strong>', '</em>'];
-  return semanticEndings.some(ending => content.trim().endsWith(ending));
+import { SUPPORTED_MODELS } from "./tokenUsage";
+import { setupAuth, requireAuth, requireRole, toPublicUser } from "./auth";
+import { LLM_PROVIDERS, DEFAULT_LLM_PROVIDER } from "./llmProvider";
+import { ChatOrchestrator, LlmNotConfiguredError, streamChatResponse, type ChatRequest, type GenerationSettings } from "./chatOrchestrator";
+import { buildImportPlan, ImportFormatError, ImportLinkError, parseImport, serializeRecords, toRecords, TRANSFER_FORMATS, type TransferFormat } from "./mockResponseTransfer";
+import { DEFAULT_MATCH_THRESHOLD, DEFAULT_SYNONYMS, normalizeQuestion, parseSynonyms, rankMockResponses, type MatchSettings } from "./questionMatcher";
+import { buildFollowUpTree, findReferencingResponses, UnpublishedLinkError, validateFollowUpGraph, validateFollowUpTargets } from "./followUpGraph";
+import { USER_ROLES, chipActionEventSchema, type MockResponse } from "@shared/schema";
+
+// Helper function to load a chat session only if it belongs to the given user
+async function getOwnedChatSession(sessionId: number, userId: number) {
+  const session = await storage.getChatSession(sessionId);
+  return session && session.userId === userId ? session : undefined;
 }
 
-function isCompleteHTMLElement(content: string): boolean {
-  // Check if content ends with a complete HTML element
-  const htmlTagPattern = /<\/[a-zA-Z][a-zA-Z0-9]*>$/;
-  return htmlTagPattern.test(content.trim());
+// Settings the chat UI reads for every signed-in user; any other key (prompts, drafts, endpoints, tuning)
+// is only readable by editors and admins
+const PUBLIC_SETTING_KEYS = [
+  'opening_text', 'supporting_text', 'intro_questions', 'try_asking_enabled', 'performance_feedback_enabled',
+  'company_name', 'logo_url',
+];
+
+const DEFAULT_LOG_PAGE_SIZE = 25;
+const MAX_LOG_PAGE_SIZE = 100;
+const MAX_LOG_RETENTION_DAYS = 365;
+const API_LOG_SOURCES = ['mock', 'openai', 'openai-rag', 'rag-disambiguation', 'fallback'];
+
+// Helper function to parse GET /api/logs query params into filters and paging
+function parseApiLogQuery(query: Record<string, any>): { filters: ApiLogFilters; page: number; pageSize: number } | { error: string } {
+  const filters: ApiLogFilters = {};
+
+  if (typeof query.source === 'string' && query.source) {
+    if (!API_LOG_SOURCES.includes(query.source)) {
+      return { error: `Invalid source. Must be one of: ${API_LOG_SOURCES.join(', ')}` };
+    }
+    filters.source = query.source;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    if (typeof query[key] === 'string' && query[key]) {
+      const date = new Date(query[key]);
+      if (isNaN(date.getTime())) {
+        return { error: `Invalid '${key}' date` };
+      }
+      filters[key] = date;
+    }
+  }
+
+  if (query.disambiguation === 'true' || query.disambiguation === 'false') {
+    filters.disambiguationDetected = query.disambiguation === 'true';
+  }
+
+  if (typeof query.search === 'string' && query.search.trim()) {
+    filters.search = query.search.trim();
+  }
+
+  const page = Math.max(1, parseInt(query.page, 10) || 1);
+  const pageSize = Math.min(MAX_LOG_PAGE_SIZE, Math.max(1, parseInt(query.pageSize, 10) || DEFAULT_LOG_PAGE_SIZE));
+
+  return { filters, page, pageSize };
+}
+
+const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  provider: DEFAULT_LLM_PROVIDER,
+  model: "gpt-4o",
+  maxTokens: 1000,
+  temperature: 0.7,
+};
+const GENERATION_SETTING_KEYS = ['llm_provider', 'openai_model', 'openai_max_tokens', 'openai_temperature'];
+const MAX_COMPLETION_TOKENS = 4096;
+
+// Helper function to validate a generation setting value, returning an error message when invalid
+function validateGenerationSetting(key: string, value: string): string | null {
+  switch (key) {
+    case 'llm_provider':
+      return LLM_PROVIDERS.includes(value) ? null : `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`;
+    case 'openai_model':
+      return SUPPORTED_MODELS.includes(value) ? null : `Model must be one of: ${SUPPORTED_MODELS.join(', ')}`;
+    case 'openai_max_tokens': {
+      const maxTokens = Number(value);
+      return Number.isInteger(maxTokens) && maxTokens >= 1 && maxTokens <= MAX_COMPLETION_TOKENS
+        ? null
+        : `Max tokens must be a whole number between 1 and ${MAX_COMPLETION_TOKENS}`;
+    }
+    case 'openai_temperature': {
+      const temperature = Number(value);
+      return value.trim() !== '' && !isNaN(temperature) && temperature >= 0 && temperature <= 2
+        ? null
+        : "Temperature must be a number between 0 and 2";
+    }
+    default:
+      return null;
+  }
 }
 
-function sanitizeForJSON(content: string): string {
-  // Ensure content can be safely serialized to JSON
-  try {
-    JSON.stringify(content);
-    return content;
-  } catch {
-    // Remove problematic characters
-    return content.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
+// Knowde endpoint overrides; an empty value falls back to the environment
+const KNOWDE_SETTING_KEYS = ['knowde_base_url', 'knowde_timeout_ms'];
+const MAX_KNOWDE_TIMEOUT_MS = 120000;
+
+// Helper function to validate a Knowde setting value, returning an error message when invalid
+function validateKnowdeSetting(key: string, value: string): string | null {
+  if (value.trim() === '') {
+    return null;
+  }
+  switch (key) {
+    case 'knowde_base_url': {
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : "Knowde URL must start with http:// or https://";
+      } catch {
+        return "Knowde URL must be a valid URL";
+      }
+    }
+    case 'knowde_timeout_ms': {
+      const timeoutMs = Number(value);
+      return Number.isInteger(timeoutMs) && timeoutMs >= 1000 && timeoutMs <= MAX_KNOWDE_TIMEOUT_MS
+        ? null
+        : `Timeout must be a whole number of milliseconds between 1000 and ${MAX_KNOWDE_TIMEOUT_MS}`;
+    }
+    default:
+      return null;
   }
 }
 
-// Helper function to normalize questions for matching
-function normalizeQuestion(question: string): string {
-  return question
-    .toLowerCase()
-    .trim()
-    .replace(/[?!.,;]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' '); // Normalize whitespace
+// RAG cache size, TTL and whether it is persisted to Postgres
+const RAG_CACHE_SETTING_KEYS = ['rag_cache_max_entries', 'rag_cache_ttl_minutes', 'rag_cache_persist'];
+const MAX_RAG_CACHE_ENTRIES = 10000;
+const MAX_RAG_CACHE_TTL_MINUTES = 7 * 24 * 60;
+
+// Helper function to validate a RAG cache setting value, returning an error message when invalid
+function validateRagCacheSetting(key: string, value: string): string | null {
+  switch (key) {
+    case 'rag_cache_max_entries': {
+      const maxEntries = Number(value);
+      return Number.isInteger(maxEntries) && maxEntries >= 1 && maxEntries <= MAX_RAG_CACHE_ENTRIES
+        ? null
+        : `Cache size must be a whole number of entries between 1 and ${MAX_RAG_CACHE_ENTRIES}`;
+    }
+    case 'rag_cache_ttl_minutes': {
+      const minutes = Number(value);
+      return Number.isInteger(minutes) && minutes >= 1 && minutes <= MAX_RAG_CACHE_TTL_MINUTES
+        ? null
+        : `Cache TTL must be a whole number of minutes between 1 and ${MAX_RAG_CACHE_TTL_MINUTES}`;
+    }
+    case 'rag_cache_persist':
+      return value === 'true' || value === 'false' ? null : "Value must be 'true' or 'false'";
+    default:
+      return null;
+  }
 }
 
-// Helper function to check if questions match
-function questionsMatch(userQuestion: string, mockQuestion: string): boolean {
-  const normalizedUser = normalizeQuestion(userQuestion);
-  const normalizedMock = normalizeQuestion(mockQuestion);
-  return normalizedUser === normalizedMock;
+const MAX_WARM_QUERIES = 200; // Warming searches one query at a time, so keep a single request bounded
+
+const MATCH_SETTING_KEYS = ['mock_match_threshold', 'mock_match_use_vectors', 'mock_match_synonyms'];
+const MATCH_PREVIEW_CANDIDATES = 5;
+
+// Helper function to validate a 0-1 match threshold, returning an error message when invalid
+function validateMatchThreshold(value: unknown): string | null {
+  const threshold = Number(value);
+  return value !== '' && value !== null && !isNaN(threshold) && threshold >= 0 && threshold <= 1
+    ? null
+    : "Match threshold must be a number between 0 and 1";
 }
 
-// Helper function to resolve follow-up responses with linked responses
-async function resolveFollowUpResponses(mockResponse: any): Promise<{
-  followUpChips: string[];
-  followUpResponses: string[];
-  followUpResponsesData: any[];
-}> {
-  const resolvedChips: string[] = [];
-  const resolvedResponses: string[] = [];
-  const resolvedResponsesData: any[] = [];
-  
-  if (!mockResponse.followUpChips || mockResponse.followUpChips.length === 0) {
-    return { followUpChips: [], followUpResponses: [], followUpResponsesData: [] };
+// Helper function to read an optional per-response threshold from a request body; blank means "use the default"
+function parseMatchThreshold(value: unknown): { value: number | null } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { value: null };
   }
-  
-  for (let i = 0; i < mockResponse.followUpChips.length; i++) {
-    const chip = mockResponse.followUpChips[i];
-    const responseType = mockResponse.followUpResponseTypes?.[i] || 'custom';
-    
-    resolvedChips.push(chip);
-    
-    if (responseType === 'existing') {
-      const linkedResponseId = mockResponse.followUpLinkedResponseIds?.[i];
-      if (linkedResponseId) {
-        const linkedResponse = await storage.getMockResponseById(linkedResponseId);
-        if (linkedResponse) {
-          resolvedResponses.push(linkedResponse.response);
-          // Include the full linked response data with its own follow-up questions and try asking prompts
-          resolvedResponsesData.push({
-            content: linkedResponse.response,
-            tryAskingPrompts: linkedResponse.tryAskingPrompts || [],
-            showTryAsking: linkedResponse.showTryAsking || false,
-            showFollowUp: linkedResponse.showFollowUp || false,
-            followUpQuestion: linkedResponse.followUpQuestion || '',
-            followUpChips: linkedResponse.followUpChips || [],
-            followUpResponses: linkedResponse.followUpResponses || [],
-            followUpResponseTypes: linkedResponse.followUpResponseTypes || [],
-            followUpLinkedResponseIds: linkedResponse.followUpLinkedResponseIds || []
-          });
-        } else {
-          // Fallback to custom response if linked response not found
-          resolvedResponses.push(mockResponse.followUpResponses?.[i] || '');
-          resolvedResponsesData.push({
-            content: mockResponse.followUpResponses?.[i] || '',
-            tryAskingPrompts: [],
-            showTryAsking: false,
-            showFollowUp: false,
-            followUpQuestion: '',
-            followUpChips: [],
-            followUpResponses: [],
-            followUpResponseTypes: [],
-            followUpLinkedResponseIds: []
-          });
-        }
-      } else {
-        // Fallback to custom response if no linked ID
-        resolvedResponses.push(mockResponse.followUpResponses?.[i] || '');
-        resolvedResponsesData.push({
-          content: mockResponse.followUpResponses?.[i] || '',
-          tryAskingPrompts: [],
-          showTryAsking: false,
-          showFollowUp: false,
-          followUpQuestion: '',
-          followUpChips: [],
-          followUpResponses: [],
-          followUpResponseTypes: [],
-          followUpLinkedResponseIds: []
-        });
-      }
-    } else {
-      // Custom response type
-      resolvedResponses.push(mockResponse.followUpResponses?.[i] || '');
-      resolvedResponsesData.push({
-        content: mockResponse.followUpResponses?.[i] || '',
-        tryAskingPrompts: [],
-        showTryAsking: false,
-        showFollowUp: false,
-        followUpQuestion: '',
-        followUpChips: [],
-        followUpResponses: [],
-        followUpResponseTypes: [],
-        followUpLinkedResponseIds: []
-      });
+  const validationError = validateMatchThreshold(value);
+  return validationError ? { error: validationError } : { value: Number(value) };
+}
+
+// Helper function to identify who made a change, for revision history
+function revisionAuthor(req: Request): RevisionAuthor {
+  return { userId: req.user?.id ?? null, username: req.user?.username ?? null };
+}
+
+// Helper function to read which drafts to publish or discard from a request body
+function parseDraftSelection(body: any): DraftSelection {
+  const mockResponseIds = Array.isArray(body?.mockResponseIds)
+    ? body.mockResponseIds.map((id: unknown) => Number(id)).filter((id: number) => Number.isInteger(id))
+    : [];
+  return { mockResponseIds, systemPrompt: body?.systemPrompt === true };
+}
+
+// Helper function to find responses outside `ids` whose follow-up chips link to any of them, live or in a draft
+function findLinkingResponses(ids: number[], mockResponses: MockResponse[]): MockResponse[] {
+  const workingCopies = mockResponses.map(applyMockResponseDraft);
+  const linking = new Map<number, MockResponse>();
+  for (const id of ids) {
+    for (const mockResponse of [...findReferencingResponses(id, mockResponses), ...findReferencingResponses(id, workingCopies)]) {
+      if (!ids.includes(mockResponse.id)) linking.set(mockResponse.id, mockResponse);
     }
   }
-  
-  return { followUpChips: resolvedChips, followUpResponses: resolvedResponses, followUpResponsesData: resolvedResponsesData };
+  return Array.from(linking.values());
+}
+
+// Helper function to read the intro questions setting (one per line, possibly saved as rich text)
+function parseIntroQuestions(value: string | undefined): string[] {
+  return (value || '')
+    .replace(/<[^>]*>/g, '\n')
+    .split('\n')
+    .map(question => question.trim())
+    .filter(question => question.length > 0);
+}
+
+// Helper function to clean a list of strings from a request body: trimmed, non-empty and without duplicates
+function parseStringList(value: unknown, lowercase = false): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => lowercase ? item.trim().toLowerCase() : item.trim())
+    .filter(item => item.length > 0);
+  return Array.from(new Set(items));
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Offline stand-in for Knowde, outside /api so the server can call it without a session
+  if (isFakeKnowdeEnabled()) {
+    registerFakeKnowde(app);
+  }
+
+  // Authentication routes (login, logout, register, current user)
+  setupAuth(app);
+
+  // Every other API route requires a signed-in user; version info stays public for the feedback form
+  app.use("/api", (req, res, next) => {
+    if (req.path === "/version") {
+      return next();
+    }
+    requireAuth(req, res, next);
+  });
+
+  // Role guards for admin-only routes and curated content editing
+  const requireAdmin = requireRole('admin');
+  const requireEditor = requireRole('admin', 'editor');
+
   // Settings routes
-  app.get("/api/settings/:key", async (req, res) => {
+  app.get("/api/settings/:key", (req, res, next) => {
+    if (PUBLIC_SETTING_KEYS.includes(req.params.key)) {
+      return next();
+    }
+    requireEditor(req, res, next);
+  }, async (req, res) => {
     try {
       const { key } = req.params;
       const setting = await storage.getSetting(key);
@@ -153,7 +263,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/settings/:key", async (req, res) => {
+  app.put("/api/settings/:key", requireAdmin, async (req, res) => {
     try {
       const { key } = req.params;
       const { value } = req.body;
@@ -162,22 +272,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Value is required" });
       }
       
-      const setting = await storage.updateSetting(key, value);
-      
-      // Invalidate system prompt cache when it's updated
+      // The live prompt only changes through publish, which records the revision
       if (key === 'system_prompt') {
-        systemPromptCache = null;
-        console.log('System prompt cache invalidated after admin update');
+        return res.status(400).json({ error: `Save the system prompt to '${SYSTEM_PROMPT_DRAFT_KEY}' and publish it from Unpublished Changes` });
+      }
+      
+      if (key === 'api_log_retention_days') {
+        const days = Number(value);
+        if (!Number.isInteger(days) || days < 1 || days > MAX_LOG_RETENTION_DAYS) {
+          return res.status(400).json({ error: `Retention must be a whole number of days between 1 and ${MAX_LOG_RETENTION_DAYS}` });
+        }
+      }
+      
+      if (GENERATION_SETTING_KEYS.includes(key)) {
+        const validationError = validateGenerationSetting(key, String(value));
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+      }
+      
+      if (key === 'mock_match_threshold') {
+        const validationError = validateMatchThreshold(value);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+      }
+      
+      if (key === 'mock_match_use_vectors' && value !== 'true' && value !== 'false') {
+        return res.status(400).json({ error: "Value must be 'true' or 'false'" });
+      }
+      
+      if (KNOWDE_SETTING_KEYS.includes(key)) {
+        const validationError = validateKnowdeSetting(key, String(value));
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+      }
+      
+      if (RAG_CACHE_SETTING_KEYS.includes(key)) {
+        const validationError = validateRagCacheSetting(key, String(value));
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+      }
+      
+      const setting = await storage.updateSetting(key, value, revisionAuthor(req));
+      
+      // Apply a shorter retention window straight away
+      if (key === 'api_log_retention_days') {
+        apiLogger.pruneLogs().catch((error) => {
+          console.error('API log retention error:', error);
+        });
       }
       
+      invalidateSettingCaches(key);
+      
       res.json(setting);
     } catch (error) {
       res.status(500).json({ error: "Failed to update setting" });
     }
   });
 
+  // Revision history for versioned settings (the system prompt), newest first
+  app.get("/api/settings/:key/revisions", requireAdmin, async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!VERSIONED_SETTING_KEYS.includes(key)) {
+        return res.status(400).json({ error: `History is only kept for: ${VERSIONED_SETTING_KEYS.join(', ')}` });
+      }
+      res.json(await storage.getSettingRevisions(key));
+    } catch (error) {
+      console.error('Setting revisions error:', error);
+      res.status(500).json({ error: "Failed to get setting history" });
+    }
+  });
+
+  app.post("/api/settings/:key/revisions/:revisionId/restore", requireAdmin, async (req, res) => {
+    try {
+      const { key, revisionId } = req.params;
+      const revision = await storage.getSettingRevision(parseInt(revisionId));
+      if (!revision || revision.key !== key) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      // Restoring the system prompt saves it as the draft, so it goes through publish like any other edit
+      const setting = key === 'system_prompt'
+        ? await storage.updateSetting(SYSTEM_PROMPT_DRAFT_KEY, revision.value, revisionAuthor(req))
+        : await storage.updateSetting(key, revision.value, revisionAuthor(req), 'restore');
+      invalidateSettingCaches(setting.key);
+      res.json(setting);
+    } catch (error) {
+      console.error('Setting restore error:', error);
+      res.status(500).json({ error: "Failed to restore setting" });
+    }
+  });
+
   // Mock responses routes
-  app.get("/api/mock-responses", async (req, res) => {
+  app.get("/api/mock-responses", requireEditor, async (req, res) => {
     try {
       const mockResponses = await storage.getMockResponses();
       res.json(mockResponses);
@@ -186,7 +377,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/mock-responses/:question", async (req, res) => {
+  // Export every mock response as a JSON or CSV download; linked follow-ups refer to questions, not ids
+  app.get("/api/mock-responses/export", requireEditor, async (req, res) => {
+    try {
+      const format = (req.query.format || 'json') as TransferFormat;
+      if (!TRANSFER_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of: ${TRANSFER_FORMATS.join(', ')}` });
+      }
+
+      const records = toRecords((await storage.getMockResponses()).map(applyMockResponseDraft));
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="mock-responses-${date}.${format}"`);
+      res.send(serializeRecords(records, format));
+    } catch (error) {
+      console.error('Mock response export error:', error);
+      res.status(500).json({ error: "Failed to export mock responses" });
+    }
+  });
+
+  // Import mock responses from JSON or CSV; dryRun returns the per-row plan without saving
+  app.post("/api/mock-responses/import", requireEditor, async (req, res) => {
+    try {
+      const { format, content, dryRun = true } = req.body;
+      if (!TRANSFER_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of: ${TRANSFER_FORMATS.join(', ')}` });
+      }
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: "File content is required" });
+      }
+
+      const { plan, rows } = buildImportPlan(
+        format,
+        parseImport(content, format),
+        (await storage.getMockResponses()).map(applyMockResponseDraft)
+      );
+
+      if (dryRun) {
+        return res.json({ plan });
+      }
+      if (plan.summary.invalid > 0) {
+        return res.status(400).json({ error: `Fix the ${plan.summary.invalid} invalid row(s) before importing`, plan });
+      }
+
+      const result = await storage.importMockResponses(rows, revisionAuthor(req));
+      res.json({ plan, ...result });
+    } catch (error) {
+      if (error instanceof ImportFormatError || error instanceof ImportLinkError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Mock response import error:', error);
+      res.status(500).json({ error: "Failed to import mock responses" });
+    }
+  });
+
+  // Broken links, loops and unreachable responses in the follow-up graph, as editors currently see it (drafts applied)
+  app.get("/api/mock-responses/follow-up-issues", requireEditor, async (req, res) => {
+    try {
+      const [allMockResponses, introQuestionsSetting] = await Promise.all([
+        storage.getMockResponses(),
+        storage.getSetting('intro_questions')
+      ]);
+      const issues = validateFollowUpGraph(
+        allMockResponses.map(applyMockResponseDraft),
+        parseIntroQuestions(introQuestionsSetting?.value)
+      );
+      res.json({ issues });
+    } catch (error) {
+      console.error('Follow-up issues error:', error);
+      res.status(500).json({ error: "Failed to check follow-up links" });
+    }
+  });
+
+  // Show which curated answer a test question would hit, with the top-scoring candidates
+  app.post("/api/mock-responses/match-preview", requireEditor, async (req, res) => {
+    try {
+      const { question } = req.body;
+      if (typeof question !== 'string' || !question.trim()) {
+        return res.status(400).json({ error: "Question is required" });
+      }
+
+      // Preview against drafts, so editors can check a change before publishing it
+      const [allMockResponses, matchSettings] = await Promise.all([
+        storage.getMockResponses(),
+        getMatchSettings()
+      ]);
+      const candidates = rankMockResponses(question, allMockResponses.map(applyMockResponseDraft), matchSettings);
+
+      res.json({
+        question,
+        normalizedQuestion: normalizeQuestion(question),
+        settings: matchSettings,
+        match: candidates.find(candidate => candidate.matched) ?? null,
+        candidates: candidates.slice(0, MATCH_PREVIEW_CANDIDATES)
+      });
+    } catch (error) {
+      console.error('Mock match preview error:', error);
+      res.status(500).json({ error: "Failed to preview mock response match" });
+    }
+  });
+
+  app.get("/api/mock-responses/:question", requireEditor, async (req, res) => {
     try {
       const { question } = req.params;
       const mockResponse = await storage.getMockResponse(decodeURIComponent(question));
@@ -199,7 +490,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mock-responses", async (req, res) => {
+  app.post("/api/mock-responses", requireEditor, async (req, res) => {
     try {
       const { 
         question, 
@@ -218,6 +509,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Question and response are required" });
       }
       
+      const matchThreshold = parseMatchThreshold(req.body.matchThreshold);
+      if ('error' in matchThreshold) {
+        return res.status(400).json({ error: matchThreshold.error });
+      }
+      
+      const linkError = validateFollowUpTargets(
+        { followUpChips, followUpResponseTypes, followUpLinkedResponseIds },
+        await storage.getMockResponses()
+      );
+      if (linkError) {
+        return res.status(400).json({ error: linkError });
+      }
+      
       const mockResponse = await storage.createMockResponse({ 
         question, 
         response, 
@@ -228,15 +532,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         followUpChips,
         followUpResponses,
         followUpResponseTypes,
-        followUpLinkedResponseIds
-      });
+        followUpLinkedResponseIds,
+        matchThreshold: matchThreshold.value,
+        alternateQuestions: parseStringList(req.body.alternateQuestions).filter(phrasing => phrasing !== question.trim()),
+        tags: parseStringList(req.body.tags, true)
+      }, revisionAuthor(req));
       res.json(mockResponse);
     } catch (error) {
       res.status(500).json({ error: "Failed to create mock response" });
     }
   });
 
-  app.put("/api/mock-responses/:id", async (req, res) => {
+  app.put("/api/mock-responses/:id", requireEditor, async (req, res) => {
     try {
       const { id } = req.params;
       const { 
@@ -256,7 +563,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Question and response are required" });
       }
       
-      const mockResponse = await storage.updateMockResponse(parseInt(id), { 
+      const matchThreshold = parseMatchThreshold(req.body.matchThreshold);
+      if ('error' in matchThreshold) {
+        return res.status(400).json({ error: matchThreshold.error });
+      }
+      
+      const existing = await storage.getMockResponseById(parseInt(id));
+      if (!existing) {
+        return res.status(404).json({ error: "Mock response not found" });
+      }
+      
+      const linkError = validateFollowUpTargets(
+        { followUpChips, followUpResponseTypes, followUpLinkedResponseIds },
+        await storage.getMockResponses()
+      );
+      if (linkError) {
+        return res.status(400).json({ error: linkError });
+      }
+      
+      // Published responses keep serving users until the edit is published; unpublished ones are edited in place
+      const values = { 
         question, 
         response, 
         showTryAsking, 
@@ -266,30 +592,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
         followUpChips,
         followUpResponses,
         followUpResponseTypes,
-        followUpLinkedResponseIds
-      });
+        followUpLinkedResponseIds,
+        matchThreshold: matchThreshold.value,
+        alternateQuestions: parseStringList(req.body.alternateQuestions).filter(phrasing => phrasing !== question.trim()),
+        tags: parseStringList(req.body.tags, true)
+      };
+      const mockResponse = existing.status === 'published'
+        ? await storage.saveMockResponseDraft(existing.id, values)
+        : await storage.updateMockResponse(existing.id, values, revisionAuthor(req));
       res.json(mockResponse);
     } catch (error) {
       res.status(500).json({ error: "Failed to update mock response" });
     }
   });
 
-  app.delete("/api/mock-responses/:id", async (req, res) => {
+  // Follow-up tree below one response, for the graph view
+  app.get("/api/mock-responses/:id/follow-up-tree", requireEditor, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteMockResponse(parseInt(id));
+      const allMockResponses = (await storage.getMockResponses()).map(applyMockResponseDraft);
+      const tree = buildFollowUpTree(parseInt(req.params.id), allMockResponses);
+      if (!tree) {
+        return res.status(404).json({ error: "Mock response not found" });
+      }
+      res.json(tree);
+    } catch (error) {
+      console.error('Follow-up tree error:', error);
+      res.status(500).json({ error: "Failed to build follow-up tree" });
+    }
+  });
+
+  // Revision history for one mock response, newest first
+  app.get("/api/mock-responses/:id/revisions", requireEditor, async (req, res) => {
+    try {
+      const revisions = await storage.getMockResponseRevisions(parseInt(req.params.id));
+      res.json(revisions.map(revision => ({ ...revision, snapshot: JSON.parse(revision.snapshot) })));
+    } catch (error) {
+      console.error('Mock response revisions error:', error);
+      res.status(500).json({ error: "Failed to get mock response history" });
+    }
+  });
+
+  app.post("/api/mock-responses/:id/revisions/:revisionId/restore", requireEditor, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revision = await storage.getMockResponseRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.mockResponseId !== id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const existing = await storage.getMockResponseById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Mock response not found" });
+      }
+
+      // An old snapshot can link to responses that have since been deleted
+      const snapshot = JSON.parse(revision.snapshot);
+      const linkError = validateFollowUpTargets(snapshot, await storage.getMockResponses());
+      if (linkError) {
+        return res.status(400).json({ error: linkError });
+      }
+
+      // Like an edit, a restore to a published response waits in its draft until it is published
+      const mockResponse = existing.status === 'published'
+        ? await storage.saveMockResponseDraft(id, snapshot)
+        : await storage.updateMockResponse(id, snapshot, revisionAuthor(req), 'restore');
+      res.json(mockResponse);
+    } catch (error) {
+      console.error('Mock response restore error:', error);
+      res.status(500).json({ error: "Failed to restore mock response" });
+    }
+  });
+
+  app.delete("/api/mock-responses/:id", requireEditor, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // Refuse while follow-up chips still link here, so no link is left dangling
+      const referencedBy = findLinkingResponses([id], await storage.getMockResponses());
+      if (referencedBy.length > 0) {
+        return res.status(409).json({
+          error: `This response is linked from follow-up chips on ${referencedBy.map(mockResponse => `"${mockResponse.question}"`).join(', ')}. Remove those links first.`,
+          referencedBy: referencedBy.map(mockResponse => ({ id: mockResponse.id, question: mockResponse.question }))
+        });
+      }
+      
+      await storage.deleteMockResponse(id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete mock response" });
     }
   });
 
+  // Everything waiting to be published: new and edited mock responses and a system prompt draft
+  app.get("/api/drafts", requireEditor, async (req, res) => {
+    try {
+      const [allMockResponses, systemPromptDraft] = await Promise.all([
+        storage.getMockResponses(),
+        storage.getSetting(SYSTEM_PROMPT_DRAFT_KEY)
+      ]);
+
+      res.json({
+        mockResponses: allMockResponses
+          .filter(mockResponse => mockResponse.status === 'draft' || mockResponse.draft)
+          .map(mockResponse => ({
+            id: mockResponse.id,
+            question: applyMockResponseDraft(mockResponse).question,
+            change: mockResponse.status === 'draft' ? 'new' : 'edited',
+            updatedAt: mockResponse.updatedAt
+          })),
+        systemPrompt: systemPromptDraft ? { value: systemPromptDraft.value } : null
+      });
+    } catch (error) {
+      console.error('Drafts error:', error);
+      res.status(500).json({ error: "Failed to get drafts" });
+    }
+  });
+
+  app.post("/api/drafts/publish", requireEditor, async (req, res) => {
+    try {
+      const selection = parseDraftSelection(req.body);
+      if (selection.systemPrompt && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: "Only admins can publish the system prompt" });
+      }
+
+      const result = await storage.publishDrafts(selection, revisionAuthor(req));
+      if (result.systemPrompt) {
+        invalidateSettingCaches('system_prompt');
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof UnpublishedLinkError) {
+        return res.status(409).json({ error: error.message, referencedBy: error.referencedBy, targets: error.targets });
+      }
+      console.error('Publish drafts error:', error);
+      res.status(500).json({ error: "Failed to publish drafts" });
+    }
+  });
+
+  app.post("/api/drafts/discard", requireEditor, async (req, res) => {
+    try {
+      const selection = parseDraftSelection(req.body);
+      if (selection.systemPrompt && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: "Only admins can discard the system prompt draft" });
+      }
+
+      // Discarding a never-published response deletes it, so it must not be linked from responses that stay
+      const allMockResponses = await storage.getMockResponses();
+      const deletedIds = allMockResponses
+        .filter(mockResponse => mockResponse.status === 'draft' && selection.mockResponseIds.includes(mockResponse.id))
+        .map(mockResponse => mockResponse.id);
+      const referencedBy = findLinkingResponses(deletedIds, allMockResponses);
+      if (referencedBy.length > 0) {
+        return res.status(409).json({
+          error: `New responses being discarded are linked from follow-up chips on ${referencedBy.map(mockResponse => `"${mockResponse.question}"`).join(', ')}. Remove those links first.`,
+          referencedBy: referencedBy.map(mockResponse => ({ id: mockResponse.id, question: mockResponse.question }))
+        });
+      }
+
+      res.json(await storage.discardDrafts(selection));
+    } catch (error) {
+      console.error('Discard drafts error:', error);
+      res.status(500).json({ error: "Failed to discard drafts" });
+    }
+  });
+
   // Cache for system prompt to avoid repeated database calls
   let systemPromptCache: { value: string; timestamp: number } | null = null;
   const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-  // Helper function to get cached system prompt
-  async function getSystemPrompt(): Promise<string> {
+  // Helper function to get cached system prompt; previews use the unpublished draft when there is one
+  async function getSystemPrompt(preview = false): Promise<string> {
+    if (preview) {
+      const draft = await storage.getSetting(SYSTEM_PROMPT_DRAFT_KEY);
+      if (draft?.value) {
+        return draft.value;
+      }
+    }
+
     const now = Date.now();
     
     // Check if we have a valid cached prompt
@@ -311,333 +790,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return systemPrompt;
   }
 
-  // Chat endpoint with OpenAI integration and streaming
-  app.post("/api/chat", async (req, res) => {
-    try {
-      const { question } = req.body;
-      
-      if (!question || typeof question !== 'string') {
-        return res.status(400).json({ error: "Question is required" });
-      }
+  // Cache for model and generation parameters, invalidated like the system prompt
+  let generationSettingsCache: { value: GenerationSettings; timestamp: number } | null = null;
 
-      const startTime = Date.now();
+  // Helper function to get cached generation settings, falling back to defaults for missing or invalid values
+  async function getGenerationSettings(): Promise<GenerationSettings> {
+    const now = Date.now();
 
-      // Optimize Step 1 & 2: Check for mock responses in parallel
-      const [exactMatch, allMockResponses] = await Promise.all([
-        storage.getMockResponse(question),
-        storage.getMockResponses()
-      ]);
+    if (generationSettingsCache && (now - generationSettingsCache.timestamp) < CACHE_DURATION) {
+      return generationSettingsCache.value;
+    }
 
-      let mockResponse = exactMatch;
-      
-      // Step 2: If no exact match, try normalized matching
-      if (!mockResponse) {
-        mockResponse = allMockResponses.find(mock => 
-          questionsMatch(question, mock.question)
-        );
-      }
+    const [providerSetting, modelSetting, maxTokensSetting, temperatureSetting] = await Promise.all(
+      GENERATION_SETTING_KEYS.map(key => storage.getSetting(key))
+    );
+    const valueFor = (key: string, setting: { value: string } | undefined) =>
+      setting && validateGenerationSetting(key, setting.value) === null ? setting.value : undefined;
+
+    const provider = valueFor('llm_provider', providerSetting);
+    const model = valueFor('openai_model', modelSetting);
+    const maxTokens = valueFor('openai_max_tokens', maxTokensSetting);
+    const temperature = valueFor('openai_temperature', temperatureSetting);
+
+    const generationSettings: GenerationSettings = {
+      provider: provider ?? DEFAULT_GENERATION_SETTINGS.provider,
+      model: model ?? DEFAULT_GENERATION_SETTINGS.model,
+      maxTokens: maxTokens !== undefined ? Number(maxTokens) : DEFAULT_GENERATION_SETTINGS.maxTokens,
+      temperature: temperature !== undefined ? Number(temperature) : DEFAULT_GENERATION_SETTINGS.temperature,
+    };
 
-      // Step 3: If mock response found, use it
-      if (mockResponse) {
-        // Resolve follow-up responses to handle linked responses
-        const resolvedFollowUps = await resolveFollowUpResponses(mockResponse);
-        
-        const response = {
-          source: 'mock',
-          content: mockResponse.response,
-          processingTime: Date.now() - startTime,
-          tryAskingPrompts: mockResponse.tryAskingPrompts || [],
-          showTryAsking: mockResponse.showTryAsking || false,
-          showFollowUp: mockResponse.showFollowUp || false,
-          followUpQuestion: mockResponse.followUpQuestion || '',
-          followUpChips: resolvedFollowUps.followUpChips,
-          followUpResponses: resolvedFollowUps.followUpResponses,
-          followUpResponsesData: resolvedFollowUps.followUpResponsesData
-        };
-        
-        return res.json(response);
-      } 
-      
-      // Step 4: No mock response found, try RAG search
-      let ragContent = '';
-      let ragResponseTime = 0;
-      let disambiguationDetected = false;
-      let disambiguationContent = '';
-      
-      if (ragService.isConfigured()) {
-        try {
-          console.log('RAG Search: Attempting to find relevant content for:', question);
-          const ragResult = await ragService.searchWithProcessing({ message: question });
-          
-          // Phase 1 & 2: Check for disambiguation signal and parse data
-          if (ragResult.success && ragResult.disambiguationDetected) {
-            disambiguationDetected = true;
-            disambiguationContent = ragResult.rawResponse || '';
-            console.log('RAG Search: DISAMBIGUATION DETECTED - Multiple product matches found');
-            console.log('RAG Search: This query requires user clarification before full product data can be returned');
-            
-            // Phase 2 & 3: Check if we have parsed disambiguation data
-            if (ragResult.disambiguationData && ragResult.disambiguationData.options.length > 0) {
-              console.log('RAG Search: Phase 3 - Returning disambiguation response with', ragResult.disambiguationData.options.length, 'options');
-              
-              // Phase 3: Return disambiguation response immediately instead of continuing to OpenAI
-              const disambiguationResponse = {
-                type: 'disambiguation',
-                source: 'rag-disambiguation',
-                disambiguationData: ragResult.disambiguationData,
-                processingTime: Date.now() - startTime,
-                ragResponseTime: ragResult.responseTime || 0
-              };
-
-              // Log the disambiguation response
-              apiLogger.log({
-                userQuestion: question,
-                systemPrompt: await getSystemPrompt(),
-                ragContent: ragContent || undefined,
-                openaiMessages: [], // No OpenAI messages for disambiguation
-                response: `Disambiguation response with ${ragResult.disambiguationData.options.length} options`,
-                source: 'rag-disambiguation' as any,
-                processingTime: Date.now() - startTime,
-                ragResponseTime: ragResult.responseTime || 0,
-                ragContentLength: ragContent ? ragContent.length : undefined,
-                disambiguationDetected: true,
-                disambiguationContent: ragResult.rawResponse,
-                disambiguationParsed: {
-                  optionsCount: ragResult.disambiguationData.options.length,
-                  options: ragResult.disambiguationData.options.map(opt => ({
-                    name: opt.name,
-                    company: opt.company,
-                    description: opt.description
-                  })),
-                  instructions: ragResult.disambiguationData.instructions
-                }
-              });
-
-              res.json(disambiguationResponse);
-              return;
-            }
-          }
-          
-          if (ragResult.success && ragResult.processedContent && ragResult.processedContent.length > 100) {
-            ragContent = ragResult.processedContent;
-            ragResponseTime = ragResult.responseTime || 0;
-            
-            console.log('RAG Search: Found relevant content, length:', ragContent.length);
-            console.log('RAG Search: Sources:', ragResult.sources?.length || 0);
-            console.log('RAG Search: Average score:', ragResult.averageScore?.toFixed(2) || 'N/A');
-            console.log('RAG Search: Using RAG content as context for OpenAI');
-          } else {
-            console.log('RAG Search: No relevant content found or content too short');
-          }
-        } catch (ragError: any) {
-          console.error('RAG Search: Error during search:', ragError.message);
-          // Continue to OpenAI if RAG fails
-        }
-      }
-      
-      // Step 5: Use OpenAI with streaming (potentially with RAG context)
-      if (!process.env.OPEN_AI_KEY_JPR) {
-        return res.status(500).json({ 
-          error: "OpenAI API key not configured" 
-        });
-      }
+    generationSettingsCache = {
+      value: generationSettings,
+      timestamp: now
+    };
 
-      try {
-        // Get system prompt from cache
-        const systemPrompt = await getSystemPrompt();
-
-        // Prepare messages with potential RAG context
-        const messages: { role: "system" | "user"; content: string }[] = [
-          {
-            role: "system",
-            content: systemPrompt
-          }
-        ];
-        
-        // Add RAG context if available - positioned immediately after system prompt for priority
-        if (ragContent.length > 100) {
-          messages.push({
-            role: "system",
-            content: `RAG DATA SOURCE - Context block from the provided RAG data source:\n\n${ragContent}\n\nThis is the primary data source referenced in your instructions. You MUST base your response primarily on this specific product information. Integrate these exact products, companies, and technical specifications as the foundation of your answer.`
-          });
-        }
-        
-        messages.push({
-          role: "user",
-          content: question
-        });
+    return generationSettings;
+  }
 
-        // Use streaming for faster perceived response time
-        const stream = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: messages as any,
-          max_tokens: 1000,
-          temperature: 0.7,
-          stream: true,
-        });
+  // Cache for mock response matching settings, invalidated like the system prompt
+  let matchSettingsCache: { value: MatchSettings; timestamp: number } | null = null;
 
-        // Set up Server-Sent Events for streaming
-        res.writeHead(200, {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-          'Access-Control-Allow-Origin': '*',
-        });
+  // Helper function to get cached matching settings, falling back to defaults for missing or invalid values
+  async function getMatchSettings(): Promise<MatchSettings> {
+    const now = Date.now();
 
-        let fullContent = '';
-        
-        // Send initial metadata
-        res.write(`data: ${JSON.stringify({ 
-          type: 'start', 
-          source: ragContent.length > 100 ? 'openai-rag' : 'openai', 
-          startTime: Date.now(),
-          ragResponseTime: ragResponseTime,
-          ragContentLength: ragContent.length
-        })}\n\n`);
-
-        // Enhanced streaming with smart chunking
-        let contentBuffer = '';
-        let chunkCounter = 0;
-        
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            fullContent += content;
-            contentBuffer += content;
-            chunkCounter++;
-            
-            // Smart chunking: send when we have complete semantic units or buffer is large
-            const shouldSendChunk = 
-              chunkCounter >= 5 || // Send every 5 tokens
-              contentBuffer.length >= 50 || // Send when buffer reaches 50 characters
-              isSemanticBoundary(contentBuffer) || // Send at semantic boundaries
-              isCompleteHTMLElement(contentBuffer); // Send when HTML element is complete
-            
-            if (shouldSendChunk) {
-              try {
-                // Sanitize content before sending
-                const sanitizedContent = sanitizeForJSON(contentBuffer);
-                const chunkData = {
-                  type: 'content',
-                  content: sanitizedContent,
-                  fullContent: sanitizeForJSON(fullContent)
-                };
-                
-                const jsonString = JSON.stringify(chunkData);
-                res.write(`data: ${jsonString}\n\n`);
-                
-                contentBuffer = '';
-                chunkCounter = 0;
-              } catch (jsonError) {
-                // If JSON serialization fails, skip this chunk and continue
-                console.warn('JSON serialization error, skipping chunk:', jsonError);
-                contentBuffer = '';
-                chunkCounter = 0;
-              }
-            }
-          }
-        }
-        
-        // Send any remaining content in buffer
-        if (contentBuffer.length > 0) {
-          try {
-            const finalChunkData = {
-              type: 'content',
-              content: contentBuffer,
-              fullContent: fullContent
-            };
-            res.write(`data: ${JSON.stringify(finalChunkData)}\n\n`);
-          } catch (jsonError) {
-            console.warn('Final chunk JSON error:', jsonError);
-          }
-        }
+    if (matchSettingsCache && (now - matchSettingsCache.timestamp) < CACHE_DURATION) {
+      return matchSettingsCache.value;
+    }
 
-        // Send completion metadata with error handling
-        try {
-          const completionData = {
-            type: 'complete',
-            source: ragContent.length > 100 ? 'openai-rag' : 'openai',
-            content: fullContent,
-            processingTime: Date.now() - startTime,
-            ragResponseTime: ragResponseTime,
-            ragContentLength: ragContent.length,
-            tryAskingPrompts: [],
-            showTryAsking: false,
-            showFollowUp: false,
-            followUpQuestion: '',
-            followUpChips: [],
-            followUpResponses: []
-          };
-          
-          res.write(`data: ${JSON.stringify(completionData)}\n\n`);
-        } catch (completionError) {
-          console.error('Completion data serialization error:', completionError);
-          // Send minimal completion message
-          res.write(`data: ${JSON.stringify({ type: 'complete', content: fullContent })}\n\n`);
-        }
+    const [thresholdSetting, useVectorsSetting, synonymsSetting] = await Promise.all(
+      MATCH_SETTING_KEYS.map(key => storage.getSetting(key))
+    );
 
-        // Phase 2: Capture structured disambiguation data for logging
-        let disambiguationParsed;
-        if (disambiguationDetected) {
-          // Try to extract parsed data from the RAG result if available
-          try {
-            const ragResult = await ragService.searchWithProcessing({ message: question });
-            if (ragResult.disambiguationData) {
-              disambiguationParsed = {
-                optionsCount: ragResult.disambiguationData.options.length,
-                options: ragResult.disambiguationData.options.map(opt => ({
-                  name: opt.name,
-                  company: opt.company,
-                  description: opt.description
-                })),
-                instructions: ragResult.disambiguationData.instructions
-              };
-            }
-          } catch (e) {
-            console.warn('Could not re-parse disambiguation data for logging:', e);
-          }
-        }
+    const matchSettings: MatchSettings = {
+      threshold: thresholdSetting && validateMatchThreshold(thresholdSetting.value) === null
+        ? Number(thresholdSetting.value)
+        : DEFAULT_MATCH_THRESHOLD,
+      useVectors: useVectorsSetting?.value === 'true',
+      synonyms: parseSynonyms(synonymsSetting?.value ?? DEFAULT_SYNONYMS),
+    };
 
-        // Log the API request details for streaming endpoint with disambiguation info
-        apiLogger.log({
-          userQuestion: question,
-          systemPrompt: await getSystemPrompt(),
-          ragContent: ragContent || undefined,
-          openaiMessages: messages,
-          response: fullContent,
-          source: (ragContent.length > 100 ? 'openai-rag' : 'openai') as 'mock' | 'openai' | 'openai-rag',
-          processingTime: Date.now() - startTime,
-          ragResponseTime: ragResponseTime,
-          ragContentLength: ragContent ? ragContent.length : undefined,
-          disambiguationDetected,
-          disambiguationContent: disambiguationDetected ? disambiguationContent : undefined,
-          disambiguationParsed
-        });
+    matchSettingsCache = {
+      value: matchSettings,
+      timestamp: now
+    };
 
-        res.end();
+    return matchSettings;
+  }
 
-      } catch (openaiError: any) {
-        console.error('OpenAI API error:', openaiError);
-        
-        // Provide a graceful fallback response
-        const response = {
-          source: 'fallback',
-          content: "I apologize, but I'm currently unable to process your question due to a technical issue. Please try again later or contact support if the problem persists.",
-          processingTime: Date.now() - startTime,
-          tryAskingPrompts: [],
-          showTryAsking: false,
-          showFollowUp: false,
-          followUpQuestion: '',
-          followUpChips: [],
-          followUpResponses: [],
-          error: openaiError.message
-        };
-        
-        return res.json(response);
-      }
+  // Helper function to drop cached settings after an admin update or restore, so the next request reloads them
+  function invalidateSettingCaches(key: string) {
+    if (key === 'system_prompt') {
+      systemPromptCache = null;
+      console.log('System prompt cache invalidated after admin update');
+    }
+
+    if (GENERATION_SETTING_KEYS.includes(key)) {
+      generationSettingsCache = null;
+      console.log('Generation settings cache invalidated after admin update');
+    }
+
+    if (MATCH_SETTING_KEYS.includes(key)) {
+      matchSettingsCache = null;
+    }
+
+    if (KNOWDE_SETTING_KEYS.includes(key)) {
+      applyKnowdeSettings().catch(error => console.error('Knowde settings error:', error));
+    }
+
+    if (RAG_CACHE_SETTING_KEYS.includes(key)) {
+      applyRagCacheSettings().catch(error => console.error('RAG cache settings error:', error));
+    }
+  }
+
+  // Helper function to point the RAG service at the endpoint and timeout saved in settings
+  async function applyKnowdeSettings() {
+    const [baseUrlSetting, timeoutSetting] = await Promise.all(KNOWDE_SETTING_KEYS.map(key => storage.getSetting(key)));
+    const valueFor = (key: string, setting: Awaited<ReturnType<typeof storage.getSetting>>) =>
+      setting && setting.value.trim() !== '' && validateKnowdeSetting(key, setting.value) === null ? setting.value.trim() : undefined;
+
+    const timeoutMs = valueFor('knowde_timeout_ms', timeoutSetting);
+    ragService.configure({
+      baseUrl: valueFor('knowde_base_url', baseUrlSetting),
+      timeoutMs: timeoutMs !== undefined ? Number(timeoutMs) : undefined,
+    });
+  }
+
+  // Helper function to size the RAG cache and switch its persistence on or off from settings
+  async function applyRagCacheSettings() {
+    const [maxEntriesSetting, ttlSetting, persistSetting] = await Promise.all(RAG_CACHE_SETTING_KEYS.map(key => storage.getSetting(key)));
+    const valueFor = (key: string, setting: Awaited<ReturnType<typeof storage.getSetting>>) =>
+      setting && validateRagCacheSetting(key, setting.value) === null ? Number(setting.value) : undefined;
+
+    const ttlMinutes = valueFor('rag_cache_ttl_minutes', ttlSetting);
+    ragService.configureCache({
+      maxEntries: valueFor('rag_cache_max_entries', maxEntriesSetting) ?? DEFAULT_RAG_CACHE_MAX_ENTRIES,
+      ttlMs: ttlMinutes !== undefined ? ttlMinutes * 60 * 1000 : DEFAULT_RAG_CACHE_TTL_MS,
+    });
+
+    const persist = persistSetting?.value === 'true';
+    if (persist !== ragService.getCacheStats().persistent) {
+      await ragService.setCachePersistence(persist ? ragCachePersistence : null);
+    }
+  }
+
+  // Knowde first, so an endpoint override does not clear the cache after persisted entries are loaded
+  await applyKnowdeSettings();
+  await applyRagCacheSettings().catch(error => console.error('RAG cache settings error:', error));
+
+  // Helper function to check the try-asking switch, which also turns generated suggestions on and off
+  async function isTryAskingEnabled(): Promise<boolean> {
+    const setting = await storage.getSetting('try_asking_enabled');
+    return setting?.value === 'true';
+  }
+
+  const chatOrchestrator = new ChatOrchestrator({ getSystemPrompt, getGenerationSettings, getMatchSettings, isTryAskingEnabled });
+
+  // Helper function to turn a chat request body into an orchestrator request for the signed-in user
+  async function toChatRequest(req: Request): Promise<ChatRequest> {
+    const { question, sessionId, history } = req.body;
+    const ownedSession = sessionId ? await getOwnedChatSession(parseInt(sessionId), req.user!.id) : undefined;
+    return {
+      question,
+      conversationId: ownedSession?.id,
+      history,
+      user: req.user ? { id: req.user.id, username: req.user.username } : undefined,
+      preview: req.body.preview === true && (req.user?.role === 'admin' || req.user?.role === 'editor')
+    };
+  }
+
+  // Chat endpoint with streaming
+  app.post("/api/chat", async (req, res) => {
+    try {
+      const { question } = req.body;
       
+      if (!question || typeof question !== 'string') {
+        return res.status(400).json({ error: "Question is required" });
+      }
+
+      await streamChatResponse(chatOrchestrator, await toChatRequest(req), res);
     } catch (error: any) {
+      if (error instanceof LlmNotConfiguredError) {
+        return res.status(500).json({ error: error.message });
+      }
       console.error('Chat endpoint error:', error);
+      if (res.headersSent) {
+        return res.end();
+      }
       res.status(500).json({ 
         error: "Failed to process chat request",
         details: error.message 
@@ -654,260 +973,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Question is required" });
       }
 
-      const startTime = Date.now();
-      let ragContent = '';
-      let ragResponseTime = 0;
-      let messages: any[] = [];
-      let response: any = {
-        source: 'openai',
-        content: '',
-        processingTime: 0,
-        tryAskingPrompts: [],
-        showTryAsking: false,
-        showFollowUp: false,
-        followUpQuestion: '',
-        followUpChips: [],
-        followUpResponses: []
-      };
-
-      // Optimize: Check for mock responses in parallel
-      const [exactMatch, allMockResponses] = await Promise.all([
-        storage.getMockResponse(question),
-        storage.getMockResponses()
-      ]);
-
-      let mockResponse = exactMatch;
-      
-      // If no exact match, try normalized matching
-      if (!mockResponse) {
-        mockResponse = allMockResponses.find(mock => 
-          questionsMatch(question, mock.question)
-        );
+      const response = await chatOrchestrator.respond(await toChatRequest(req));
+      res.json(response);
+    } catch (error: any) {
+      if (error instanceof LlmNotConfiguredError) {
+        return res.status(500).json({ error: error.message });
       }
+      console.error('Chat endpoint error:', error);
+      res.status(500).json({ 
+        error: "Failed to process chat request",
+        details: error.message 
+      });
+    }
+  });
 
-      // If mock response found, use it
-      if (mockResponse) {
-        // Resolve follow-up responses to handle linked responses
-        const resolvedFollowUps = await resolveFollowUpResponses(mockResponse);
-        
-        response = {
-          source: 'mock',
-          content: mockResponse.response,
-          processingTime: Date.now() - startTime,
-          tryAskingPrompts: mockResponse.tryAskingPrompts || [],
-          showTryAsking: mockResponse.showTryAsking || false,
-          showFollowUp: mockResponse.showFollowUp || false,
-          followUpQuestion: mockResponse.followUpQuestion || '',
-          followUpChips: resolvedFollowUps.followUpChips,
-          followUpResponses: resolvedFollowUps.followUpResponses,
-          followUpResponsesData: resolvedFollowUps.followUpResponsesData
-        };
-      } 
-      // No mock response found, try RAG first
-      else {
-        
-        let disambiguationDetected = false;
-        let disambiguationContent = '';
-        
-        if (ragService.isConfigured()) {
-          try {
-            console.log('RAG Search (Simple): Attempting to find relevant content for:', question);
-            const ragResult = await ragService.searchWithProcessing({ message: question });
-            
-            // Phase 1 & 2: Check for disambiguation signal and parse data in non-streaming endpoint
-            if (ragResult.success && ragResult.disambiguationDetected) {
-              disambiguationDetected = true;
-              disambiguationContent = ragResult.rawResponse || '';
-              console.log('RAG Search (Simple): DISAMBIGUATION DETECTED - Multiple product matches found');
-              
-              // Phase 2 & 3: Check if we have parsed disambiguation data  
-              if (ragResult.disambiguationData && ragResult.disambiguationData.options.length > 0) {
-                console.log('RAG Search (Simple): Phase 3 - Returning disambiguation response with', ragResult.disambiguationData.options.length, 'options');
-                
-                // Phase 3: Return disambiguation response immediately instead of continuing to OpenAI
-                const disambiguationResponse = {
-                  type: 'disambiguation',
-                  source: 'rag-disambiguation',
-                  disambiguationData: ragResult.disambiguationData,
-                  processingTime: Date.now() - startTime,
-                  ragResponseTime: ragResponseTime
-                };
-
-                // Log the disambiguation response for non-streaming
-                apiLogger.log({
-                  userQuestion: question,
-                  systemPrompt: await getSystemPrompt(),
-                  ragContent: ragContent || undefined,
-                  openaiMessages: [], // No OpenAI messages for disambiguation
-                  response: `Disambiguation response with ${ragResult.disambiguationData.options.length} options`,
-                  source: 'rag-disambiguation' as any,
-                  processingTime: Date.now() - startTime,
-                  ragResponseTime: ragResponseTime,
-                  ragContentLength: ragContent ? ragContent.length : undefined,
-                  disambiguationDetected: true,
-                  disambiguationContent: ragResult.rawResponse,
-                  disambiguationParsed: {
-                    optionsCount: ragResult.disambiguationData.options.length,
-                    options: ragResult.disambiguationData.options.map(opt => ({
-                      name: opt.name,
-                      company: opt.company,
-                      description: opt.description
-                    })),
-                    instructions: ragResult.disambiguationData.instructions
-                  }
-                });
-
-                return disambiguationResponse;
-              }
-            }
-            
-            if (ragResult.success && ragResult.processedContent && ragResult.processedContent.length > 100) {
-              ragContent = ragResult.processedContent;
-              ragResponseTime = ragResult.responseTime || 0;
-              
-              console.log('RAG Search (Simple): Found relevant content, length:', ragContent.length);
-              console.log('RAG Search (Simple): Sources:', ragResult.sources?.length || 0);
-              console.log('RAG Search (Simple): Average score:', ragResult.averageScore?.toFixed(2) || 'N/A');
-            } else {
-              console.log('RAG Search (Simple): No relevant content found or content too short');
-            }
-          } catch (ragError: any) {
-            console.error('RAG Search (Simple): Error during search:', ragError.message);
-            // Continue to OpenAI if RAG fails
-          }
-        }
-        if (!process.env.OPEN_AI_KEY_JPR) {
-          return res.status(500).json({ 
-            error: "OpenAI API key not configured" 
-          });
-        }
-
-        try {
-          // Get system prompt from cache
-          const systemPrompt = await getSystemPrompt();
-
-          // Prepare messages with potential RAG context
-          messages = [
-            {
-              role: "system",
-              content: systemPrompt
-            }
-          ];
-          
-          // Add RAG context if available - positioned immediately after system prompt for priority
-          if (ragContent.length > 100) {
-            messages.push({
-              role: "system",
-              content: `RAG DATA SOURCE - Context block from the provided RAG data source:\n\n${ragContent}\n\nThis is the primary data source referenced in your instructions. You MUST base your response primarily on this specific product information. Integrate these exact products, companies, and technical specifications as the foundation of your answer.`
-            });
-          }
-          
-          messages.push({
-            role: "user",
-            content: question
-          });
-
-          // Use regular completion for simple endpoint
-          const completion = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: messages as any,
-            max_tokens: 1000,
-            temperature: 0.7,
-          });
-
-          const aiContent = completion.choices[0]?.message?.content || "I apologize, but I couldn't generate a response at this time.";
-          
-          response = {
-            source: ragContent.length > 100 ? 'openai-rag' : 'openai',
-            content: aiContent,
-            processingTime: Date.now() - startTime,
-            ragResponseTime: ragResponseTime,
-            ragContentLength: ragContent.length,
-            tryAskingPrompts: [],
-            showTryAsking: false,
-            showFollowUp: false,
-            followUpQuestion: '',
-            followUpChips: [],
-            followUpResponses: []
-          };
-
-        } catch (openaiError: any) {
-          console.error('OpenAI API error:', openaiError);
-          
-          // Provide a graceful fallback response
-          response = {
-            source: 'fallback',
-            content: "I apologize, but I'm currently unable to process your question due to a technical issue. Please try again later or contact support if the problem persists.",
-            processingTime: Date.now() - startTime,
-            tryAskingPrompts: [],
-            showTryAsking: false,
-            showFollowUp: false,
-            followUpQuestion: '',
-            followUpChips: [],
-            followUpResponses: [],
-            error: openaiError.message
-          };
-        }
+  // Record a chip click in chat; the client performs the action itself
+  app.post("/api/chip-actions", async (req, res) => {
+    try {
+      const parsed = chipActionEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid chip action: ${issue.path.join('.') || 'body'}: ${issue.message}` });
       }
 
-      // Log the API request details
-      const systemPromptText = response.source !== 'mock' ? await getSystemPrompt() : '';
-      const openaiMessages = response.source !== 'mock' && typeof messages !== 'undefined' ? messages : [];
-      const ragContentText = typeof ragContent !== 'undefined' ? ragContent : '';
-      
-      // Get disambiguation data from response scope if available - declare with fallback
-      let logDisambiguationDetected = false;
-      let logDisambiguationContent: string | undefined = undefined;
-      
-      // Phase 2: Capture structured disambiguation data for non-streaming endpoint
-      let disambiguationParsed;
-      if (logDisambiguationDetected) {
-        try {
-          const ragResult = await ragService.searchWithProcessing({ message: question });
-          if (ragResult.disambiguationData) {
-            disambiguationParsed = {
-              optionsCount: ragResult.disambiguationData.options.length,
-              options: ragResult.disambiguationData.options.map(opt => ({
-                name: opt.name,
-                company: opt.company,
-                description: opt.description
-              })),
-              instructions: ragResult.disambiguationData.instructions
-            };
-          }
-        } catch (e) {
-          console.warn('Could not re-parse disambiguation data for non-streaming logging:', e);
-        }
+      const { action, label, source, sessionId } = parsed.data;
+      if (sessionId !== undefined && !(await getOwnedChatSession(sessionId, req.user!.id))) {
+        return res.status(404).json({ error: "Chat session not found" });
       }
 
-      apiLogger.log({
-        userQuestion: question,
-        systemPrompt: systemPromptText,
-        ragContent: ragContentText || undefined,
-        openaiMessages: openaiMessages,
-        response: response.content,
-        source: response.source as 'mock' | 'openai' | 'openai-rag',
-        processingTime: response.processingTime,
-        ragResponseTime: response.ragResponseTime,
-        ragContentLength: ragContentText ? ragContentText.length : undefined,
-        disambiguationDetected: logDisambiguationDetected,
-        disambiguationContent: logDisambiguationContent,
-        disambiguationParsed
+      await storage.createChipActionLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        sessionId: sessionId ?? null,
+        source,
+        actionType: action.type,
+        label,
+        action: JSON.stringify(action),
       });
-
-      res.json(response);
-      
+      res.json({ success: true });
     } catch (error: any) {
-      console.error('Chat endpoint error:', error);
-      res.status(500).json({ 
-        error: "Failed to process chat request",
-        details: error.message 
+      console.error('Chip action log error:', error);
+      res.status(500).json({ error: "Failed to log chip action" });
+    }
+  });
+
+  // Effective Knowde endpoint, timeout and auth status, with what the overrides fall back to
+  app.get("/api/rag/config", requireAdmin, async (req, res) => {
+    try {
+      res.json({
+        ...ragService.getConfigSummary(),
+        defaults: ragService.getConfigDefaults(),
+        fakeKnowdeUrl: isFakeKnowdeEnabled() ? FAKE_KNOWDE_URL : null,
       });
+    } catch (error: any) {
+      console.error('RAG config error:', error);
+      res.status(500).json({ error: "Failed to get RAG configuration" });
     }
   });
 
   // RAG API test endpoint
-  app.get("/api/rag/test", async (req, res) => {
+  app.get("/api/rag/test", requireAdmin, async (req, res) => {
     try {
       console.log('RAG Test: Starting connection test');
       const result = await ragService.testConnection();
@@ -916,6 +1041,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: result.success,
         configured: ragService.isConfigured(),
         responseTime: result.responseTime,
+        attempts: result.attempts,
         error: result.error,
         hasData: !!result.data,
         dataPreview: result.data ? JSON.stringify(result.data).substring(0, 200) + '...' : null
@@ -930,8 +1056,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Circuit breaker that skips Knowde after repeated failures
+  app.get("/api/rag/circuit-breaker", requireAdmin, async (req, res) => {
+    try {
+      res.json(ragService.getCircuitBreakerState());
+    } catch (error: any) {
+      console.error('RAG circuit breaker error:', error);
+      res.status(500).json({ error: "Failed to get circuit breaker state" });
+    }
+  });
+
+  app.post("/api/rag/circuit-breaker/reset", requireAdmin, async (req, res) => {
+    try {
+      ragService.resetCircuitBreaker();
+      res.json(ragService.getCircuitBreakerState());
+    } catch (error: any) {
+      console.error('RAG circuit breaker reset error:', error);
+      res.status(500).json({ error: "Failed to reset circuit breaker" });
+    }
+  });
+
+  // Run the golden Knowde payloads in server/fixtures/knowde-golden through the response model and extractors
+  app.get("/api/rag/extraction-check", requireAdmin, async (req, res) => {
+    try {
+      res.json({ cases: runGoldenChecks() });
+    } catch (error: any) {
+      console.error('RAG extraction check error:', error);
+      res.status(500).json({ error: "Failed to run extraction check" });
+    }
+  });
+
   // RAG search endpoint with enhanced processing
-  app.post("/api/rag/search", async (req, res) => {
+  app.post("/api/rag/search", requireAdmin, async (req, res) => {
     try {
       const { message } = req.body;
       
@@ -962,7 +1118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced RAG search endpoint with structured product data
-  app.post("/api/rag/search-enhanced", async (req, res) => {
+  app.post("/api/rag/search-enhanced", requireAdmin, async (req, res) => {
     try {
       const { message } = req.body;
       
@@ -994,7 +1150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // RAG cache management endpoints
-  app.post("/api/rag/cache/clear", async (req, res) => {
+  app.post("/api/rag/cache/clear", requireAdmin, async (req, res) => {
     try {
       ragService.clearCache();
       res.json({ success: true, message: "Cache cleared successfully" });
@@ -1007,7 +1163,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/rag/cache/stats", async (req, res) => {
+  app.get("/api/rag/cache/stats", requireAdmin, async (req, res) => {
     try {
       const stats = ragService.getCacheStats();
       res.json({ success: true, stats });
@@ -1020,10 +1176,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One cached Knowde response, with its age and hit count
+  app.get("/api/rag/cache/entries/:key", requireAdmin, async (req, res) => {
+    try {
+      const entry = ragService.getCacheEntry(req.params.key);
+      if (!entry) {
+        return res.status(404).json({ error: "Cache entry not found" });
+      }
+      res.json(entry);
+    } catch (error: any) {
+      console.error('RAG Cache entry error:', error);
+      res.status(500).json({ error: "Failed to get cache entry" });
+    }
+  });
+
+  app.delete("/api/rag/cache/entries/:key", requireAdmin, async (req, res) => {
+    try {
+      if (!ragService.deleteCacheEntry(req.params.key)) {
+        return res.status(404).json({ error: "Cache entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('RAG Cache delete error:', error);
+      res.status(500).json({ error: "Failed to delete cache entry" });
+    }
+  });
+
+  // Search queries ahead of time so users get cached answers: listed queries, intro questions and published mock questions
+  app.post("/api/rag/cache/warm", requireAdmin, async (req, res) => {
+    try {
+      const { queries = [], includeIntroQuestions, includeMockQuestions, refresh } = req.body || {};
+      if (!Array.isArray(queries) || queries.some((query: unknown) => typeof query !== 'string')) {
+        return res.status(400).json({ error: "queries must be a list of strings" });
+      }
+      if (!ragService.isConfigured()) {
+        return res.status(400).json({ error: "RAG service not configured" });
+      }
+
+      const warmQueries: string[] = queries.map((query: string) => query.trim()).filter(Boolean);
+      if (includeIntroQuestions) {
+        const introQuestionsSetting = await storage.getSetting('intro_questions');
+        warmQueries.push(...parseIntroQuestions(introQuestionsSetting?.value));
+      }
+      if (includeMockQuestions) {
+        const mockResponses = await storage.getPublishedMockResponses();
+        warmQueries.push(...mockResponses.map(mockResponse => mockResponse.question));
+      }
+
+      if (warmQueries.length === 0) {
+        return res.status(400).json({ error: "No queries to warm" });
+      }
+      if (warmQueries.length > MAX_WARM_QUERIES) {
+        return res.status(400).json({ error: `At most ${MAX_WARM_QUERIES} queries can be warmed at once` });
+      }
+
+      const results = await ragService.warmCache(warmQueries, refresh === true);
+      res.json({
+        results,
+        summary: {
+          cached: results.filter(result => result.status === 'cached').length,
+          alreadyCached: results.filter(result => result.status === 'already-cached').length,
+          failed: results.filter(result => result.status === 'failed').length,
+        }
+      });
+    } catch (error: any) {
+      console.error('RAG Cache warm error:', error);
+      res.status(500).json({ error: "Failed to warm cache" });
+    }
+  });
+
   // API Logs endpoints
-  app.get("/api/logs", async (req, res) => {
+  app.get("/api/logs", requireAdmin, async (req, res) => {
     try {
-      const logs = apiLogger.getLogs();
+      const parsed = parseApiLogQuery(req.query);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const logs = await apiLogger.getLogs(parsed.filters, parsed.page, parsed.pageSize);
       res.json(logs);
     } catch (error: any) {
       console.error('API Logs: Get logs error:', error);
@@ -1034,9 +1264,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/logs/clear", async (req, res) => {
+  app.get("/api/usage/daily", requireAdmin, async (req, res) => {
     try {
-      apiLogger.clearLogs();
+      const days = Math.min(MAX_LOG_RETENTION_DAYS, Math.max(1, parseInt(req.query.days as string, 10) || 30));
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+
+      const usage = await storage.getDailyTokenUsage(since);
+      res.json({ days, since: since.toISOString(), usage });
+    } catch (error: any) {
+      console.error('Token usage error:', error);
+      res.status(500).json({ 
+        error: "Failed to get token usage",
+        details: error.message 
+      });
+    }
+  });
+
+  app.post("/api/logs/clear", requireAdmin, async (req, res) => {
+    try {
+      await apiLogger.clearLogs();
       res.json({ success: true, message: "API logs cleared successfully" });
     } catch (error: any) {
       console.error('API Logs: Clear logs error:', error);
@@ -1083,7 +1331,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Object Storage upload URL endpoint
-  app.post("/api/objects/upload", async (req, res) => {
+  app.post("/api/objects/upload", requireAdmin, async (req, res) => {
     const { ObjectStorageService } = await import("./objectStorage");
     const objectStorageService = new ObjectStorageService();
     try {
@@ -1096,7 +1344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Logo image upload completion endpoint
-  app.put("/api/logo-upload", async (req, res) => {
+  app.put("/api/logo-upload", requireAdmin, async (req, res) => {
     if (!req.body.logoImageURL) {
       return res.status(400).json({ error: "logoImageURL is required" });
     }
@@ -1169,7 +1417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Feedback endpoints
   
   // Get all feedback (admin only)
-  app.get("/api/feedback", async (req, res) => {
+  app.get("/api/feedback", requireAdmin, async (req, res) => {
     try {
       const feedbackList = await storage.getFeedback();
       res.json(feedbackList);
@@ -1229,6 +1477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description,
         priority: priority || 'medium',
         userEmail: userEmail || null,
+        userId: req.user?.id ?? null,
         browserInfo: userAgent,
         currentRoute,
         appVersion,
@@ -1247,7 +1496,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update feedback status (admin only)
-  app.put("/api/feedback/:id/status", async (req, res) => {
+  app.put("/api/feedback/:id/status", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
       const { status, adminResponse } = req.body;
@@ -1270,7 +1519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get conversation snapshot
-  app.get("/api/conversation-snapshot/:id", async (req, res) => {
+  app.get("/api/conversation-snapshot/:id", requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
       const snapshot = await storage.getConversationSnapshot(parseInt(id));
@@ -1291,5 +1540,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User management endpoints (admin only)
+
+  // List users and their roles
+  app.get("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const userList = await storage.getUsers();
+      res.json(userList.map(toPublicUser));
+    } catch (error: any) {
+      console.error('Get users error:', error);
+      res.status(500).json({ error: "Failed to retrieve users" });
+    }
+  });
+
+  // Change a user's role
+  app.put("/api/users/:id/role", requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+      }
+
+      // Prevent admins from locking themselves out
+      if (parseInt(id) === req.user!.id) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+
+      const existingUser = await storage.getUser(parseInt(id));
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUserRole(existingUser.id, role);
+      res.json(toPublicUser(updatedUser));
+    } catch (error: any) {
+      console.error('Update user role error:', error);
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  // Chat session endpoints
+
+  // List chat sessions with their messages
+  app.get("/api/chat-sessions", async (req, res) => {
+    try {
+      const sessions = await storage.getChatSessions(req.user!.id);
+      const messages = await storage.getChatMessagesForSessions(sessions.map(session => session.id));
+
+      res.json(sessions.map(session => ({
+        ...session,
+        messages: messages.filter(message => message.sessionId === session.id)
+      })));
+    } catch (error: any) {
+      console.error('Get chat sessions error:', error);
+      res.status(500).json({ error: "Failed to retrieve chat sessions" });
+    }
+  });
+
+  // Create chat session
+  app.post("/api/chat-sessions", async (req, res) => {
+    try {
+      const { title = "New Chat", isPinned = false } = req.body;
+
+      if (typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ error: "Title must be a non-empty string" });
+      }
+
+      const session = await storage.createChatSession({ userId: req.user!.id, title: title.trim(), isPinned: !!isPinned });
+      res.json({ ...session, messages: [] });
+    } catch (error: any) {
+      console.error('Create chat session error:', error);
+      res.status(500).json({ error: "Failed to create chat session" });
+    }
+  });
+
+  // Rename chat session
+  app.put("/api/chat-sessions/:id/rename", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { title } = req.body;
+
+      if (!title || typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ error: "Title is required" });
+      }
+
+      const existingSession = await getOwnedChatSession(parseInt(id), req.user!.id);
+      if (!existingSession) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const session = await storage.updateChatSession(parseInt(id), { title: title.trim() });
+      res.json(session);
+    } catch (error: any) {
+      console.error('Rename chat session error:', error);
+      res.status(500).json({ error: "Failed to rename chat session" });
+    }
+  });
+
+  // Pin or unpin chat session
+  app.put("/api/chat-sessions/:id/pin", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { isPinned } = req.body;
+
+      if (typeof isPinned !== 'boolean') {
+        return res.status(400).json({ error: "isPinned must be a boolean" });
+      }
+
+      const existingSession = await getOwnedChatSession(parseInt(id), req.user!.id);
+      if (!existingSession) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const session = await storage.updateChatSession(parseInt(id), { isPinned });
+      res.json(session);
+    } catch (error: any) {
+      console.error('Pin chat session error:', error);
+      res.status(500).json({ error: "Failed to update chat session" });
+    }
+  });
+
+  // Delete chat session and its messages
+  app.delete("/api/chat-sessions/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existingSession = await getOwnedChatSession(parseInt(id), req.user!.id);
+      if (!existingSession) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      await storage.deleteChatSession(existingSession.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Delete chat session error:', error);
+      res.status(500).json({ error: "Failed to delete chat session" });
+    }
+  });
+
+  // Get messages for a chat session
+  app.get("/api/chat-sessions/:id/messages", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const session = await getOwnedChatSession(parseInt(id), req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const messages = await storage.getChatMessages(session.id);
+      res.json(messages);
+    } catch (error: any) {
+      console.error('Get chat messages error:', error);
+      res.status(500).json({ error: "Failed to retrieve chat messages" });
+    }
+  });
+
+  // Append a message to a chat session
+  app.post("/api/chat-sessions/:id/messages", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { sender, content, metadata } = req.body;
+
+      if (sender !== 'user' && sender !== 'ai') {
+        return res.status(400).json({ error: "Sender must be 'user' or 'ai'" });
+      }
+
+      if (typeof content !== 'string') {
+        return res.status(400).json({ error: "Content is required" });
+      }
+
+      const session = await getOwnedChatSession(parseInt(id), req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const message = await storage.createChatMessage({
+        sessionId: session.id,
+        sender,
+        content,
+        metadata: metadata ? JSON.stringify(metadata) : null
+      });
+
+      // Title new chats after their first question, matching the client-side behaviour
+      if (sender === 'user' && session.title === 'New Chat' && content.trim()) {
+        await storage.updateChatSession(session.id, { title: content.trim().slice(0, 50) });
+      }
+
+      res.json(message);
+    } catch (error: any) {
+      console.error('Create chat message error:', error);
+      res.status(500).json({ error: "Failed to save chat message" });
+    }
+  });
+
   return httpServer;
 }
@@ -1,23 +1,90 @@
-import { users, settings, mockResponses, feedback, conversationSnapshots, type User, type InsertUser, type Setting, type InsertSetting, type MockResponse, type InsertMockResponse, type Feedback, type InsertFeedback, type ConversationSnapshot, type InsertConversationSnapshot } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { users, settings, mockResponses, mockResponseRevisions, settingRevisions, feedback, conversationSnapshots, chatSessions, chatMessages, apiLogs, chipActionLogs, ragCacheEntries, type User, type InsertUser, type Setting, type InsertSetting, type MockResponse, type InsertMockResponse, type Feedback, type InsertFeedback, type ConversationSnapshot, type InsertConversationSnapshot, type ChatSession, type InsertChatSession, type ChatMessage, type InsertChatMessage, type ApiLog, type InsertApiLog, type ChipActionLog, type InsertChipActionLog, type RagCacheEntry, type InsertRagCacheEntry, type MockResponseRevision, type SettingRevision } from "@shared/schema";
+import { db, pool } from "./db";
+import { eq, desc, asc, inArray, count, and, gt, gte, lte, lt, ilike, isNotNull, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { DEFAULT_MATCH_THRESHOLD, DEFAULT_SYNONYMS, normalizeQuestion } from "./questionMatcher";
+import { ImportLinkError, type MockResponseImportRow } from "./mockResponseTransfer";
+import { getFollowUpLinks, UnpublishedLinkError, validateFollowUpTargets } from "./followUpGraph";
+import { DEFAULT_RAG_CACHE_MAX_ENTRIES, DEFAULT_RAG_CACHE_TTL_MS, type RagCachePersistence } from "./ragCache";
+
+const PostgresSessionStore = connectPg(session);
+
+export interface ApiLogFilters {
+  source?: string;
+  from?: Date;
+  to?: Date;
+  disambiguationDetected?: boolean;
+  search?: string;
+}
+
+export interface ApiLogSourceStats {
+  source: string;
+  count: number;
+  averageProcessingTime: number;
+  disambiguationCount: number;
+}
+
+export interface DailyTokenUsage {
+  day: string; // YYYY-MM-DD
+  source: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+// Who made a change, recorded with each revision
+export interface RevisionAuthor {
+  userId: number | null;
+  username: string | null;
+}
+
+export type MockResponseRevisionAction = 'initial' | 'create' | 'update' | 'import' | 'restore' | 'publish';
+export type SettingRevisionAction = 'initial' | 'update' | 'restore' | 'publish';
+
+// Settings whose every value is kept so admins can roll back a bad edit
+export const VERSIONED_SETTING_KEYS = ['system_prompt'];
+
+// Where edits to the system prompt wait until they are published
+export const SYSTEM_PROMPT_DRAFT_KEY = 'system_prompt_draft';
+
+// Unpublished changes to publish or discard together
+export interface DraftSelection {
+  mockResponseIds: number[];
+  systemPrompt: boolean;
+}
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  registerUser(user: Omit<InsertUser, 'role'>): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: string): Promise<User>;
   getSetting(key: string): Promise<Setting | undefined>;
-  setSetting(key: string, value: string): Promise<Setting>;
-  updateSetting(key: string, value: string): Promise<Setting>;
+  setSetting(key: string, value: string, author?: RevisionAuthor, action?: SettingRevisionAction): Promise<Setting>;
+  updateSetting(key: string, value: string, author?: RevisionAuthor, action?: SettingRevisionAction): Promise<Setting>;
+  getSettingRevisions(key: string): Promise<SettingRevision[]>;
+  getSettingRevision(id: number): Promise<SettingRevision | undefined>;
   getMockResponses(): Promise<MockResponse[]>;
+  getPublishedMockResponses(): Promise<MockResponse[]>;
   getMockResponse(question: string): Promise<MockResponse | undefined>;
   getMockResponseById(id: number): Promise<MockResponse | undefined>;
-  createMockResponse(mockResponse: InsertMockResponse): Promise<MockResponse>;
-  updateMockResponse(id: number, mockResponse: InsertMockResponse): Promise<MockResponse>;
+  createMockResponse(mockResponse: InsertMockResponse, author?: RevisionAuthor): Promise<MockResponse>;
+  updateMockResponse(id: number, mockResponse: InsertMockResponse, author?: RevisionAuthor, action?: MockResponseRevisionAction): Promise<MockResponse>;
+  saveMockResponseDraft(id: number, mockResponse: InsertMockResponse): Promise<MockResponse>;
   deleteMockResponse(id: number): Promise<void>;
+  importMockResponses(rows: MockResponseImportRow[], author?: RevisionAuthor): Promise<{ created: number; updated: number }>;
+  getMockResponseRevisions(mockResponseId: number): Promise<MockResponseRevision[]>;
+  getMockResponseRevision(id: number): Promise<MockResponseRevision | undefined>;
+  publishDrafts(selection: DraftSelection, author?: RevisionAuthor): Promise<{ mockResponses: number; systemPrompt: boolean }>;
+  discardDrafts(selection: DraftSelection): Promise<{ mockResponses: number; systemPrompt: boolean }>;
   
   // Feedback methods
   getFeedback(): Promise<Feedback[]>;
@@ -29,9 +96,183 @@ export interface IStorage {
   // Conversation snapshot methods
   createConversationSnapshot(snapshot: InsertConversationSnapshot): Promise<ConversationSnapshot>;
   getConversationSnapshot(id: number): Promise<ConversationSnapshot | undefined>;
+
+  // Chat session methods
+  getChatSessions(userId: number): Promise<ChatSession[]>;
+  getChatSession(id: number): Promise<ChatSession | undefined>;
+  createChatSession(session: InsertChatSession): Promise<ChatSession>;
+  updateChatSession(id: number, updates: Partial<InsertChatSession>): Promise<ChatSession>;
+  deleteChatSession(id: number): Promise<void>;
+
+  // Chat message methods
+  getChatMessages(sessionId: number): Promise<ChatMessage[]>;
+  getChatMessagesForSessions(sessionIds: number[]): Promise<ChatMessage[]>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+
+  // API log methods
+  createApiLog(log: InsertApiLog): Promise<ApiLog>;
+  getApiLogs(filters: ApiLogFilters, limit: number, offset: number): Promise<{ logs: ApiLog[]; total: number }>;
+  getApiLogStats(filters: ApiLogFilters): Promise<ApiLogSourceStats[]>;
+  clearApiLogs(): Promise<void>;
+  deleteApiLogsBefore(date: Date): Promise<number>;
+  getDailyTokenUsage(since: Date): Promise<DailyTokenUsage[]>;
+
+  // Chip action log methods
+  createChipActionLog(log: InsertChipActionLog): Promise<ChipActionLog>;
+
+  // RAG cache methods
+  getRagCacheEntries(now: Date, limit: number): Promise<RagCacheEntry[]>;
+  upsertRagCacheEntry(entry: InsertRagCacheEntry): Promise<void>;
+  deleteRagCacheEntries(keys: string[]): Promise<void>;
+  deleteExpiredRagCacheEntries(now: Date): Promise<number>;
+  clearRagCacheEntries(): Promise<void>;
 }
 
+// Helper function to turn API log filters into a single WHERE condition
+const buildApiLogConditions = (filters: ApiLogFilters): SQL | undefined => {
+  const conditions: SQL[] = [];
+
+  if (filters.source) {
+    conditions.push(eq(apiLogs.source, filters.source));
+  }
+  if (filters.from) {
+    conditions.push(gte(apiLogs.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(apiLogs.createdAt, filters.to));
+  }
+  if (filters.disambiguationDetected !== undefined) {
+    conditions.push(eq(apiLogs.disambiguationDetected, filters.disambiguationDetected));
+  }
+  if (filters.search) {
+    // Escape LIKE wildcards so the search is a plain substring match
+    const escaped = filters.search.replace(/[\\%_]/g, (char) => `\\${char}`);
+    conditions.push(ilike(apiLogs.userQuestion, `%${escaped}%`));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+};
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const NO_AUTHOR: RevisionAuthor = { userId: null, username: null };
+
+// Helper function to pick the editable fields of a mock response for a revision snapshot
+const toMockResponseSnapshot = (mockResponse: MockResponse): InsertMockResponse => ({
+  question: mockResponse.question,
+  response: mockResponse.response,
+  showTryAsking: mockResponse.showTryAsking,
+  tryAskingPrompts: mockResponse.tryAskingPrompts,
+  showFollowUp: mockResponse.showFollowUp,
+  followUpQuestion: mockResponse.followUpQuestion,
+  followUpChips: mockResponse.followUpChips,
+  followUpResponses: mockResponse.followUpResponses,
+  followUpResponseTypes: mockResponse.followUpResponseTypes,
+  followUpLinkedResponseIds: mockResponse.followUpLinkedResponseIds,
+  matchThreshold: mockResponse.matchThreshold,
+  alternateQuestions: mockResponse.alternateQuestions,
+  tags: mockResponse.tags,
+});
+
+// Helper function to fill in defaults for the editable fields of a mock response before saving them
+const toMockResponseValues = (mockResponse: InsertMockResponse) => ({
+  ...mockResponse,
+  showTryAsking: mockResponse.showTryAsking ?? false,
+  tryAskingPrompts: mockResponse.tryAskingPrompts ?? [],
+  showFollowUp: mockResponse.showFollowUp ?? false,
+  followUpQuestion: mockResponse.followUpQuestion ?? "",
+  followUpChips: mockResponse.followUpChips ?? [],
+  followUpResponses: mockResponse.followUpResponses ?? [],
+  followUpResponseTypes: mockResponse.followUpResponseTypes ?? [],
+  followUpLinkedResponseIds: mockResponse.followUpLinkedResponseIds ?? [],
+  matchThreshold: mockResponse.matchThreshold ?? null,
+  alternateQuestions: mockResponse.alternateQuestions ?? [],
+  tags: mockResponse.tags ?? []
+});
+
+/**
+ * A mock response as it will look once published: its pending draft, if any, applied over the live fields
+ */
+export const applyMockResponseDraft = (mockResponse: MockResponse): MockResponse =>
+  mockResponse.draft ? { ...mockResponse, ...toMockResponseValues(JSON.parse(mockResponse.draft)) } : mockResponse;
+
+// Helper function to record a mock response version
+const recordMockResponseRevision = async (
+  executor: DbExecutor,
+  mockResponse: MockResponse,
+  action: MockResponseRevisionAction,
+  author: RevisionAuthor
+) => {
+  await executor.insert(mockResponseRevisions).values({
+    mockResponseId: mockResponse.id,
+    snapshot: JSON.stringify(toMockResponseSnapshot(mockResponse)),
+    action,
+    userId: author.userId,
+    username: author.username,
+  });
+};
+
+// Helper function to save a setting, recording a revision first when the key is versioned and the value changed
+const writeSetting = async (
+  executor: DbExecutor,
+  key: string,
+  value: string,
+  author: RevisionAuthor,
+  action: SettingRevisionAction
+): Promise<Setting> => {
+  const [existingSetting] = await executor.select().from(settings).where(eq(settings.key, key));
+  
+  if (VERSIONED_SETTING_KEYS.includes(key) && existingSetting?.value !== value) {
+    // Keep the value from before history was recorded, then the new one
+    const [existingRevision] = await executor
+      .select({ id: settingRevisions.id })
+      .from(settingRevisions)
+      .where(eq(settingRevisions.key, key))
+      .limit(1);
+    if (!existingRevision && existingSetting) {
+      await executor.insert(settingRevisions).values({ key, value: existingSetting.value, action: 'initial', ...NO_AUTHOR });
+    }
+    await executor.insert(settingRevisions).values({ key, value, action, userId: author.userId, username: author.username });
+  }
+  
+  if (existingSetting) {
+    const [setting] = await executor
+      .update(settings)
+      .set({ value })
+      .where(eq(settings.key, key))
+      .returning();
+    return setting;
+  } else {
+    const [setting] = await executor
+      .insert(settings)
+      .values({ key, value })
+      .returning();
+    return setting;
+  }
+};
+
+// Helper function to keep the pre-history version of a response before its first recorded change
+const ensureMockResponseBaseline = async (executor: DbExecutor, id: number) => {
+  const [existingRevision] = await executor
+    .select({ id: mockResponseRevisions.id })
+    .from(mockResponseRevisions)
+    .where(eq(mockResponseRevisions.mockResponseId, id))
+    .limit(1);
+  if (existingRevision) return;
+
+  const [current] = await executor.select().from(mockResponses).where(eq(mockResponses.id, id));
+  if (current) {
+    await recordMockResponseRevision(executor, current, 'initial', NO_AUTHOR);
+  }
+};
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -50,38 +291,73 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  /**
+   * Create a self-registered account. The very first account bootstraps the system as its admin; the
+   * users table is locked while counting so two signups on an empty database cannot both become admin.
+   */
+  async registerUser(insertUser: Omit<InsertUser, 'role'>): Promise<User> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`LOCK TABLE ${users} IN SHARE ROW EXCLUSIVE MODE`);
+      const [existing] = await tx.select({ value: count() }).from(users);
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: (existing?.value ?? 0) === 0 ? 'admin' : 'viewer' })
+        .returning();
+      return user;
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: number, role: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   async getSetting(key: string): Promise<Setting | undefined> {
     const [setting] = await db.select().from(settings).where(eq(settings.key, key));
     return setting || undefined;
   }
 
-  async setSetting(key: string, value: string): Promise<Setting> {
-    const existingSetting = await this.getSetting(key);
-    
-    if (existingSetting) {
-      const [setting] = await db
-        .update(settings)
-        .set({ value })
-        .where(eq(settings.key, key))
-        .returning();
-      return setting;
-    } else {
-      const [setting] = await db
-        .insert(settings)
-        .values({ key, value })
-        .returning();
-      return setting;
-    }
+  async setSetting(key: string, value: string, author: RevisionAuthor = NO_AUTHOR, action: SettingRevisionAction = 'update'): Promise<Setting> {
+    return await writeSetting(db, key, value, author, action);
+  }
+
+  async updateSetting(key: string, value: string, author?: RevisionAuthor, action?: SettingRevisionAction): Promise<Setting> {
+    return this.setSetting(key, value, author, action);
+  }
+
+  async getSettingRevisions(key: string): Promise<SettingRevision[]> {
+    return await db
+      .select()
+      .from(settingRevisions)
+      .where(eq(settingRevisions.key, key))
+      .orderBy(desc(settingRevisions.createdAt), desc(settingRevisions.id));
   }
 
-  async updateSetting(key: string, value: string): Promise<Setting> {
-    return this.setSetting(key, value);
+  async getSettingRevision(id: number): Promise<SettingRevision | undefined> {
+    const [revision] = await db.select().from(settingRevisions).where(eq(settingRevisions.id, id));
+    return revision || undefined;
   }
 
   async getMockResponses(): Promise<MockResponse[]> {
     return await db.select().from(mockResponses).orderBy(desc(mockResponses.updatedAt));
   }
 
+  async getPublishedMockResponses(): Promise<MockResponse[]> {
+    return await db
+      .select()
+      .from(mockResponses)
+      .where(eq(mockResponses.status, 'published'))
+      .orderBy(desc(mockResponses.updatedAt));
+  }
+
   async getMockResponse(question: string): Promise<MockResponse | undefined> {
     const [mockResponse] = await db.select().from(mockResponses).where(eq(mockResponses.question, question));
     return mockResponse || undefined;
@@ -92,48 +368,221 @@ export class DatabaseStorage implements IStorage {
     return mockResponse || undefined;
   }
 
-  async createMockResponse(mockResponse: InsertMockResponse): Promise<MockResponse> {
-    const [response] = await db
-      .insert(mockResponses)
-      .values({
-        ...mockResponse,
-        showTryAsking: mockResponse.showTryAsking ?? false,
-        tryAskingPrompts: mockResponse.tryAskingPrompts ?? [],
-        showFollowUp: mockResponse.showFollowUp ?? false,
-        followUpQuestion: mockResponse.followUpQuestion ?? "",
-        followUpChips: mockResponse.followUpChips ?? [],
-        followUpResponses: mockResponse.followUpResponses ?? [],
-        followUpResponseTypes: mockResponse.followUpResponseTypes ?? [],
-        followUpLinkedResponseIds: mockResponse.followUpLinkedResponseIds ?? []
-      })
-      .returning();
-    return response;
+  async createMockResponse(mockResponse: InsertMockResponse, author: RevisionAuthor = NO_AUTHOR): Promise<MockResponse> {
+    return await db.transaction(async (tx) => {
+      // New responses stay out of chat until they are published
+      const [response] = await tx
+        .insert(mockResponses)
+        .values({ ...toMockResponseValues(mockResponse), status: 'draft' })
+        .returning();
+      await recordMockResponseRevision(tx, response, 'create', author);
+      return response;
+    });
+  }
+
+  async updateMockResponse(id: number, mockResponse: InsertMockResponse, author: RevisionAuthor = NO_AUTHOR, action: MockResponseRevisionAction = 'update'): Promise<MockResponse> {
+    return await db.transaction(async (tx) => {
+      await ensureMockResponseBaseline(tx, id);
+      const [response] = await tx
+        .update(mockResponses)
+        .set({ ...toMockResponseValues(mockResponse), updatedAt: new Date() })
+        .where(eq(mockResponses.id, id))
+        .returning();
+      if (response) {
+        await recordMockResponseRevision(tx, response, action, author);
+      }
+      return response;
+    });
   }
 
-  async updateMockResponse(id: number, mockResponse: InsertMockResponse): Promise<MockResponse> {
+  async saveMockResponseDraft(id: number, mockResponse: InsertMockResponse): Promise<MockResponse> {
     const [response] = await db
       .update(mockResponses)
-      .set({
-        ...mockResponse,
-        showTryAsking: mockResponse.showTryAsking ?? false,
-        tryAskingPrompts: mockResponse.tryAskingPrompts ?? [],
-        showFollowUp: mockResponse.showFollowUp ?? false,
-        followUpQuestion: mockResponse.followUpQuestion ?? "",
-        followUpChips: mockResponse.followUpChips ?? [],
-        followUpResponses: mockResponse.followUpResponses ?? [],
-        followUpResponseTypes: mockResponse.followUpResponseTypes ?? [],
-        followUpLinkedResponseIds: mockResponse.followUpLinkedResponseIds ?? [],
-        updatedAt: new Date()
-      })
+      .set({ draft: JSON.stringify(toMockResponseValues(mockResponse)), updatedAt: new Date() })
       .where(eq(mockResponses.id, id))
       .returning();
     return response;
   }
 
+  async getMockResponseRevisions(mockResponseId: number): Promise<MockResponseRevision[]> {
+    return await db
+      .select()
+      .from(mockResponseRevisions)
+      .where(eq(mockResponseRevisions.mockResponseId, mockResponseId))
+      .orderBy(desc(mockResponseRevisions.createdAt), desc(mockResponseRevisions.id));
+  }
+
+  async getMockResponseRevision(id: number): Promise<MockResponseRevision | undefined> {
+    const [revision] = await db.select().from(mockResponseRevisions).where(eq(mockResponseRevisions.id, id));
+    return revision || undefined;
+  }
+
   async deleteMockResponse(id: number): Promise<void> {
     await db.delete(mockResponses).where(eq(mockResponses.id, id));
   }
 
+  /**
+   * Create or update imported responses in one transaction, then resolve linked follow-ups
+   * by question so they can point at responses created in the same import.
+   * Like edits in the admin panel, imports only change drafts: new responses start unpublished
+   * and changes to published responses wait in their draft.
+   */
+  async importMockResponses(rows: MockResponseImportRow[], author: RevisionAuthor = NO_AUTHOR): Promise<{ created: number; updated: number }> {
+    return await db.transaction(async (tx) => {
+      // Keyed on questions with drafts applied, as the dry-run plan matches them
+      const existing = (await tx.select().from(mockResponses)).map(applyMockResponseDraft);
+      const idsByQuestion = new Map(existing.map(row => [normalizeQuestion(row.question), row.id]));
+      const publishedIds = new Set(existing.filter(row => row.status === 'published').map(row => row.id));
+      const createdIds = new Set<number>();
+      const saved: Array<{ id: number; values: InsertMockResponse; linkedQuestions: Array<string | null> }> = [];
+      let created = 0;
+      let updated = 0;
+
+      for (const row of rows) {
+        if (row.existingId) {
+          saved.push({ id: row.existingId, values: row.values, linkedQuestions: row.linkedQuestions });
+          updated++;
+        } else {
+          const [inserted] = await tx
+            .insert(mockResponses)
+            .values({ ...row.values, status: 'draft' })
+            .returning({ id: mockResponses.id });
+          idsByQuestion.set(normalizeQuestion(row.values.question), inserted.id);
+          createdIds.add(inserted.id);
+          saved.push({ id: inserted.id, values: row.values, linkedQuestions: row.linkedQuestions });
+          created++;
+        }
+      }
+
+      // Throwing rolls the whole import back rather than saving a link to id 0
+      const resolveLink = (linkedQuestion: string, question: string): number => {
+        const linkedId = idsByQuestion.get(normalizeQuestion(linkedQuestion));
+        if (!linkedId) {
+          throw new ImportLinkError(`"${question}" links to "${linkedQuestion}", which is not an existing or imported response`);
+        }
+        return linkedId;
+      };
+
+      for (const { id, values, linkedQuestions } of saved) {
+        const resolvedValues = linkedQuestions.some(Boolean)
+          ? { ...values, followUpLinkedResponseIds: linkedQuestions.map(question => question ? resolveLink(question, values.question) : 0) }
+          : values;
+
+        if (publishedIds.has(id)) {
+          await tx
+            .update(mockResponses)
+            .set({ draft: JSON.stringify(toMockResponseValues(resolvedValues)), updatedAt: new Date() })
+            .where(eq(mockResponses.id, id));
+          continue;
+        }
+
+        // Rows created above are placeholders until now, so only pre-existing rows get an 'initial' revision
+        if (!createdIds.has(id)) {
+          await ensureMockResponseBaseline(tx, id);
+        }
+        const [current] = await tx
+          .update(mockResponses)
+          .set({ ...resolvedValues, updatedAt: new Date() })
+          .where(eq(mockResponses.id, id))
+          .returning();
+        await recordMockResponseRevision(tx, current, 'import', author);
+      }
+
+      return { created, updated };
+    });
+  }
+
+  /**
+   * Make the selected drafts live in one transaction: pending edits replace the published fields,
+   * new responses become visible in chat, and a system prompt draft replaces the system prompt
+   */
+  async publishDrafts(selection: DraftSelection, author: RevisionAuthor = NO_AUTHOR): Promise<{ mockResponses: number; systemPrompt: boolean }> {
+    return await db.transaction(async (tx) => {
+      let published = 0;
+      const publishedNow: MockResponse[] = [];
+
+      for (const id of selection.mockResponseIds) {
+        const [row] = await tx.select().from(mockResponses).where(eq(mockResponses.id, id));
+        if (!row || (row.status === 'published' && !row.draft)) continue;
+
+        if (row.draft) {
+          await ensureMockResponseBaseline(tx, id);
+        }
+        const [current] = await tx
+          .update(mockResponses)
+          .set({
+            ...(row.draft ? toMockResponseValues(JSON.parse(row.draft)) : {}),
+            status: 'published',
+            draft: null,
+            updatedAt: new Date()
+          })
+          .where(eq(mockResponses.id, id))
+          .returning();
+        await recordMockResponseRevision(tx, current, 'publish', author);
+        publishedNow.push(current);
+        published++;
+      }
+
+      // Chat resolves follow-ups from published rows only, so what was just published may only link to those.
+      // Throwing rolls the whole publish back.
+      const allRows = await tx.select().from(mockResponses);
+      const publishedRows = allRows.filter(row => row.status === 'published');
+      const publishedIds = new Set(publishedRows.map(row => row.id));
+      const unpublishedLinks = publishedNow
+        .filter(row => validateFollowUpTargets(row, publishedRows) !== null)
+        .flatMap(row => getFollowUpLinks([row]))
+        .filter(link => link.to === null || !publishedIds.has(link.to));
+      if (unpublishedLinks.length > 0) {
+        const questionsById = new Map(allRows.map(row => [row.id, row.question]));
+        const referencedBy = Array.from(new Set(unpublishedLinks.map(link => link.from)))
+          .map(id => ({ id, question: questionsById.get(id) ?? '' }));
+        const targets = Array.from(new Set(unpublishedLinks.map(link => link.to)))
+          .map(id => ({ id, question: id !== null ? questionsById.get(id) ?? null : null }));
+        throw new UnpublishedLinkError(referencedBy, targets);
+      }
+
+      let systemPromptPublished = false;
+      if (selection.systemPrompt) {
+        const [draft] = await tx.select().from(settings).where(eq(settings.key, SYSTEM_PROMPT_DRAFT_KEY));
+        if (draft) {
+          await writeSetting(tx, 'system_prompt', draft.value, author, 'publish');
+          await tx.delete(settings).where(eq(settings.key, SYSTEM_PROMPT_DRAFT_KEY));
+          systemPromptPublished = true;
+        }
+      }
+
+      return { mockResponses: published, systemPrompt: systemPromptPublished };
+    });
+  }
+
+  /**
+   * Throw away the selected drafts: pending edits are dropped and never-published responses are deleted
+   */
+  async discardDrafts(selection: DraftSelection): Promise<{ mockResponses: number; systemPrompt: boolean }> {
+    return await db.transaction(async (tx) => {
+      let discarded = 0;
+
+      for (const id of selection.mockResponseIds) {
+        const [row] = await tx.select().from(mockResponses).where(eq(mockResponses.id, id));
+        if (!row) continue;
+
+        if (row.status === 'draft') {
+          await tx.delete(mockResponses).where(eq(mockResponses.id, id));
+          discarded++;
+        } else if (row.draft) {
+          await tx.update(mockResponses).set({ draft: null }).where(eq(mockResponses.id, id));
+          discarded++;
+        }
+      }
+
+      const deletedDrafts = selection.systemPrompt
+        ? await tx.delete(settings).where(eq(settings.key, SYSTEM_PROMPT_DRAFT_KEY)).returning({ id: settings.id })
+        : [];
+
+      return { mockResponses: discarded, systemPrompt: deletedDrafts.length > 0 };
+    });
+  }
+
   // Feedback methods
   async getFeedback(): Promise<Feedback[]> {
     return await db.select().from(feedback).orderBy(desc(feedback.createdAt));
@@ -188,10 +637,235 @@ export class DatabaseStorage implements IStorage {
     const [snapshot] = await db.select().from(conversationSnapshots).where(eq(conversationSnapshots.id, id));
     return snapshot || undefined;
   }
+
+  // Chat session methods
+  async getChatSessions(userId: number): Promise<ChatSession[]> {
+    return await db.select().from(chatSessions)
+      .where(eq(chatSessions.userId, userId))
+      .orderBy(desc(chatSessions.updatedAt));
+  }
+
+  async getChatSession(id: number): Promise<ChatSession | undefined> {
+    const [session] = await db.select().from(chatSessions).where(eq(chatSessions.id, id));
+    return session || undefined;
+  }
+
+  async createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    const [newSession] = await db
+      .insert(chatSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
+
+  async updateChatSession(id: number, updates: Partial<InsertChatSession>): Promise<ChatSession> {
+    const [updatedSession] = await db
+      .update(chatSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatSessions.id, id))
+      .returning();
+    return updatedSession;
+  }
+
+  async deleteChatSession(id: number): Promise<void> {
+    // Messages are removed by the ON DELETE CASCADE on chat_messages.session_id
+    await db.delete(chatSessions).where(eq(chatSessions.id, id));
+  }
+
+  // Chat message methods
+  async getChatMessages(sessionId: number): Promise<ChatMessage[]> {
+    return await db.select().from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(asc(chatMessages.createdAt), asc(chatMessages.id));
+  }
+
+  async getChatMessagesForSessions(sessionIds: number[]): Promise<ChatMessage[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+    return await db.select().from(chatMessages)
+      .where(inArray(chatMessages.sessionId, sessionIds))
+      .orderBy(asc(chatMessages.createdAt), asc(chatMessages.id));
+  }
+
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [newMessage] = await db
+      .insert(chatMessages)
+      .values(message)
+      .returning();
+
+    // Bump the session so it sorts as recently active
+    await db
+      .update(chatSessions)
+      .set({ updatedAt: new Date() })
+      .where(eq(chatSessions.id, message.sessionId));
+
+    return newMessage;
+  }
+
+  // API log methods
+  async createApiLog(log: InsertApiLog): Promise<ApiLog> {
+    const [newLog] = await db
+      .insert(apiLogs)
+      .values(log)
+      .returning();
+    return newLog;
+  }
+
+  async getApiLogs(filters: ApiLogFilters, limit: number, offset: number): Promise<{ logs: ApiLog[]; total: number }> {
+    const where = buildApiLogConditions(filters);
+
+    const logs = await db.select().from(apiLogs)
+      .where(where)
+      .orderBy(desc(apiLogs.createdAt), desc(apiLogs.id))
+      .limit(limit)
+      .offset(offset);
+    const [result] = await db.select({ value: count() }).from(apiLogs).where(where);
+
+    return { logs, total: Number(result?.value ?? 0) };
+  }
+
+  async getApiLogStats(filters: ApiLogFilters): Promise<ApiLogSourceStats[]> {
+    const rows = await db
+      .select({
+        source: apiLogs.source,
+        count: count(),
+        averageProcessingTime: sql<number>`coalesce(avg(${apiLogs.processingTime}), 0)`,
+        disambiguationCount: sql<number>`count(*) filter (where ${apiLogs.disambiguationDetected})`,
+      })
+      .from(apiLogs)
+      .where(buildApiLogConditions(filters))
+      .groupBy(apiLogs.source);
+
+    return rows.map((row) => ({
+      source: row.source,
+      count: Number(row.count),
+      averageProcessingTime: Math.round(Number(row.averageProcessingTime)),
+      disambiguationCount: Number(row.disambiguationCount),
+    }));
+  }
+
+  async clearApiLogs(): Promise<void> {
+    await db.delete(apiLogs);
+  }
+
+  async deleteApiLogsBefore(date: Date): Promise<number> {
+    const deleted = await db
+      .delete(apiLogs)
+      .where(lt(apiLogs.createdAt, date))
+      .returning({ id: apiLogs.id });
+    return deleted.length;
+  }
+
+  async getDailyTokenUsage(since: Date): Promise<DailyTokenUsage[]> {
+    const day = sql<string>`to_char(date_trunc('day', ${apiLogs.createdAt}), 'YYYY-MM-DD')`;
+    const rows = await db
+      .select({
+        day,
+        source: apiLogs.source,
+        requests: count(),
+        promptTokens: sql<number>`coalesce(sum(${apiLogs.promptTokens}), 0)`,
+        completionTokens: sql<number>`coalesce(sum(${apiLogs.completionTokens}), 0)`,
+        totalTokens: sql<number>`coalesce(sum(${apiLogs.totalTokens}), 0)`,
+        estimatedCost: sql<number>`coalesce(sum(${apiLogs.estimatedCost}), 0)`,
+      })
+      .from(apiLogs)
+      .where(and(gte(apiLogs.createdAt, since), isNotNull(apiLogs.totalTokens)))
+      .groupBy(day, apiLogs.source)
+      .orderBy(asc(day));
+
+    // Postgres returns sums as strings
+    return rows.map((row) => ({
+      day: row.day,
+      source: row.source,
+      requests: Number(row.requests),
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      totalTokens: Number(row.totalTokens),
+      estimatedCost: Number(row.estimatedCost),
+    }));
+  }
+
+  // Chip action log methods
+  async createChipActionLog(log: InsertChipActionLog): Promise<ChipActionLog> {
+    const [newLog] = await db
+      .insert(chipActionLogs)
+      .values(log)
+      .returning();
+    return newLog;
+  }
+
+  // RAG cache methods
+  async getRagCacheEntries(now: Date, limit: number): Promise<RagCacheEntry[]> {
+    return await db
+      .select()
+      .from(ragCacheEntries)
+      .where(gt(ragCacheEntries.expiresAt, now))
+      .orderBy(desc(ragCacheEntries.createdAt))
+      .limit(limit);
+  }
+
+  async upsertRagCacheEntry(entry: InsertRagCacheEntry): Promise<void> {
+    await db
+      .insert(ragCacheEntries)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: ragCacheEntries.key,
+        set: { query: entry.query, data: entry.data, createdAt: entry.createdAt, expiresAt: entry.expiresAt },
+      });
+  }
+
+  async deleteRagCacheEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await db.delete(ragCacheEntries).where(inArray(ragCacheEntries.key, keys));
+  }
+
+  async deleteExpiredRagCacheEntries(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(ragCacheEntries)
+      .where(lte(ragCacheEntries.expiresAt, now))
+      .returning({ key: ragCacheEntries.key });
+    return deleted.length;
+  }
+
+  async clearRagCacheEntries(): Promise<void> {
+    await db.delete(ragCacheEntries);
+  }
 }
 
 export const storage = new DatabaseStorage();
 
+// Stores the RAG service's cache in the rag_cache_entries table
+export const ragCachePersistence: RagCachePersistence = {
+  async load(now, limit) {
+    await storage.deleteExpiredRagCacheEntries(now);
+    const rows = await storage.getRagCacheEntries(now, limit);
+    return rows.flatMap(row => {
+      try {
+        return [{
+          key: row.key,
+          query: row.query,
+          data: JSON.parse(row.data),
+          createdAt: row.createdAt.getTime(),
+          expiresAt: row.expiresAt.getTime(),
+          hits: 0,
+        }];
+      } catch {
+        return [];
+      }
+    });
+  },
+  save: (entry) => storage.upsertRagCacheEntry({
+    key: entry.key,
+    query: entry.query,
+    data: JSON.stringify(entry.data),
+    createdAt: new Date(entry.createdAt),
+    expiresAt: new Date(entry.expiresAt),
+  }),
+  delete: (keys) => storage.deleteRagCacheEntries(keys),
+  clear: () => storage.clearRagCacheEntries(),
+};
+
 // Initialize default settings
 export const initializeDefaultSettings = async () => {
   const defaultSettings = [
@@ -211,6 +885,50 @@ export const initializeDefaultSettings = async () => {
       key: 'try_asking_enabled',
       value: 'true'
     },
+    {
+      key: 'llm_provider',
+      value: 'openai'
+    },
+    {
+      key: 'openai_model',
+      value: 'gpt-4o'
+    },
+    {
+      key: 'openai_max_tokens',
+      value: '1000'
+    },
+    {
+      key: 'openai_temperature',
+      value: '0.7'
+    },
+    {
+      key: 'api_log_retention_days',
+      value: '30'
+    },
+    {
+      key: 'rag_cache_max_entries',
+      value: String(DEFAULT_RAG_CACHE_MAX_ENTRIES)
+    },
+    {
+      key: 'rag_cache_ttl_minutes',
+      value: String(DEFAULT_RAG_CACHE_TTL_MS / 60000)
+    },
+    {
+      key: 'rag_cache_persist',
+      value: 'false'
+    },
+    {
+      key: 'mock_match_threshold',
+      value: String(DEFAULT_MATCH_THRESHOLD)
+    },
+    {
+      key: 'mock_match_use_vectors',
+      value: 'false'
+    },
+    {
+      key: 'mock_match_synonyms',
+      value: DEFAULT_SYNONYMS
+    },
     {
       key: 'system_prompt',
       value: 'You are a highly knowledgeable AI assistant specializing in chemistry and the chemical industry. Always respond with clear, accurate, and helpful information suitable for professionals in R&D, sales, and procurement roles.\n\nIMPORTANT: You MUST output your response in valid HTML format only. Do NOT use Markdown syntax. Do NOT use ** for bold, use <strong>. Do NOT use ### for headings, use <h3>. Do NOT use - for lists, use <ul><li>.\n\nUse these HTML elements for formatting:\n- Headings: <h2>, <h3>, <h4>\n- Bold text: <strong>text</strong>\n- Italic text: <em>text</em>\n- Lists: <ul><li>item</li></ul> or <ol><li>item</li></ol>\n- Paragraphs: <p>content</p>\n- Tables: <table><thead><tr><th>header</th></tr></thead><tbody><tr><td>data</td></tr></tbody></table>\n- Chemical formulas: H<sub>2</sub>SO<sub>4</sub> or CO<sub>2</sub>\n- Line breaks: <br>\n\nYour response must be valid HTML that can be directly inserted into a web page. Never use markdown syntax like **, ###, or -.'
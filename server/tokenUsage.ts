@@ -0,0 +1,103 @@
+// Token usage capture and cost estimation for OpenAI calls
+
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // true when counted locally instead of reported by OpenAI
+  estimatedCost: number; // USD
+}
+
+// USD per 1M tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+const DEFAULT_PRICING = MODEL_PRICING['gpt-4o'];
+
+// Models the admin panel may select; each has a known price
+export const SUPPORTED_MODELS = Object.keys(MODEL_PRICING);
+
+// Roughly what OpenAI's tokenizers average for English prose and HTML
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead for role and separators in the chat format
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Rough local token count for text, used when the API does not report usage
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Rough local token count for a chat messages array
+ */
+export function estimateMessageTokens(messages: Array<{ role: string; content: string }>): number {
+  return messages.reduce(
+    (sum, message) => sum + TOKENS_PER_MESSAGE + estimateTokens(message.content),
+    3 // every reply is primed with an assistant header
+  );
+}
+
+/**
+ * Estimated USD cost of a call; dated snapshots (e.g. gpt-4o-2024-08-06) use their base model's price
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  // The local stub provider reports "fake-<model>" and costs nothing
+  if (model.startsWith('fake-')) {
+    return 0;
+  }
+  const baseModel = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model === name || model.startsWith(`${name}-`));
+  const pricing = baseModel ? MODEL_PRICING[baseModel] : DEFAULT_PRICING;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Build a TokenUsage from the provider's reported usage, falling back to a local estimate
+ */
+export function buildTokenUsage(
+  model: string,
+  usage: { promptTokens: number; completionTokens: number; totalTokens?: number } | null | undefined,
+  messages: Array<{ role: string; content: string }>,
+  completion: string
+): TokenUsage {
+  const estimated = !usage;
+  const promptTokens = usage ? usage.promptTokens : estimateMessageTokens(messages);
+  const completionTokens = usage ? usage.completionTokens : estimateTokens(completion);
+
+  return {
+    model,
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.totalTokens ?? promptTokens + completionTokens,
+    estimated,
+    estimatedCost: estimateCost(model, promptTokens, completionTokens),
+  };
+}
+
+/**
+ * Usage of two calls made for one chat answer, e.g. the answer and its suggested questions, logged as one row
+ */
+export function sumTokenUsage(primary: TokenUsage, extra: TokenUsage | undefined): TokenUsage {
+  if (!extra) {
+    return primary;
+  }
+  return {
+    model: primary.model,
+    promptTokens: primary.promptTokens + extra.promptTokens,
+    completionTokens: primary.completionTokens + extra.completionTokens,
+    totalTokens: primary.totalTokens + extra.totalTokens,
+    estimated: primary.estimated || extra.estimated,
+    estimatedCost: primary.estimatedCost + extra.estimatedCost,
+  };
+}
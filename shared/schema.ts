@@ -1,11 +1,18 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Roles in descending order of privilege: admins manage everything, editors curate content, viewers only chat
+export const USER_ROLES = ['admin', 'editor', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash stored as "hash.salt"
+  displayName: text("display_name"),
+  role: text("role").notNull().default("viewer"), // 'admin', 'editor', 'viewer'
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const settings = pgTable("settings", {
@@ -26,10 +33,41 @@ export const mockResponses = pgTable("mock_responses", {
   followUpResponses: text("follow_up_responses").array().default([]),
   followUpResponseTypes: text("follow_up_response_types").array().default([]), // 'custom' or 'existing'
   followUpLinkedResponseIds: integer("follow_up_linked_response_ids").array().default([]), // IDs of linked responses
+  matchThreshold: real("match_threshold"), // Minimum match score (0-1); null uses the global mock_match_threshold
+  alternateQuestions: text("alternate_questions").array().default([]), // Other phrasings matched like the main question
+  tags: text("tags").array().default([]), // Free-form lowercase labels for organizing responses in the admin panel
+  status: text("status").notNull().default("published"), // 'draft' until first published, then 'published'
+  draft: text("draft"), // JSON string of unpublished edits to a published response; null when there are none
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every saved version of a mock response, so edits can be reviewed and rolled back
+export const mockResponseRevisions = pgTable("mock_response_revisions", {
+  id: serial("id").primaryKey(),
+  mockResponseId: integer("mock_response_id").notNull().references(() => mockResponses.id, { onDelete: "cascade" }),
+  snapshot: text("snapshot").notNull(), // JSON string of the editable fields as saved
+  action: text("action").notNull(), // 'initial', 'create', 'update', 'import', 'restore', 'publish'
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("mock_response_revisions_response_idx").on(table.mockResponseId),
+]);
+
+// Every saved value of versioned settings (currently the system prompt)
+export const settingRevisions = pgTable("setting_revisions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(),
+  value: text("value").notNull(),
+  action: text("action").notNull(), // 'initial', 'update', 'restore', 'publish'
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("setting_revisions_key_idx").on(table.key),
+]);
+
 export const feedback = pgTable("feedback", {
   id: serial("id").primaryKey(),
   type: text("type").notNull(), // 'bug', 'feature', 'general'
@@ -42,6 +80,7 @@ export const feedback = pgTable("feedback", {
   currentRoute: text("current_route"),
   appVersion: text("app_version"),
   conversationSnapshotId: integer("conversation_snapshot_id"),
+  userId: integer("user_id").references(() => users.id),
   adminResponse: text("admin_response"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -54,9 +93,88 @@ export const conversationSnapshots = pgTable("conversation_snapshots", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const chatSessions = pgTable("chat_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull().default("New Chat"),
+  isPinned: boolean("is_pinned").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  sender: text("sender").notNull(), // 'user' or 'ai'
+  content: text("content").notNull(),
+  metadata: text("metadata"), // JSON string of response extras (source, chips, citations, disambiguation data)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const apiLogs = pgTable("api_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  userQuestion: text("user_question").notNull(),
+  systemPrompt: text("system_prompt").notNull().default(""),
+  ragContent: text("rag_content"),
+  openaiMessages: text("openai_messages").notNull().default("[]"), // JSON string of the messages sent to OpenAI
+  response: text("response").notNull(),
+  source: text("source").notNull(), // 'mock', 'openai', 'openai-rag', 'rag-disambiguation', 'fallback'
+  processingTime: integer("processing_time").notNull(),
+  ragResponseTime: integer("rag_response_time"),
+  ragContentLength: integer("rag_content_length"),
+  disambiguationDetected: boolean("disambiguation_detected").default(false),
+  disambiguationContent: text("disambiguation_content"),
+  disambiguationParsed: text("disambiguation_parsed"), // JSON string of parsed disambiguation options
+  queryComplexity: text("query_complexity"), // 'simple', 'moderate', 'complex'
+  selectedProductId: text("selected_product_id"),
+  userSelectionTime: integer("user_selection_time"),
+  searchCategories: text("search_categories").array(),
+  confidenceScore: real("confidence_score"),
+  model: text("model"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  tokensEstimated: boolean("tokens_estimated"), // true when counted locally rather than reported by OpenAI
+  estimatedCost: real("estimated_cost"), // USD
+  trace: text("trace"), // JSON string of per-stage timings and results for the request
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("api_logs_created_at_idx").on(table.createdAt),
+]);
+
+// Every chip click in chat, whatever rendered the chip, for seeing which suggestions users follow
+export const chipActionLogs = pgTable("chip_action_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  sessionId: integer("session_id").references(() => chatSessions.id, { onDelete: "set null" }),
+  source: text("source").notNull(), // One of CHIP_SOURCES
+  actionType: text("action_type").notNull(), // 'ask-question', 'show-curated-response', 'open-panel', 'start-task'
+  label: text("label").notNull(), // Chip text as shown to the user
+  action: text("action").notNull(), // JSON string of the full ChipAction
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("chip_action_logs_created_at_idx").on(table.createdAt),
+]);
+
+// Persisted copy of the in-memory Knowde response cache, loaded at startup when rag_cache_persist is on
+export const ragCacheEntries = pgTable("rag_cache_entries", {
+  key: text("key").primaryKey(), // Normalized query, plus the conversation for follow-up turns
+  query: text("query").notNull(), // The message as the user asked it
+  data: text("data").notNull(), // JSON string of the raw Knowde response
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("rag_cache_entries_expires_at_idx").on(table.expiresAt),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
+  role: true,
 });
 
 export const insertSettingSchema = createInsertSchema(settings).pick({
@@ -75,6 +193,19 @@ export const insertMockResponseSchema = createInsertSchema(mockResponses).pick({
   followUpResponses: true,
   followUpResponseTypes: true,
   followUpLinkedResponseIds: true,
+  matchThreshold: true,
+  alternateQuestions: true,
+  tags: true,
+});
+
+export const insertMockResponseRevisionSchema = createInsertSchema(mockResponseRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSettingRevisionSchema = createInsertSchema(settingRevisions).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertFeedbackSchema = createInsertSchema(feedback).pick({
@@ -87,6 +218,7 @@ export const insertFeedbackSchema = createInsertSchema(feedback).pick({
   currentRoute: true,
   appVersion: true,
   conversationSnapshotId: true,
+  userId: true,
 });
 
 export const insertConversationSnapshotSchema = createInsertSchema(conversationSnapshots).pick({
@@ -94,16 +226,56 @@ export const insertConversationSnapshotSchema = createInsertSchema(conversationS
   sessionInfo: true,
 });
 
+export const insertChatSessionSchema = createInsertSchema(chatSessions).pick({
+  userId: true,
+  title: true,
+  isPinned: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
+  sessionId: true,
+  sender: true,
+  content: true,
+  metadata: true,
+});
+
+export const insertApiLogSchema = createInsertSchema(apiLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertChipActionLogSchema = createInsertSchema(chipActionLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRagCacheEntrySchema = createInsertSchema(ragCacheEntries);
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'password'>;
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type Setting = typeof settings.$inferSelect;
 export type InsertMockResponse = z.infer<typeof insertMockResponseSchema>;
 export type MockResponse = typeof mockResponses.$inferSelect;
+export type InsertMockResponseRevision = z.infer<typeof insertMockResponseRevisionSchema>;
+export type MockResponseRevision = typeof mockResponseRevisions.$inferSelect;
+export type InsertSettingRevision = z.infer<typeof insertSettingRevisionSchema>;
+export type SettingRevision = typeof settingRevisions.$inferSelect;
 export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
 export type Feedback = typeof feedback.$inferSelect;
 export type InsertConversationSnapshot = z.infer<typeof insertConversationSnapshotSchema>;
 export type ConversationSnapshot = typeof conversationSnapshots.$inferSelect;
+export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
+export type ChatSession = typeof chatSessions.$inferSelect;
+export type InsertApiLog = z.infer<typeof insertApiLogSchema>;
+export type ApiLog = typeof apiLogs.$inferSelect;
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChipActionLog = z.infer<typeof insertChipActionLogSchema>;
+export type ChipActionLog = typeof chipActionLogs.$inferSelect;
+export type InsertRagCacheEntry = z.infer<typeof insertRagCacheEntrySchema>;
+export type RagCacheEntry = typeof ragCacheEntries.$inferSelect;
 
 // Chat response types for Phase 2 disambiguation implementation
 export interface ProductOption {
@@ -139,13 +311,36 @@ export interface DisambiguationData {
   };
 }
 
+// The answer behind a follow-up chip, resolved on the server. Linked responses carry their own
+// follow-ups, resolved the same way down to a depth limit; below it they have no chips.
+export interface FollowUpResponseData {
+  content: string;
+  tryAskingPrompts: string[];
+  showTryAsking: boolean;
+  showFollowUp: boolean;
+  followUpQuestion: string;
+  followUpChips: string[];
+  followUpResponsesData: FollowUpResponseData[]; // One per chip, in chip order
+}
+
+// A RAG source an answer was based on, shown as a citation chip that opens the snippet
+export interface Citation {
+  id: string; // Position in the answer's source list, from "1"
+  label: string; // "Product (Company)", as listed in the LLM context
+  product: string;
+  company: string;
+  documentName?: string; // Source document, when Knowde reports one
+  score: number; // Knowde relevance score
+  snippet: string; // The source text given to the LLM
+}
+
 export interface BaseChatResponse {
   processingTime: number;
 }
 
 export interface NormalChatResponse extends BaseChatResponse {
   type: 'normal';
-  source: 'mock' | 'openai' | 'openai-rag';
+  source: 'mock' | 'openai' | 'openai-rag' | 'fallback';
   content: string;
   ragResponseTime?: number;
   ragContentLength?: number;
@@ -155,7 +350,9 @@ export interface NormalChatResponse extends BaseChatResponse {
   followUpQuestion?: string;
   followUpChips?: string[];
   followUpResponses?: string[];
-  followUpResponsesData?: any[];
+  followUpResponsesData?: FollowUpResponseData[];
+  citations?: Citation[]; // Set on 'openai-rag' responses
+  error?: string; // Set on 'fallback' responses
 }
 
 export interface DisambiguationChatResponse extends BaseChatResponse {
@@ -166,3 +363,51 @@ export interface DisambiguationChatResponse extends BaseChatResponse {
 }
 
 export type ChatResponse = NormalChatResponse | DisambiguationChatResponse;
+
+// Server-Sent Events emitted by /api/chat while an LLM answer streams
+export interface ChatStreamStartEvent {
+  type: 'start';
+  source: 'openai' | 'openai-rag';
+  startTime: number;
+  ragResponseTime?: number;
+  ragContentLength?: number;
+  citations?: Citation[];
+}
+
+export interface ChatStreamContentEvent {
+  type: 'content';
+  content: string;
+  fullContent: string;
+}
+
+export type ChatStreamCompleteEvent = Omit<NormalChatResponse, 'type'> & { type: 'complete' };
+
+export type ChatStreamEvent = ChatStreamStartEvent | ChatStreamContentEvent | ChatStreamCompleteEvent;
+
+// What clicking a chat chip does. Chips from curated responses, disambiguation, AI answers and the task
+// list all carry one of these, so the client dispatches them through one handler and the server logs them.
+export const CHIP_PANELS = ['tasks', 'find-replacement'] as const;
+export type ChipPanel = typeof CHIP_PANELS[number];
+
+// Where the chip was rendered
+export const CHIP_SOURCES = ['intro-question', 'try-asking', 'follow-up', 'disambiguation', 'chat-header', 'taskbar'] as const;
+export type ChipSource = typeof CHIP_SOURCES[number];
+
+export const chipActionSchema = z.discriminatedUnion('type', [
+  // Send the text as a new question
+  z.object({ type: z.literal('ask-question'), question: z.string().trim().min(1) }),
+  // Answer with the follow-up resolved on the server along with the message (see FollowUpResponseData)
+  z.object({ type: z.literal('show-curated-response'), messageId: z.string().min(1), chipIndex: z.number().int().min(0) }),
+  z.object({ type: z.literal('open-panel'), panel: z.enum(CHIP_PANELS) }),
+  // Task ids are the ones listed in the taskbar
+  z.object({ type: z.literal('start-task'), taskId: z.string().min(1) }),
+]);
+export type ChipAction = z.infer<typeof chipActionSchema>;
+
+export const chipActionEventSchema = z.object({
+  action: chipActionSchema,
+  label: z.string().trim().min(1),
+  source: z.enum(CHIP_SOURCES),
+  sessionId: z.number().int().positive().optional(),
+});
+export type ChipActionEvent = z.infer<typeof chipActionEventSchema>;